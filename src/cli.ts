@@ -5,16 +5,42 @@ import * as path from 'path';
 import * as jsonc from 'jsonc-parser';
 import {
   createSimpleCommandId,
+  generateNormalizedCommandId,
   getSupportedModelYearsForCommand,
   getUnsupportedModelYearsForCommand
 } from './utils/commandSupportUtils';
 import { getGenerations, GenerationSet } from './utils/generationsCore';
 import { detectVehicleType, shouldFilterEvCommand, VehicleType } from './utils/vehicleTypeDetection';
+import { findTestFiles, runTestFile } from './utils/testCaseRunner';
+import { formatJsonReport, formatJUnitReport, summarizeTestResults } from './utils/testReporters';
+import { SignalLinter } from './linter/signalLinter';
+import { RuleRegistry } from './linter/ruleRegistry';
+import { LintSeverity } from './linter/rules/rule';
+import { FileLintResults, formatLintJson, formatLintSarif, formatLintText } from './linter/lintReporters';
+import { loadLinterConfig } from './linter/linterConfig';
+import { getActiveModelYears, loadLintContext } from './linter/lintContext';
+import { exportSignalsetToDbc } from './dbc/dbcExporter';
+import { importDbcToSignalset } from './dbc/dbcImporter';
+import { decodeDbcFile } from './dbc/dbcFile';
+import { SignalsetEdit, editSignalset, formatSignalset } from './utils/signalsetFormatter';
+import { computeSignalCoverage, formatCoverageJson, summarizeCoverage } from './utils/signalCoverage';
+import { getSignalsetYearRange, resolveEffectiveSignalset } from './utils/effectiveSignalset';
+import { diffSignalsets, formatDiffJson, formatDiffMarkdown, formatDiffText } from './utils/signalsetDiff';
+import { buildFleetReport, countVehicleProblems, findVehicleRepositories, scanVehicleRepository, VehicleScanResult } from './utils/fleetScan';
+import { formatFleetHtml, formatFleetJson } from './utils/fleetReporters';
 
 interface CliOptions {
   command: string;
   workspacePath?: string;
   commit?: boolean;
+  junitPath?: string;
+  jsonPath?: string;
+  format?: string;
+  fix?: boolean;
+  exportFormat?: string;
+  outputPath?: string;
+  sort?: boolean;
+  comparePath?: string;
 }
 
 interface CommandSupportOptions extends CliOptions {
@@ -33,19 +59,43 @@ function parseArgs(): CommandSupportOptions {
   let workspacePath: string | undefined;
   let commandId: string | undefined;
   let commit = false;
+  let junitPath: string | undefined;
+  let jsonPath: string | undefined;
+  let format: string | undefined;
+  let fix = false;
+  let exportFormat: string | undefined;
+  let outputPath: string | undefined;
+  let sort = false;
+  let comparePath: string | undefined;
 
   // Parse remaining arguments
   for (let i = 1; i < args.length; i++) {
     if (args[i] === '--commit') {
       commit = true;
+    } else if (args[i] === '--junit') {
+      junitPath = args[++i];
+    } else if (args[i] === '--json') {
+      jsonPath = args[++i];
+    } else if (args[i] === '--format') {
+      format = args[++i];
+    } else if (args[i] === '--fix') {
+      fix = true;
+    } else if (args[i] === '--output' || args[i] === '-o') {
+      outputPath = args[++i];
+    } else if (args[i] === '--sort') {
+      sort = true;
+    } else if ((command === 'export' || command === 'import') && !exportFormat) {
+      exportFormat = args[i];
     } else if (!workspacePath) {
       workspacePath = args[i];
     } else if (!commandId && command === 'command-support') {
       commandId = args[i];
+    } else if (!comparePath && command === 'diff') {
+      comparePath = args[i];
     }
   }
 
-  return { command, workspacePath, commandId, commit };
+  return { command, workspacePath, commandId, commit, junitPath, jsonPath, format, fix, exportFormat, outputPath, sort, comparePath };
 }
 
 function printUsage(): void {
@@ -55,9 +105,25 @@ function printUsage(): void {
   console.log('  optimize <workspace-path>         Parse and optimize debug filters');
   console.log('  fix <workspace-path>              Apply linting auto-fixes (sentence case, duplicates, bit overlaps, ABS naming, EV filtering, Mode 01)');
   console.log('  command-support <workspace-path> <command-id>  Show supported and unsupported model years for a command');
+  console.log('  test <workspace-path>             Run all YAML test cases against the signalsets');
+  console.log('  lint <workspace-path>             Run all linter rules on the signalsets');
+  console.log('  format <workspace-path>           Check that the signalsets use the canonical layout');
+  console.log('  coverage <workspace-path>         Report how many test cases assert each signal');
+  console.log('  export dbc <workspace-path>       Export the default signalset as a Vector DBC file');
+  console.log('  import dbc <dbc-file>             Generate a signalset skeleton from a Vector DBC file');
+  console.log('  diff <old.json> <new.json>        Report the commands and signals that differ between two signalsets');
+  console.log('  scan <directory>                  Lint, test and measure coverage of every vehicle repository under a directory');
   console.log('');
   console.log('Options:');
   console.log('  --commit                          Apply the changes to the file');
+  console.log('  --sort                            (format) Sort commands by header and command bytes');
+  console.log('  --junit <file>                    (test) Write a JUnit XML report');
+  console.log('  --json <file>                     (test, coverage, scan) Write a JSON report');
+  console.log('  --format <text|json|sarif>        (lint) Output format, defaults to text');
+  console.log('  --format <text|json|markdown>     (diff) Output format, defaults to text');
+  console.log('  --fix                             (lint) Apply the suggested fix of each lint result');
+  console.log('  --output, -o <file>               (export, import, diff) Write to a file instead of stdout');
+  console.log('  --output, -o <file>               (scan) Write an HTML report');
 }
 
 
@@ -134,7 +200,8 @@ interface OptimizationEdit {
 }
 
 async function optimizeCommand(workspacePath: string, commit: boolean = false): Promise<void> {
-  const signalsetPath = path.join(workspacePath, 'signalsets', 'v3', 'default.json');
+  const signalsetDir = path.join(workspacePath, 'signalsets', 'v3');
+  const signalsetPath = path.join(signalsetDir, 'default.json');
 
   if (!fs.existsSync(signalsetPath)) {
     console.error(`Error: Signalset file not found at ${signalsetPath}`);
@@ -149,6 +216,46 @@ async function optimizeCommand(workspacePath: string, commit: boolean = false):
 
   console.log(`Generations found: earliest year = ${earliestYear}, latest year = ${latestYear || 'ongoing'}`);
 
+  // A year's test cases only count towards the signalset file that defines the command in that year
+  const sourcesByYear = new Map<number, Map<string, string>>();
+  const definesCommandIn = (filePath: string, commandId: string, year: number): boolean => {
+    if (!sourcesByYear.has(year)) {
+      const effective = resolveEffectiveSignalset(workspacePath, year, { applyFilters: false });
+      sourcesByYear.set(year, new Map(effective.commands.map(({ command, sourcePath }) =>
+        [generateNormalizedCommandId(command), sourcePath] as [string, string])));
+    }
+    return sourcesByYear.get(year)!.get(commandId) === filePath;
+  };
+
+  const rangePaths = fs.readdirSync(signalsetDir)
+    .filter(file => getSignalsetYearRange(file) !== undefined)
+    .sort()
+    .map(file => path.join(signalsetDir, file));
+
+  for (const filePath of [signalsetPath, ...rangePaths]) {
+    const range = getSignalsetYearRange(filePath);
+    // Year-range files can only narrow their commands within their own years
+    const fileGenerations = range
+      ? new GenerationSet([{
+        name: path.basename(filePath, '.json'),
+        start_year: generations?.length ? Math.max(range[0], earliestYear) : range[0],
+        end_year: Math.min(range[1], latestYear ?? range[1]),
+        description: ''
+      }])
+      : generationSet;
+
+    console.log(`\n📄 ${path.relative(workspacePath, filePath)}`);
+    await optimizeSignalsetFile(workspacePath, filePath, fileGenerations, definesCommandIn, commit);
+  }
+}
+
+async function optimizeSignalsetFile(
+  workspacePath: string,
+  signalsetPath: string,
+  generationSet: GenerationSet,
+  definesCommandIn: (filePath: string, commandId: string, year: number) => boolean,
+  commit: boolean
+): Promise<void> {
   try {
     let content = await fs.promises.readFile(signalsetPath, 'utf-8');
     const rootNode = jsonc.parseTree(content);
@@ -193,8 +300,10 @@ async function optimizeCommand(workspacePath: string, commit: boolean = false):
       const rax = raxNode ? jsonc.getNodeValue(raxNode) : undefined;
 
       const commandId = createSimpleCommandId(hdr, cmd, rax);
-      const supportedYears = await getSupportedModelYearsForCommand(commandId, workspacePath);
-      const unsupportedYears = await getUnsupportedModelYearsForCommand(commandId, workspacePath);
+      const normalizedId = generateNormalizedCommandId(jsonc.getNodeValue(commandNode));
+      const appliesTo = (year: string) => definesCommandIn(signalsetPath, normalizedId, parseInt(year, 10));
+      const supportedYears = (await getSupportedModelYearsForCommand(commandId, workspacePath)).filter(appliesTo);
+      const unsupportedYears = (await getUnsupportedModelYearsForCommand(commandId, workspacePath)).filter(appliesTo);
 
       console.log(`  ${index + 1}. ${commandId}`);
       console.log(`     Supported years: ${supportedYears.length > 0 ? supportedYears.join(', ') : 'none'}`);
@@ -227,70 +336,23 @@ async function optimizeCommand(workspacePath: string, commit: boolean = false):
     if (commit && editsToApply.length > 0) {
       console.log('\n🔧 Applying optimizations...\n');
 
-      // Process edits in reverse order to avoid offset issues
-      const sortedEdits = [...editsToApply].sort((a, b) => b.commandIndex - a.commandIndex);
-
-      for (const edit of sortedEdits) {
-        const commandNode = commandsNode.children![edit.commandIndex];
-        const commandStart = commandNode.offset;
-        const commandEnd = commandNode.offset + commandNode.length;
-        let commandText = content.substring(commandStart, commandEnd);
-
-        // First, remove "dbg"
-        commandText = commandText.replace(/,\s*"dbg"\s*:\s*true/g, '');
-        commandText = commandText.replace(/"dbg"\s*:\s*true\s*,?\s*/g, '');
-
-        // Then, remove "dbgfilter"
-        commandText = commandText.replace(/,\s*"dbgfilter"\s*:\s*\{[^}]*\}/g, '');
-        commandText = commandText.replace(/"dbgfilter"\s*:\s*\{[^}]*\}\s*,?\s*/g, '');
-
-        // Find the first line (header line with hdr, rax, cmd)
-        const lines = commandText.split('\n');
-        if (lines.length > 0) {
-          let firstLine = lines[0];
-
-          // Clean up any extra commas or spaces from removals
-          firstLine = firstLine.replace(/,\s*,/g, ',').trim();
-
-          if (edit.useDbgTrue) {
-            // Add "dbg": true
-            if (firstLine.endsWith(',')) {
-              firstLine = firstLine.replace(/,\s*$/, ', "dbg": true,');
-            } else {
-              firstLine = firstLine + ', "dbg": true';
-            }
-          } else {
-            // Add dbgfilter
-            const filter = edit.newFilter!;
-            const orderedFilter: any = {};
-            if (filter.to !== undefined) orderedFilter.to = filter.to;
-            if (filter.years !== undefined) orderedFilter.years = filter.years;
-            if (filter.from !== undefined) orderedFilter.from = filter.from;
-
-            const filterJson = JSON.stringify(orderedFilter)
-              .replace(/^{/, '{ ')
-              .replace(/}$/, ' }')
-              .replace(/":/g, '": ')
-              .replace(/,"/g, ', "')
-              .replace(/,(\d)/g, ', $1')
-              .replace(/\[(\d)/g, '[$1')
-              .replace(/(\d)\]/g, '$1]');
-
-            if (firstLine.endsWith(',')) {
-              firstLine = firstLine.replace(/,\s*$/, `, "dbgfilter": ${filterJson},`);
-            } else {
-              firstLine = firstLine + `, "dbgfilter": ${filterJson}`;
-            }
-          }
-
-          lines[0] = firstLine;
-          commandText = lines.join('\n');
+      const signalsetEdits: SignalsetEdit[] = [];
+      for (const edit of editsToApply) {
+        const commandPath = ['commands', edit.commandIndex];
+        signalsetEdits.push({ path: [...commandPath, 'dbg'], value: undefined });
+        signalsetEdits.push({ path: [...commandPath, 'dbgfilter'], value: undefined });
+
+        if (edit.useDbgTrue) {
+          signalsetEdits.push({ path: [...commandPath, 'dbg'], value: true });
+        } else {
+          // Formatting puts the filter's keys in their usual order
+          signalsetEdits.push({ path: [...commandPath, 'dbgfilter'], value: edit.newFilter });
         }
 
-        content = content.substring(0, commandStart) + commandText + content.substring(commandEnd);
         const action = edit.useDbgTrue ? 'Set "dbg": true' : 'Set dbgfilter';
         console.log(`  ✅ ${action} for ${edit.commandId}`);
       }
+      content = editSignalset(content, signalsetEdits);
 
       await fs.promises.writeFile(signalsetPath, content, 'utf-8');
       console.log(`\n✅ Successfully updated ${signalsetPath}`);
@@ -389,7 +451,12 @@ async function fixCommand(workspacePath: string, commit: boolean): Promise<void>
   try {
     // Read and parse signalset
     const content = await fs.promises.readFile(signalsetPath, 'utf-8');
-    const signalset = JSON.parse(content);
+    const parseErrors: jsonc.ParseError[] = [];
+    const signalset = jsonc.parse(content, parseErrors, { allowTrailingComma: true });
+    if (parseErrors.length > 0) {
+      console.error(`Error: ${signalsetPath} is not valid JSON`);
+      process.exit(1);
+    }
 
     if (!signalset.commands || !Array.isArray(signalset.commands)) {
       console.error('Error: Invalid signalset format - missing commands array');
@@ -404,6 +471,9 @@ async function fixCommand(workspacePath: string, commit: boolean): Promise<void>
     const vehicleType = detectVehicleType(modelName, signalset.commands);
     console.log(`🔍 Vehicle type: ${vehicleType}\n`);
 
+    // Bits may be shared by signals active in different model years
+    const lintContext = await loadLintContext(signalsetPath, workspacePath);
+
     // Track fixes
     const fixes = {
       sentenceCase: 0,
@@ -429,6 +499,16 @@ async function fixCommand(workspacePath: string, commit: boolean): Promise<void>
       }
     }
 
+    // Remember where each signal is and what it was called, to edit the file in place later
+    const originalSignals = new Map<any, { commandIndex: number, signalIndex: number, id: any, name: any }>();
+    signalset.commands.forEach((cmd: any, commandIndex: number) => {
+      if (cmd.signals && Array.isArray(cmd.signals)) {
+        cmd.signals.forEach((signal: any, signalIndex: number) => {
+          originalSignals.set(signal, { commandIndex, signalIndex, id: signal.id, name: signal.name });
+        });
+      }
+    });
+
     // Find signals to remove due to bit overlaps
     const signalsToRemove = new Set<any>();
 
@@ -474,8 +554,12 @@ async function fixCommand(workspacePath: string, commit: boolean): Promise<void>
         }
       }
 
-      // Resolve bit overlaps
-      for (const [bitRange, overlappingSignals] of bitGroups.entries()) {
+      // Resolve bit overlaps between signals that are active in at least one common model year
+      const activeYears = new Map<any, number[]>(cmd.signals.map((signal: any) => [signal, getActiveModelYears(lintContext, cmd, signal)]));
+      for (const [bitRange, signalsAtRange] of bitGroups.entries()) {
+        const overlappingSignals = signalsAtRange.filter(signal => signalsAtRange.some(other =>
+          other !== signal && activeYears.get(other)!.some(year => activeYears.get(signal)!.includes(year))
+        ));
         if (overlappingSignals.length > 1) {
           // Remove obsolete versions
           const obsoleteSuffixes = ['_PRE21', '_OLD', '_V1'];
@@ -557,18 +641,6 @@ async function fixCommand(workspacePath: string, commit: boolean): Promise<void>
       }
     }
 
-    // Remove commands marked for removal (in reverse order)
-    for (let i = commandsToRemove.length - 1; i >= 0; i--) {
-      signalset.commands.splice(commandsToRemove[i], 1);
-    }
-
-    // Remove signals marked for removal
-    for (const cmd of signalset.commands) {
-      if (cmd.signals) {
-        cmd.signals = cmd.signals.filter((s: any) => !signalsToRemove.has(s));
-      }
-    }
-
     // Fix 3: Duplicate signal IDs
     for (const [signalId, signalList] of signalIdMap.entries()) {
       if (signalList.length > 1) {
@@ -606,7 +678,30 @@ async function fixCommand(workspacePath: string, commit: boolean): Promise<void>
     // Write back if --commit
     if (commit && totalFixes > 0) {
       console.log('\n💾 Writing changes...');
-      await fs.promises.writeFile(signalsetPath, JSON.stringify(signalset, null, 2), 'utf-8');
+      const edits: SignalsetEdit[] = [];
+      for (const [signal, original] of originalSignals) {
+        const signalPath = ['commands', original.commandIndex, 'signals', original.signalIndex];
+        if (signal.id !== original.id) {
+          edits.push({ path: [...signalPath, 'id'], value: signal.id });
+        }
+        if (signal.name !== original.name) {
+          edits.push({ path: [...signalPath, 'name'], value: signal.name });
+        }
+      }
+
+      // Remove from the end so the indexes of the remaining items stay valid
+      const removedSignals = [...originalSignals]
+        .filter(([signal]) => signalsToRemove.has(signal))
+        .map(([, original]) => original)
+        .sort((a, b) => b.commandIndex - a.commandIndex || b.signalIndex - a.signalIndex);
+      for (const original of removedSignals) {
+        edits.push({ path: ['commands', original.commandIndex, 'signals', original.signalIndex], value: undefined });
+      }
+      for (let i = commandsToRemove.length - 1; i >= 0; i--) {
+        edits.push({ path: ['commands', commandsToRemove[i]], value: undefined });
+      }
+
+      await fs.promises.writeFile(signalsetPath, editSignalset(content, edits), 'utf-8');
       console.log('✅ Successfully applied all fixes!');
     } else if (!commit && totalFixes > 0) {
       console.log('\n💡 Use --commit to apply these changes');
@@ -620,6 +715,355 @@ async function fixCommand(workspacePath: string, commit: boolean): Promise<void>
   }
 }
 
+async function testCommand(workspacePath: string, junitPath?: string, jsonPath?: string): Promise<void> {
+  if (!fs.existsSync(workspacePath)) {
+    console.error(`Error: Workspace path does not exist: ${workspacePath}`);
+    process.exit(1);
+  }
+
+  const testFiles = findTestFiles(workspacePath);
+  if (testFiles.length === 0) {
+    console.error(`Error: No test cases found under ${path.join(workspacePath, 'tests', 'test_cases')}`);
+    process.exit(1);
+  }
+
+  console.log(`🧪 Running ${testFiles.length} test file(s) in ${workspacePath}`);
+  console.log('');
+
+  const results = testFiles.map(file => runTestFile(file, workspacePath));
+
+  for (const result of results) {
+    const relativePath = path.relative(workspacePath, result.filePath);
+    const failedCases = result.cases.filter(testCase => !testCase.passed);
+
+    if (result.error) {
+      console.log(`💥 ${relativePath}: ${result.error}`);
+    } else if (failedCases.length > 0) {
+      console.log(`❌ ${relativePath} (${failedCases.length}/${result.cases.length} test case(s) failed)`);
+      for (const testCase of failedCases) {
+        for (const error of testCase.errors) {
+          console.log(`   ${relativePath}:${testCase.line + 1}: ${error}`);
+        }
+        for (const mismatch of testCase.mismatches) {
+          console.log(`   ${relativePath}:${mismatch.line + 1}: ${mismatch.message}`);
+        }
+      }
+    } else {
+      console.log(`✅ ${relativePath} (${result.cases.length} test case(s))`);
+    }
+  }
+
+  const summary = summarizeTestResults(results);
+  console.log('');
+  console.log(`📈 Summary: ${summary.passed}/${summary.tests} test case(s) passed, ${summary.failed} failed, ${summary.errors} file(s) could not be run`);
+
+  if (junitPath) {
+    await fs.promises.writeFile(junitPath, formatJUnitReport(results), 'utf-8');
+    console.log(`📝 JUnit report written to ${junitPath}`);
+  }
+  if (jsonPath) {
+    await fs.promises.writeFile(jsonPath, formatJsonReport(results), 'utf-8');
+    console.log(`📝 JSON report written to ${jsonPath}`);
+  }
+
+  if (summary.failed > 0 || summary.errors > 0) {
+    process.exit(1);
+  }
+}
+
+async function lintCommand(workspacePath: string, format: string = 'text', fix: boolean = false): Promise<void> {
+  if (!fs.existsSync(workspacePath)) {
+    console.error(`Error: Workspace path does not exist: ${workspacePath}`);
+    process.exit(1);
+  }
+
+  if (!['text', 'json', 'sarif'].includes(format)) {
+    console.error(`Error: Unknown format '${format}', expected text, json or sarif`);
+    process.exit(1);
+  }
+
+  const signalsetDir = path.join(workspacePath, 'signalsets', 'v3');
+  if (!fs.existsSync(signalsetDir)) {
+    console.error(`Error: Signalset directory not found: ${signalsetDir}`);
+    process.exit(1);
+  }
+
+  const signalsetFiles = fs.readdirSync(signalsetDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => path.join(signalsetDir, file));
+
+  // Some rules load resources asynchronously and would otherwise be skipped
+  await RuleRegistry.getInstance().whenReady();
+  RuleRegistry.getInstance().configure(loadLinterConfig(workspacePath));
+  const linter = new SignalLinter();
+  const files: FileLintResults[] = [];
+
+  for (const filePath of signalsetFiles) {
+    let content = await fs.promises.readFile(filePath, 'utf-8');
+    const lintContext = await loadLintContext(filePath, workspacePath);
+
+    if (fix) {
+      const fixed = linter.fixText(content, 10, undefined, lintContext);
+      if (fixed.fixCount > 0) {
+        content = fixed.text;
+        await fs.promises.writeFile(filePath, content, 'utf-8');
+        console.error(`🔧 Applied ${fixed.fixCount} fix(es) to ${path.relative(workspacePath, filePath)}`);
+      }
+    }
+
+    files.push({ filePath, content, results: linter.lintText(content, lintContext) });
+  }
+
+  if (format === 'json') {
+    console.log(formatLintJson(files, workspacePath));
+  } else if (format === 'sarif') {
+    console.log(formatLintSarif(files, workspacePath));
+  } else {
+    const output = formatLintText(files, workspacePath);
+    if (output.length > 0) {
+      console.log(output);
+    }
+  }
+
+  const registry = RuleRegistry.getInstance();
+  const hasErrors = files.some(file => file.results.some(result =>
+    registry.getRuleConfig(result.ruleId)?.severity === LintSeverity.Error
+  ));
+  if (hasErrors) {
+    process.exit(1);
+  }
+}
+
+async function formatCommand(workspacePath: string, commit: boolean, sort: boolean): Promise<void> {
+  const signalsetDir = path.join(workspacePath, 'signalsets', 'v3');
+  if (!fs.existsSync(signalsetDir)) {
+    console.error(`Error: Signalset directory not found: ${signalsetDir}`);
+    process.exit(1);
+  }
+
+  const signalsetFiles = fs.readdirSync(signalsetDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => path.join(signalsetDir, file));
+
+  let unformatted = 0;
+  let invalid = 0;
+
+  for (const filePath of signalsetFiles) {
+    const relativePath = path.relative(workspacePath, filePath);
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    const formatted = formatSignalset(content, { sortCommands: sort });
+
+    if (formatted === undefined) {
+      console.log(`💥 ${relativePath}: not valid JSON, skipped`);
+      invalid++;
+    } else if (formatted === content) {
+      console.log(`✅ ${relativePath}`);
+    } else if (commit) {
+      await fs.promises.writeFile(filePath, formatted, 'utf-8');
+      console.log(`🔧 ${relativePath}: formatted`);
+    } else {
+      console.log(`❌ ${relativePath}: not in the canonical layout`);
+      unformatted++;
+    }
+  }
+
+  if (unformatted > 0) {
+    console.log(`\n💡 Use --commit to format ${unformatted} file(s).`);
+  }
+  if (unformatted > 0 || invalid > 0) {
+    process.exit(1);
+  }
+}
+
+async function coverageCommand(workspacePath: string, jsonPath?: string): Promise<void> {
+  const signalsetDir = path.join(workspacePath, 'signalsets', 'v3');
+  if (!fs.existsSync(signalsetDir)) {
+    console.error(`Error: Signalset directory not found: ${signalsetDir}`);
+    process.exit(1);
+  }
+
+  const coverage = computeSignalCoverage(workspacePath);
+  const describeTests = (testCaseCount: number, years: string[]) =>
+    testCaseCount > 0 ? `${testCaseCount} test case(s) in ${years.join(', ')}` : 'untested';
+
+  for (const signalset of coverage) {
+    const relativePath = path.relative(workspacePath, signalset.filePath);
+    console.log(`📄 ${relativePath}`);
+    for (const command of signalset.commands) {
+      const icon = command.testCaseCount > 0 ? '✅' : '❌';
+      console.log(`  ${icon} ${command.commandId}: ${describeTests(command.testCaseCount, command.years)}`);
+      for (const signal of command.signals) {
+        const signalIcon = signal.testCaseCount > 0 ? '✅' : '❌';
+        console.log(`     ${signalIcon} ${signal.signalId}: ${describeTests(signal.testCaseCount, signal.years)}`);
+      }
+    }
+    console.log('');
+  }
+
+  const summary = summarizeCoverage(coverage);
+  const percent = (tested: number, total: number) => total > 0 ? `${(100 * tested / total).toFixed(1)}%` : 'n/a';
+  console.log(`📈 Summary: ${summary.testedSignals}/${summary.signals} signal(s) tested (${percent(summary.testedSignals, summary.signals)}), ` +
+    `${summary.testedCommands}/${summary.commands} command(s) tested (${percent(summary.testedCommands, summary.commands)})`);
+
+  if (jsonPath) {
+    await fs.promises.writeFile(jsonPath, formatCoverageJson(coverage, workspacePath), 'utf-8');
+    console.log(`📝 JSON report written to ${jsonPath}`);
+  }
+}
+
+async function exportCommand(workspacePath: string, exportFormat: string, outputPath?: string): Promise<void> {
+  if (exportFormat !== 'dbc') {
+    console.error(`Error: Unknown export format '${exportFormat}', expected dbc`);
+    process.exit(1);
+  }
+
+  const signalsetPath = path.join(workspacePath, 'signalsets', 'v3', 'default.json');
+  if (!fs.existsSync(signalsetPath)) {
+    console.error(`Error: Signalset file not found: ${signalsetPath}`);
+    process.exit(1);
+  }
+
+  const content = await fs.promises.readFile(signalsetPath, 'utf-8');
+  const result = exportSignalsetToDbc(jsonc.parse(content));
+
+  // Keep stdout for the DBC file itself when no output file is given
+  for (const issue of result.issues) {
+    const location = [issue.commandId, issue.signalId].filter(part => part).join(' ');
+    console.error(`⚠️  ${location}: ${issue.message}`);
+  }
+
+  if (outputPath) {
+    await fs.promises.writeFile(outputPath, result.text, 'utf-8');
+    const signalCount = result.database.messages.reduce((total, message) => total + message.signals.length - 1, 0);
+    console.error(`📝 Exported ${result.database.messages.length} message(s) with ${signalCount} signal(s) to ${outputPath}`);
+  } else {
+    process.stdout.write(result.text);
+  }
+
+  if (result.issues.length > 0) {
+    console.error(`⚠️  ${result.issues.length} lossy conversion(s)`);
+  }
+}
+
+async function importCommand(importFormat: string, dbcPath: string, outputPath?: string): Promise<void> {
+  if (importFormat !== 'dbc') {
+    console.error(`Error: Unknown import format '${importFormat}', expected dbc`);
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(dbcPath)) {
+    console.error(`Error: DBC file does not exist: ${dbcPath}`);
+    process.exit(1);
+  }
+
+  const result = importDbcToSignalset(decodeDbcFile(await fs.promises.readFile(dbcPath)));
+
+  for (const issue of result.issues) {
+    const location = [issue.message, issue.signal].filter(part => part).join(' ');
+    console.error(`⚠️  ${location ? `${location}: ` : ''}${issue.description}`);
+  }
+
+  if (outputPath) {
+    await fs.promises.writeFile(outputPath, result.text, 'utf-8');
+    console.error(`📝 Imported ${result.commandCount} command(s) with ${result.signalCount} signal(s) to ${outputPath}`);
+  } else {
+    process.stdout.write(result.text);
+  }
+
+  if (result.namingFixes > 0) {
+    console.error(`🔧 Applied ${result.namingFixes} naming fix(es)`);
+  }
+  if (result.issues.length > 0) {
+    console.error(`⚠️  ${result.issues.length} item(s) could not be represented`);
+  }
+}
+
+async function diffCommand(oldPath: string, newPath: string, format: string = 'text', outputPath?: string): Promise<void> {
+  if (!['text', 'json', 'markdown'].includes(format)) {
+    console.error(`Error: Unknown diff format '${format}', expected text, json or markdown`);
+    process.exit(1);
+  }
+
+  const signalsets: any[] = [];
+  for (const filePath of [oldPath, newPath]) {
+    if (!fs.existsSync(filePath)) {
+      console.error(`Error: Signalset file does not exist: ${filePath}`);
+      process.exit(1);
+    }
+    const errors: jsonc.ParseError[] = [];
+    const signalset = jsonc.parse(await fs.promises.readFile(filePath, 'utf-8'), errors, { allowTrailingComma: true });
+    if (errors.length > 0 || !signalset || typeof signalset !== 'object') {
+      console.error(`Error: ${filePath} is not a valid signalset`);
+      process.exit(1);
+    }
+    signalsets.push(signalset);
+  }
+
+  const diff = diffSignalsets(signalsets[0], signalsets[1]);
+  const report = format === 'json'
+    ? formatDiffJson(diff)
+    : format === 'markdown'
+      ? formatDiffMarkdown(diff, `Signalset changes in ${path.basename(newPath)}`)
+      : formatDiffText(diff);
+
+  if (outputPath) {
+    await fs.promises.writeFile(outputPath, report, 'utf-8');
+    console.log(`📝 Diff report written to ${outputPath}`);
+  } else {
+    process.stdout.write(report);
+  }
+}
+
+async function scanCommand(rootPath: string, htmlPath?: string, jsonPath?: string): Promise<void> {
+  if (!fs.existsSync(rootPath)) {
+    console.error(`Error: Directory does not exist: ${rootPath}`);
+    process.exit(1);
+  }
+
+  const repositories = findVehicleRepositories(rootPath);
+  if (repositories.length === 0) {
+    console.error(`Error: No vehicle repositories (signalsets/v3/default.json) found under ${rootPath}`);
+    process.exit(1);
+  }
+
+  console.log(`🔎 Scanning ${repositories.length} vehicle repositor${repositories.length === 1 ? 'y' : 'ies'} in ${rootPath}`);
+  console.log('');
+
+  const vehicles: VehicleScanResult[] = [];
+  for (const repositoryPath of repositories) {
+    const vehicle = await scanVehicleRepository(repositoryPath);
+    vehicles.push(vehicle);
+
+    const problems = countVehicleProblems(vehicle);
+    const details = `${vehicle.lint.errors} lint error(s), ${vehicle.lint.warnings} warning(s), ` +
+      `${vehicle.tests.failed}/${vehicle.tests.tests} test case(s) failed, ` +
+      `${vehicle.coverage.testedSignals}/${vehicle.coverage.signals} signal(s) tested`;
+    console.log(`${problems > 0 ? '❌' : '✅'} ${vehicle.vehicle}: ${details}`);
+    for (const error of vehicle.errors) {
+      console.log(`   💥 ${error}`);
+    }
+  }
+
+  const report = buildFleetReport(path.resolve(rootPath), vehicles);
+  console.log('');
+  console.log(`📈 Summary: ${vehicles.filter(vehicle => countVehicleProblems(vehicle) > 0).length}/${vehicles.length} vehicle(s) with problems, ` +
+    `${report.inconsistentSignals.length} signal ID(s) used inconsistently within a make`);
+  if (report.topLintRules.length > 0) {
+    console.log(`🔝 Most common lint failures: ${report.topLintRules.slice(0, 5).map(rule => `${rule.ruleId} (${rule.results})`).join(', ')}`);
+  }
+
+  if (htmlPath) {
+    await fs.promises.writeFile(htmlPath, formatFleetHtml(report), 'utf-8');
+    console.log(`📝 HTML report written to ${htmlPath}`);
+  }
+  if (jsonPath) {
+    await fs.promises.writeFile(jsonPath, formatFleetJson(report), 'utf-8');
+    console.log(`📝 JSON report written to ${jsonPath}`);
+  }
+}
+
 async function main(): Promise<void> {
   const options = parseArgs();
 
@@ -653,6 +1097,70 @@ async function main(): Promise<void> {
       }
       await commandSupportCommand(options.workspacePath, options.commandId);
       break;
+    case 'test':
+      if (!options.workspacePath) {
+        console.error('Error: workspace-path is required for test command');
+        printUsage();
+        process.exit(1);
+      }
+      await testCommand(options.workspacePath, options.junitPath, options.jsonPath);
+      break;
+    case 'lint':
+      if (!options.workspacePath) {
+        console.error('Error: workspace-path is required for lint command');
+        printUsage();
+        process.exit(1);
+      }
+      await lintCommand(options.workspacePath, options.format, options.fix || false);
+      break;
+    case 'format':
+      if (!options.workspacePath) {
+        console.error('Error: workspace-path is required for format command');
+        printUsage();
+        process.exit(1);
+      }
+      await formatCommand(options.workspacePath, options.commit || false, options.sort || false);
+      break;
+    case 'coverage':
+      if (!options.workspacePath) {
+        console.error('Error: workspace-path is required for coverage command');
+        printUsage();
+        process.exit(1);
+      }
+      await coverageCommand(options.workspacePath, options.jsonPath);
+      break;
+    case 'export':
+      if (!options.exportFormat || !options.workspacePath) {
+        console.error('Error: format and workspace-path are required for export command');
+        printUsage();
+        process.exit(1);
+      }
+      await exportCommand(options.workspacePath, options.exportFormat, options.outputPath);
+      break;
+    case 'import':
+      if (!options.exportFormat || !options.workspacePath) {
+        console.error('Error: format and dbc-file are required for import command');
+        printUsage();
+        process.exit(1);
+      }
+      await importCommand(options.exportFormat, options.workspacePath, options.outputPath);
+      break;
+    case 'diff':
+      if (!options.workspacePath || !options.comparePath) {
+        console.error('Error: old and new signalset files are required for diff command');
+        printUsage();
+        process.exit(1);
+      }
+      await diffCommand(options.workspacePath, options.comparePath, options.format, options.outputPath);
+      break;
+    case 'scan':
+      if (!options.workspacePath) {
+        console.error('Error: directory is required for scan command');
+        printUsage();
+        process.exit(1);
+      }
+      await scanCommand(options.workspacePath, options.outputPath, options.jsonPath);
+      break;
     default:
       console.error(`Error: Unknown command '${options.command}'`);
       printUsage();
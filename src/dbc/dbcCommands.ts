@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { exportSignalsetToDbc } from './dbcExporter';
+import { importDbcToSignalset } from './dbcImporter';
+import { decodeDbcFile } from './dbcFile';
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Gets the output channel DBC conversion reports are written to
+ */
+function getOutputChannel(): vscode.OutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel('OBDb DBC');
+  }
+  return outputChannel;
+}
+
+/**
+ * Finds the signalset to export: the active signalset editor, otherwise the
+ * default signalset of the first workspace folder that has one
+ */
+async function findSignalsetToExport(): Promise<vscode.Uri | undefined> {
+  const activeDocument = vscode.window.activeTextEditor?.document;
+  if (activeDocument && /signalsets[\\/]v3[\\/][^\\/]+\.json$/.test(activeDocument.uri.fsPath)) {
+    return activeDocument.uri;
+  }
+
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    const uri = vscode.Uri.joinPath(folder.uri, 'signalsets', 'v3', 'default.json');
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return uri;
+    } catch {
+      // No signalset in this folder
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Exports a signalset as a DBC file chosen by the user
+ */
+async function exportDbc(uri?: vscode.Uri): Promise<void> {
+  const signalsetUri = uri ?? await findSignalsetToExport();
+  if (!signalsetUri) {
+    vscode.window.showErrorMessage('No signalset found to export. Open a file in signalsets/v3 first.');
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(signalsetUri);
+  const result = exportSignalsetToDbc(jsonc.parse(document.getText()));
+
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(signalsetUri);
+  const defaultName = `${workspaceFolder ? workspaceFolder.name : path.basename(signalsetUri.fsPath, '.json')}.dbc`;
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(workspaceFolder?.uri ?? vscode.Uri.file(path.dirname(signalsetUri.fsPath)), defaultName),
+    filters: { 'DBC files': ['dbc'] },
+    title: 'Export Signalset as DBC'
+  });
+  if (!targetUri) {
+    return;
+  }
+
+  await vscode.workspace.fs.writeFile(targetUri, Buffer.from(result.text, 'utf-8'));
+
+  const channel = getOutputChannel();
+  channel.clear();
+  channel.appendLine(`Exported ${vscode.workspace.asRelativePath(signalsetUri)} to ${targetUri.fsPath}`);
+  for (const issue of result.issues) {
+    const location = [issue.commandId, issue.signalId].filter(part => part).join(' ');
+    channel.appendLine(`${location}: ${issue.message}`);
+  }
+
+  if (result.issues.length === 0) {
+    vscode.window.showInformationMessage(`Exported ${result.database.messages.length} DBC message(s) to ${path.basename(targetUri.fsPath)}`);
+    return;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `Exported ${result.database.messages.length} DBC message(s) with ${result.issues.length} lossy conversion(s)`,
+    'Show Details'
+  );
+  if (choice === 'Show Details') {
+    channel.show();
+  }
+}
+
+/**
+ * Generates a signalset from a DBC file chosen by the user and opens it in a new editor
+ */
+async function importDbc(uri?: vscode.Uri): Promise<void> {
+  let dbcUri = uri;
+  if (!dbcUri) {
+    const selection = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'DBC files': ['dbc'] },
+      title: 'Import DBC as Signalset'
+    });
+    dbcUri = selection?.[0];
+  }
+  if (!dbcUri) {
+    return;
+  }
+
+  const result = importDbcToSignalset(decodeDbcFile(await vscode.workspace.fs.readFile(dbcUri)));
+  const document = await vscode.workspace.openTextDocument({ language: 'json', content: result.text });
+  await vscode.window.showTextDocument(document);
+
+  const channel = getOutputChannel();
+  channel.clear();
+  channel.appendLine(`Imported ${dbcUri.fsPath}: ${result.commandCount} command(s), ${result.signalCount} signal(s), ${result.namingFixes} naming fix(es)`);
+  for (const issue of result.issues) {
+    const location = [issue.message, issue.signal].filter(part => part).join(' ');
+    channel.appendLine(`${location ? `${location}: ` : ''}${issue.description}`);
+  }
+
+  if (result.issues.length > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `Imported ${result.signalCount} signal(s); ${result.issues.length} item(s) could not be represented`,
+      'Show Details'
+    );
+    if (choice === 'Show Details') {
+      channel.show();
+    }
+  }
+}
+
+/**
+ * Register commands for converting between signalsets and DBC files
+ * @returns Array of disposables for the registered commands
+ */
+export function registerDbcCommands(): vscode.Disposable[] {
+  const exportDbcCommand = vscode.commands.registerCommand('obdb.exportDbc', async (uri?: vscode.Uri) => {
+    try {
+      await exportDbc(uri);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to export DBC: ${error}`);
+    }
+  });
+
+  const importDbcCommand = vscode.commands.registerCommand('obdb.importDbc', async (uri?: vscode.Uri) => {
+    try {
+      await importDbc(uri);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to import DBC: ${error}`);
+    }
+  });
+
+  return [exportDbcCommand, importDbcCommand];
+}
@@ -0,0 +1,328 @@
+/**
+ * VSCode-independent conversion of OBDb signalsets to Vector DBC
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import { generateCommandIdFromDefinition, filterToIDString } from '../utils/commandIdUtils';
+import { getResponseCanId, getResponseEcho } from '../utils/signalDecoder';
+import {
+  DbcAttributeDefinition,
+  DbcDatabase,
+  DbcMessage,
+  DbcSignal,
+  DbcValueDescription,
+  formatDbc,
+  formatDbcNumber,
+  toDbcIdentifier
+} from './dbcFile';
+
+/** Node name used as the receiver of every exported signal */
+export const DBC_TESTER_NODE = 'OBDB';
+
+/** Name of the multiplexor signal holding the service/PID echo of each response */
+export const DBC_MULTIPLEXOR_NAME = 'SERVICE_PID';
+
+/** The fmt keys that have a DBC equivalent */
+const EXPORTED_FMT_KEYS = ['bix', 'len', 'sign', 'mul', 'div', 'add', 'min', 'max', 'unit', 'map'];
+
+const ATTRIBUTE_DEFINITIONS: DbcAttributeDefinition[] = [
+  { name: 'ObdbHeader', objectType: 'BO_', defaultValue: '' },
+  { name: 'ObdbCommand', objectType: 'SG_', defaultValue: '' },
+  { name: 'ObdbDebugFilter', objectType: 'SG_', defaultValue: '' },
+  { name: 'ObdbFilter', objectType: 'SG_', defaultValue: '' },
+  { name: 'ObdbPath', objectType: 'SG_', defaultValue: '' },
+  { name: 'ObdbSuggestedMetric', objectType: 'SG_', defaultValue: '' }
+];
+
+/**
+ * Something in the signalset that could not be carried into the DBC file as-is
+ */
+export interface DbcExportIssue {
+  commandId?: string;
+  signalId?: string;
+  message: string;
+}
+
+/**
+ * Result of exporting a signalset to DBC
+ */
+export interface DbcExportResult {
+  database: DbcDatabase;
+  /** The DBC file content */
+  text: string;
+  /** Lossy conversions, in signalset order */
+  issues: DbcExportIssue[];
+}
+
+/**
+ * Commands answered by one ECU, exported as a single multiplexed message
+ */
+interface ResponseGroup {
+  message: DbcMessage;
+  echoLength: number;
+  commandIds: Map<number, string>;
+}
+
+/**
+ * Formats a CAN identifier as hex, 3 digits for 11-bit and 8 for 29-bit identifiers
+ */
+function formatCanId(id: number, extended: boolean): string {
+  return id.toString(16).toUpperCase().padStart(extended ? 8 : 3, '0');
+}
+
+/**
+ * Derives a map entry's value from its description, e.g. "Park lamps on" becomes "PARK_LAMPS_ON"
+ * @param description The map entry description
+ */
+export function mapValueFromDescription(description: string): string {
+  return description.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Converts a map to DBC value descriptions
+ */
+function toValueDescriptions(
+  map: { [rawValue: string]: any },
+  report: (message: string) => void
+): DbcValueDescription[] {
+  const descriptions: DbcValueDescription[] = [];
+
+  for (const [key, entry] of Object.entries(map)) {
+    const value = Number(key);
+    if (!Number.isInteger(value)) {
+      report(`Map key '${key}' is not an integer and was left out of the value table`);
+      continue;
+    }
+    // Map entries are either plain values or { description, value } objects;
+    // the DBC value table only carries the human-readable description
+    const text = (entry !== null && typeof entry === 'object') ? entry.description : entry;
+    if (text === undefined || text === null) {
+      report(`Map entry '${key}' has no description and was left out of the value table`);
+      continue;
+    }
+    if (typeof entry === 'object' && entry.value !== mapValueFromDescription(String(text))) {
+      report(`Map value '${entry.value}' of entry '${key}' does not follow from its description and is not kept in the value table`);
+    }
+    descriptions.push({ value, description: String(text) });
+  }
+
+  return descriptions.sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Converts a signalset signal to a DBC signal
+ * @param signal The signalset signal
+ * @param command The command the signal belongs to
+ * @param commandId The command's ID
+ * @param echoLength Bytes of service/PID echo preceding the signal data
+ * @param report Records a lossy conversion of this signal
+ * @returns The DBC signal, or null if it cannot be represented
+ */
+function convertSignal(
+  signal: any,
+  command: any,
+  commandId: string,
+  echoLength: number,
+  report: (message: string) => void
+): DbcSignal | null {
+  const fmt = signal.fmt;
+  if (!fmt || typeof fmt.len !== 'number') {
+    report('Signal has no fmt.len and was skipped');
+    return null;
+  }
+  if (fmt.unit === 'ascii') {
+    report('ASCII strings have no DBC equivalent; signal was skipped');
+    return null;
+  }
+  if (fmt.len > 64) {
+    report(`DBC signals are at most 64 bits long, this signal is ${fmt.len}; signal was skipped`);
+    return null;
+  }
+
+  for (const key of Object.keys(fmt)) {
+    if (!EXPORTED_FMT_KEYS.includes(key)) {
+      report(`fmt.${key} has no DBC equivalent and was dropped`);
+    }
+  }
+
+  // OBDb numbers bits from the most significant bit of the first payload byte;
+  // Motorola start bits name the most significant bit within its byte, counted from the LSB
+  const bit = echoLength * 8 + (fmt.bix ?? 0);
+  const startBit = Math.floor(bit / 8) * 8 + (7 - bit % 8);
+
+  const signed = fmt.sign === true;
+  const rawMin = signed ? -Math.pow(2, fmt.len - 1) : 0;
+  const rawMax = signed ? Math.pow(2, fmt.len - 1) - 1 : Math.pow(2, fmt.len) - 1;
+
+  let factor = 1;
+  let offset = 0;
+  let valueDescriptions: DbcValueDescription[] | undefined;
+
+  if (fmt.map) {
+    valueDescriptions = toValueDescriptions(fmt.map, report);
+  } else {
+    factor = (fmt.mul ?? 1) / (fmt.div ?? 1);
+    offset = fmt.add ?? 0;
+    if (Number(formatDbcNumber(factor)) !== factor) {
+      report(`Scaling ${fmt.mul ?? 1}/${fmt.div ?? 1} cannot be written exactly; factor rounded to ${formatDbcNumber(factor)}`);
+    }
+  }
+
+  const physicalMin = Math.min(rawMin * factor + offset, rawMax * factor + offset);
+  const physicalMax = Math.max(rawMin * factor + offset, rawMax * factor + offset);
+  if ((fmt.min !== undefined && fmt.min > physicalMin) || (fmt.max !== undefined && fmt.max < physicalMax)) {
+    report('DBC ranges are informational; values outside fmt.min/fmt.max are no longer clamped');
+  }
+
+  const attributes: { [name: string]: string } = { ObdbCommand: commandId };
+  if (command.dbgfilter) {
+    attributes.ObdbDebugFilter = filterToIDString(command.dbgfilter);
+  }
+  // The command's own filter is part of ObdbCommand; a signal's filter has to be carried separately
+  if (signal.filter) {
+    attributes.ObdbFilter = filterToIDString(signal.filter);
+  }
+  if (signal.path) {
+    attributes.ObdbPath = signal.path;
+  }
+  if (signal.suggestedMetric) {
+    attributes.ObdbSuggestedMetric = signal.suggestedMetric;
+  }
+
+  return {
+    name: toDbcIdentifier(signal.id),
+    startBit,
+    length: fmt.len,
+    byteOrder: 'motorola',
+    signed,
+    factor,
+    offset,
+    min: fmt.min ?? physicalMin,
+    max: fmt.max ?? physicalMax,
+    unit: fmt.map ? '' : (fmt.unit ?? ''),
+    receivers: [DBC_TESTER_NODE],
+    comment: signal.description ? `${signal.name}. ${signal.description}` : signal.name,
+    attributes,
+    valueDescriptions
+  };
+}
+
+/**
+ * Exports a signalset as a DBC database. Each ECU becomes one message holding its
+ * reassembled ISO-TP responses, multiplexed by the service/PID echo that starts them.
+ * @param signalset The parsed signalset
+ * @returns The database, its DBC text and every lossy conversion
+ */
+export function exportSignalsetToDbc(signalset: { commands?: any[] }): DbcExportResult {
+  const issues: DbcExportIssue[] = [];
+  const groups = new Map<string, ResponseGroup>();
+  const nodes = new Set<string>([DBC_TESTER_NODE]);
+
+  for (const command of signalset.commands || []) {
+    if (!Array.isArray(command.signals) || command.signals.length === 0) {
+      continue;
+    }
+
+    const commandId = generateCommandIdFromDefinition(command);
+    const reportCommand = (message: string) => issues.push({ commandId, message });
+
+    const response = getResponseCanId(command);
+    if (!response) {
+      reportCommand(`Cannot determine the response CAN ID for hdr '${command.hdr}'${command.rax ? ` and rax '${command.rax}'` : ''}; command was skipped`);
+      continue;
+    }
+
+    const echo = getResponseEcho(command.cmd);
+    if (echo.length === 0 || echo.length > 4) {
+      reportCommand('The request cannot be expressed as a 32-bit multiplexor value; command was skipped');
+      continue;
+    }
+
+    const responseId = formatCanId(response.id, response.extended);
+    let group = groups.get(responseId);
+    if (!group) {
+      const transmitter = toDbcIdentifier(`ECU_${String(command.hdr ?? '7E0').toUpperCase()}`);
+      nodes.add(transmitter);
+      group = {
+        message: {
+          id: response.id,
+          extended: response.extended,
+          name: `RESP_${responseId}`,
+          size: echo.length,
+          transmitter,
+          signals: [{
+            name: DBC_MULTIPLEXOR_NAME,
+            startBit: 7,
+            length: echo.length * 8,
+            byteOrder: 'motorola',
+            signed: false,
+            factor: 1,
+            offset: 0,
+            min: 0,
+            max: Math.pow(2, echo.length * 8) - 1,
+            unit: '',
+            receivers: [DBC_TESTER_NODE],
+            multiplexor: true,
+            comment: 'Positive response service ID followed by the requested parameter',
+            attributes: {}
+          }],
+          comment: `Reassembled ISO-TP responses on ${responseId}, selected by ${DBC_MULTIPLEXOR_NAME}.`,
+          attributes: { ObdbHeader: String(command.hdr ?? '7E0').toUpperCase() }
+        },
+        echoLength: echo.length,
+        commandIds: new Map()
+      };
+      groups.set(responseId, group);
+    }
+
+    if (echo.length !== group.echoLength) {
+      reportCommand(`Responses on ${responseId} already use a ${group.echoLength}-byte multiplexor; command was skipped`);
+      continue;
+    }
+
+    const multiplexValue = echo.reduce((value, byte) => value * 256 + byte, 0);
+    const existing = group.commandIds.get(multiplexValue);
+    if (existing) {
+      reportCommand(`Shares its multiplexor value with ${existing}; only the first definition is exported`);
+      continue;
+    }
+    group.commandIds.set(multiplexValue, commandId);
+
+    const signalNames = new Set(group.message.signals.map(signal => signal.name));
+    for (const signal of command.signals) {
+      const reportSignal = (message: string) => issues.push({ commandId, signalId: signal.id, message });
+      const dbcSignal = convertSignal(signal, command, commandId, echo.length, reportSignal);
+      if (!dbcSignal) {
+        continue;
+      }
+
+      if (dbcSignal.name !== signal.id) {
+        reportSignal(`Renamed to ${dbcSignal.name} to form a valid DBC identifier`);
+      }
+      if (signalNames.has(dbcSignal.name)) {
+        let suffix = 2;
+        while (signalNames.has(`${dbcSignal.name}_${suffix}`)) {
+          suffix++;
+        }
+        reportSignal(`${dbcSignal.name} is already used in ${group.message.name}; renamed to ${dbcSignal.name}_${suffix}`);
+        dbcSignal.name = `${dbcSignal.name}_${suffix}`;
+      }
+      signalNames.add(dbcSignal.name);
+
+      dbcSignal.multiplexValue = multiplexValue;
+      group.message.signals.push(dbcSignal);
+      group.message.size = Math.max(group.message.size, echo.length + Math.ceil(((signal.fmt.bix ?? 0) + signal.fmt.len) / 8));
+    }
+
+    group.message.comment += `\n0x${multiplexValue.toString(16).toUpperCase()}: ${commandId}`;
+  }
+
+  const database: DbcDatabase = {
+    nodes: [...nodes],
+    messages: [...groups.values()].map(group => group.message).sort((a, b) => a.id - b.id),
+    attributeDefinitions: ATTRIBUTE_DEFINITIONS,
+    comment: 'Exported from an OBDb signalset'
+  };
+
+  return { database, text: formatDbc(database), issues };
+}
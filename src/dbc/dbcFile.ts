@@ -0,0 +1,478 @@
+/**
+ * VSCode-independent model, reader and writer for Vector DBC files
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+/**
+ * A raw value and the text a DBC value table (VAL_) shows for it
+ */
+export interface DbcValueDescription {
+  value: number;
+  description: string;
+}
+
+/**
+ * A signal (SG_) within a DBC message
+ */
+export interface DbcSignal {
+  name: string;
+  /** Start bit as written in the DBC file; for Motorola signals this is the most significant bit */
+  startBit: number;
+  length: number;
+  byteOrder: 'motorola' | 'intel';
+  signed: boolean;
+  /** Whether the raw value is an IEEE float (SIG_VALTYPE_) rather than an integer */
+  floatingPoint?: boolean;
+  factor: number;
+  offset: number;
+  min: number;
+  max: number;
+  unit: string;
+  receivers: string[];
+  /** Whether this signal is the message's multiplexor (M) */
+  multiplexor?: boolean;
+  /** The multiplexor value this signal is present for (mN) */
+  multiplexValue?: number;
+  comment?: string;
+  attributes: { [name: string]: string };
+  valueDescriptions?: DbcValueDescription[];
+}
+
+/**
+ * A message (BO_) within a DBC file
+ */
+export interface DbcMessage {
+  id: number;
+  /** Whether the ID is a 29-bit identifier */
+  extended: boolean;
+  name: string;
+  size: number;
+  transmitter: string;
+  signals: DbcSignal[];
+  comment?: string;
+  attributes: { [name: string]: string };
+}
+
+/**
+ * A string attribute definition (BA_DEF_)
+ */
+export interface DbcAttributeDefinition {
+  name: string;
+  objectType: 'BU_' | 'BO_' | 'SG_';
+  defaultValue: string;
+}
+
+/**
+ * The contents of a DBC file
+ */
+export interface DbcDatabase {
+  nodes: string[];
+  messages: DbcMessage[];
+  attributeDefinitions: DbcAttributeDefinition[];
+  comment?: string;
+}
+
+const DBC_NEW_SYMBOLS = [
+  'NS_DESC_', 'CM_', 'BA_DEF_', 'BA_', 'VAL_', 'CAT_DEF_', 'CAT_', 'FILTER',
+  'BA_DEF_DEF_', 'EV_DATA_', 'ENVVAR_DATA_', 'SGTYPE_', 'SGTYPE_VAL_', 'BA_DEF_SGTYPE_',
+  'BA_SGTYPE_', 'SIG_TYPE_REF_', 'VAL_TABLE_', 'SIG_GROUP_', 'SIG_VALTYPE_', 'SIGTYPE_VALTYPE_',
+  'BO_TX_BU_', 'BA_DEF_REL_', 'BA_REL_', 'BA_DEF_DEF_REL_', 'BU_SG_REL_', 'BU_EV_REL_',
+  'BU_BO_REL_', 'SG_MUL_VAL_'
+];
+
+/**
+ * Gets the message ID as written in a DBC file, where bit 31 marks extended identifiers
+ */
+export function getDbcMessageId(message: DbcMessage): number {
+  return message.extended ? message.id + 0x80000000 : message.id;
+}
+
+/**
+ * Converts text into a valid DBC identifier
+ * @param text The text to convert, such as a signal ID
+ * @returns The identifier, using only letters, digits and underscores and not starting with a digit
+ */
+export function toDbcIdentifier(text: string): string {
+  const identifier = text.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Formats a number for a DBC file, dropping floating point noise
+ * @param value The number to format
+ */
+export function formatDbcNumber(value: number): string {
+  return String(parseFloat(value.toPrecision(15)));
+}
+
+/**
+ * Quotes text as a DBC string; DBC strings cannot contain double quotes
+ */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '\'')}"`;
+}
+
+/**
+ * Formats a signal as an SG_ line
+ */
+function formatSignal(signal: DbcSignal): string {
+  let multiplexing = '';
+  if (signal.multiplexor) {
+    multiplexing = ' M';
+  } else if (signal.multiplexValue !== undefined) {
+    multiplexing = ` m${signal.multiplexValue}`;
+  }
+
+  const byteOrder = signal.byteOrder === 'motorola' ? '0' : '1';
+  const valueType = signal.signed ? '-' : '+';
+  const receivers = signal.receivers.length > 0 ? signal.receivers.join(',') : 'Vector__XXX';
+
+  return ` SG_ ${signal.name}${multiplexing} : ${signal.startBit}|${signal.length}@${byteOrder}${valueType}` +
+    ` (${formatDbcNumber(signal.factor)},${formatDbcNumber(signal.offset)})` +
+    ` [${formatDbcNumber(signal.min)}|${formatDbcNumber(signal.max)}]` +
+    ` ${quote(signal.unit)} ${receivers}`;
+}
+
+/**
+ * Writes a DBC database as DBC file text
+ * @param database The database to write
+ * @returns The DBC file content
+ */
+export function formatDbc(database: DbcDatabase): string {
+  const lines: string[] = [];
+
+  lines.push('VERSION ""', '', '');
+  lines.push('NS_ :');
+  lines.push(...DBC_NEW_SYMBOLS.map(symbol => `\t${symbol}`));
+  lines.push('', 'BS_:', '');
+  lines.push(`BU_: ${database.nodes.join(' ')}`, '', '');
+
+  for (const message of database.messages) {
+    lines.push(`BO_ ${getDbcMessageId(message)} ${message.name}: ${message.size} ${message.transmitter || 'Vector__XXX'}`);
+    lines.push(...message.signals.map(formatSignal));
+    lines.push('');
+  }
+  lines.push('');
+
+  if (database.comment) {
+    lines.push(`CM_ ${quote(database.comment)};`);
+  }
+  for (const message of database.messages) {
+    const messageId = getDbcMessageId(message);
+    if (message.comment) {
+      lines.push(`CM_ BO_ ${messageId} ${quote(message.comment)};`);
+    }
+    for (const signal of message.signals) {
+      if (signal.comment) {
+        lines.push(`CM_ SG_ ${messageId} ${signal.name} ${quote(signal.comment)};`);
+      }
+    }
+  }
+
+  for (const definition of database.attributeDefinitions) {
+    lines.push(`BA_DEF_ ${definition.objectType}  ${quote(definition.name)} STRING ;`);
+  }
+  for (const definition of database.attributeDefinitions) {
+    lines.push(`BA_DEF_DEF_  ${quote(definition.name)} ${quote(definition.defaultValue)};`);
+  }
+  for (const message of database.messages) {
+    const messageId = getDbcMessageId(message);
+    for (const [name, value] of Object.entries(message.attributes)) {
+      lines.push(`BA_ ${quote(name)} BO_ ${messageId} ${quote(value)};`);
+    }
+    for (const signal of message.signals) {
+      for (const [name, value] of Object.entries(signal.attributes)) {
+        lines.push(`BA_ ${quote(name)} SG_ ${messageId} ${signal.name} ${quote(value)};`);
+      }
+    }
+  }
+
+  for (const message of database.messages) {
+    const messageId = getDbcMessageId(message);
+    for (const signal of message.signals) {
+      if (signal.valueDescriptions && signal.valueDescriptions.length > 0) {
+        const entries = signal.valueDescriptions
+          .map(entry => `${entry.value} ${quote(entry.description)}`)
+          .join(' ');
+        lines.push(`VAL_ ${messageId} ${signal.name} ${entries} ;`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Decodes the bytes of a DBC file. DBC files are written as UTF-8 by newer tools and as
+ * Windows-1252 by older ones, so text that is not valid UTF-8 is read as Latin-1.
+ * @param content The file content
+ */
+export function decodeDbcFile(content: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    return new TextDecoder('latin1').decode(content);
+  }
+}
+
+/**
+ * A token of DBC file text
+ */
+interface DbcToken {
+  type: 'string' | 'word' | 'punct';
+  value: string;
+  line: number;
+}
+
+/**
+ * Splits DBC file text into tokens
+ */
+function tokenizeDbc(text: string): DbcToken[] {
+  const tokens: DbcToken[] = [];
+  let line = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      // Strings may span lines and escape quotes with a backslash
+      let value = '';
+      const startLine = line;
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          i++;
+        }
+        if (text[i] === '\n') {
+          line++;
+        }
+        value += text[i];
+        i++;
+      }
+      i++;
+      tokens.push({ type: 'string', value, line: startLine });
+    } else if (/[A-Za-z0-9_.+\-]/.test(char)) {
+      let value = '';
+      while (i < text.length && /[A-Za-z0-9_.+\-]/.test(text[i])) {
+        value += text[i];
+        i++;
+      }
+      tokens.push({ type: 'word', value, line });
+    } else {
+      tokens.push({ type: 'punct', value: char, line });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a DBC message ID, separating the extended identifier flag
+ */
+function parseDbcMessageId(text: string): { id: number, extended: boolean } {
+  const value = Number(text);
+  return value >= 0x80000000
+    ? { id: value - 0x80000000, extended: true }
+    : { id: value, extended: false };
+}
+
+/**
+ * Parses the text of a DBC file. Only the parts that describe messages, signals, comments,
+ * string attributes and value tables are read; everything else is reported as unsupported.
+ * @param text The DBC file content
+ * @returns The database and a description of every construct that was not read
+ */
+export function parseDbc(text: string): { database: DbcDatabase, issues: string[] } {
+  const database: DbcDatabase = { nodes: [], messages: [], attributeDefinitions: [] };
+  const issues: string[] = [];
+
+  // The NS_ block lists keywords and would otherwise be read as statements
+  const tokens = tokenizeDbc(text.replace(/^NS_\s*:[^\n]*\n(?:[ \t]+[^\n]*\n|[ \t]*\n)*/m, ''));
+  const messagesById = new Map<number, DbcMessage>();
+  let position = 0;
+  let currentMessage: DbcMessage | undefined;
+
+  const next = () => tokens[position++];
+  const peek = () => tokens[position];
+  const skipStatement = () => {
+    while (position < tokens.length && tokens[position].value !== ';') {
+      position++;
+    }
+    position++;
+  };
+  const findSignal = (messageId: string, signalName: string): DbcSignal | undefined => {
+    const { id } = parseDbcMessageId(messageId);
+    return messagesById.get(id)?.signals.find(signal => signal.name === signalName);
+  };
+
+  while (position < tokens.length) {
+    const token = next();
+    const keyword = token.value;
+
+    if (keyword === 'VERSION') {
+      next();
+    } else if (keyword === 'BS_' || keyword === 'BU_') {
+      next(); // ':'
+      while (peek() && peek().line === token.line) {
+        const node = next();
+        if (keyword === 'BU_' && node.type === 'word') {
+          database.nodes.push(node.value);
+        }
+      }
+    } else if (keyword === 'BO_') {
+      const id = parseDbcMessageId(next().value);
+      const name = next().value;
+      next(); // ':'
+      const size = Number(next().value);
+      const transmitter = peek() && peek().line === token.line ? next().value : '';
+      currentMessage = { ...id, name, size, transmitter, signals: [], attributes: {} };
+      database.messages.push(currentMessage);
+      messagesById.set(id.id, currentMessage);
+    } else if (keyword === 'SG_') {
+      const name = next().value;
+      let multiplexing = '';
+      if (peek().value !== ':') {
+        multiplexing = next().value;
+      }
+      next(); // ':'
+      const startBit = Number(next().value);
+      next(); // '|'
+      const length = Number(next().value);
+      next(); // '@'
+      const orderAndSign = next().value;
+      next(); // '('
+      const factor = Number(next().value);
+      next(); // ','
+      const offset = Number(next().value);
+      next(); // ')'
+      next(); // '['
+      const min = Number(next().value);
+      next(); // '|'
+      const max = Number(next().value);
+      next(); // ']'
+      const unit = next().value;
+      const receivers: string[] = [];
+      while (peek() && peek().line === token.line) {
+        const receiver = next();
+        if (receiver.type === 'word') {
+          receivers.push(receiver.value);
+        }
+      }
+
+      const signal: DbcSignal = {
+        name,
+        startBit,
+        length,
+        byteOrder: orderAndSign.startsWith('0') ? 'motorola' : 'intel',
+        signed: orderAndSign.endsWith('-'),
+        factor,
+        offset,
+        min,
+        max,
+        unit,
+        receivers,
+        attributes: {}
+      };
+      const multiplexMatch = multiplexing.match(/^m(\d+)(M?)$/);
+      if (multiplexing === 'M') {
+        signal.multiplexor = true;
+      } else if (multiplexMatch) {
+        signal.multiplexValue = Number(multiplexMatch[1]);
+        signal.multiplexor = multiplexMatch[2] === 'M';
+      }
+
+      if (currentMessage) {
+        currentMessage.signals.push(signal);
+      } else {
+        issues.push(`Signal ${name} appears before any message and was ignored`);
+      }
+    } else if (keyword === 'CM_') {
+      const target = next();
+      if (target.type === 'string') {
+        database.comment = target.value;
+      } else if (target.value === 'BO_') {
+        const message = messagesById.get(parseDbcMessageId(next().value).id);
+        const comment = next().value;
+        if (message) {
+          message.comment = comment;
+        }
+      } else if (target.value === 'SG_') {
+        const signal = findSignal(next().value, next().value);
+        const comment = next().value;
+        if (signal) {
+          signal.comment = comment;
+        }
+      }
+      skipStatement();
+    } else if (keyword === 'BA_DEF_') {
+      let objectType = '';
+      if (peek().type === 'word') {
+        objectType = next().value;
+      }
+      const name = next().value;
+      const valueType = next().value;
+      if (valueType === 'STRING' && (objectType === 'BU_' || objectType === 'BO_' || objectType === 'SG_')) {
+        database.attributeDefinitions.push({ name, objectType, defaultValue: '' });
+      }
+      skipStatement();
+    } else if (keyword === 'BA_DEF_DEF_') {
+      const name = next().value;
+      const defaultValue = next().value;
+      const definition = database.attributeDefinitions.find(candidate => candidate.name === name);
+      if (definition) {
+        definition.defaultValue = defaultValue;
+      }
+      skipStatement();
+    } else if (keyword === 'BA_') {
+      const name = next().value;
+      const target = next();
+      if (target.value === 'BO_') {
+        const message = messagesById.get(parseDbcMessageId(next().value).id);
+        const value = next().value;
+        if (message) {
+          message.attributes[name] = value;
+        }
+      } else if (target.value === 'SG_') {
+        const signal = findSignal(next().value, next().value);
+        const value = next().value;
+        if (signal) {
+          signal.attributes[name] = value;
+        }
+      }
+      skipStatement();
+    } else if (keyword === 'VAL_') {
+      const signal = findSignal(next().value, next().value);
+      const valueDescriptions: DbcValueDescription[] = [];
+      while (peek() && peek().value !== ';') {
+        const value = Number(next().value);
+        valueDescriptions.push({ value, description: next().value });
+      }
+      next(); // ';'
+      if (signal) {
+        signal.valueDescriptions = valueDescriptions;
+      }
+    } else if (keyword === 'SIG_VALTYPE_') {
+      const signal = findSignal(next().value, next().value);
+      next(); // ':'
+      const valueType = Number(next().value);
+      if (signal) {
+        signal.floatingPoint = valueType === 1 || valueType === 2;
+      }
+      skipStatement();
+    } else if (keyword === 'SG_MUL_VAL_') {
+      issues.push('Extended multiplexing (SG_MUL_VAL_) is not supported and was ignored');
+      skipStatement();
+    } else if (keyword !== ';') {
+      issues.push(`${keyword} statements are not supported and were ignored`);
+      skipStatement();
+    }
+  }
+
+  return { database, issues: [...new Set(issues)] };
+}
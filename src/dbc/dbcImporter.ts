@@ -0,0 +1,417 @@
+/**
+ * VSCode-independent conversion of Vector DBC files to OBDb signalsets
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import { SignalLinter } from '../linter/signalLinter';
+import * as unitGroups from '../linter/unitGroups';
+import { DbcMessage, DbcSignal, parseDbc } from './dbcFile';
+import { mapValueFromDescription } from './dbcExporter';
+import { getResponseCanId } from '../utils/signalDecoder';
+import { ID_PROPERTY_DIVIDER, parseFilterIDString } from '../utils/commandIdUtils';
+import { formatSignalset } from '../utils/signalsetFormatter';
+
+/** Rules whose suggestions are applied to imported signals so the skeleton starts lint-clean */
+const NAMING_RULE_IDS = ['consolidated-naming', 'signal-sentence-case', 'signal-path-suggestion'];
+
+/** Common DBC unit spellings and the OBDb unit each corresponds to */
+const DBC_UNITS: { [dbcUnit: string]: string } = {
+  '°C': 'celsius', 'degC': 'celsius', 'deg C': 'celsius', 'C': 'celsius', '℃': 'celsius',
+  '°F': 'fahrenheit', 'degF': 'fahrenheit', 'F': 'fahrenheit',
+  'K': 'kelvin',
+  '%': 'percent',
+  'km/h': 'kilometersPerHour', 'kph': 'kilometersPerHour', 'kmh': 'kilometersPerHour',
+  'mph': 'milesPerHour',
+  'm/s': 'metersPerSecond',
+  'rpm': 'rpm', 'RPM': 'rpm', '1/min': 'rpm',
+  'V': 'volts', 'mV': 'millivolts', 'kV': 'kilovolts',
+  'A': 'amps', 'mA': 'milliamps', 'kA': 'kiloamps',
+  'kPa': 'kilopascal', 'bar': 'bars', 'psi': 'psi',
+  'km': 'kilometers', 'm': 'meters', 'cm': 'centimeters', 'mi': 'miles', 'ft': 'feet', 'in': 'inches',
+  's': 'seconds', 'sec': 'seconds', 'min': 'minutes', 'h': 'hours',
+  'W': 'watts', 'kW': 'kilowatts', 'mW': 'milliwatts',
+  'Wh': 'wattHours', 'kWh': 'kilowattHours', 'J': 'joules', 'kJ': 'kilojoules',
+  'Ah': 'ampereHours', 'mAh': 'milliampereHours',
+  'Nm': 'newtonMeters', 'N.m': 'newtonMeters', 'lbft': 'poundFoot',
+  'deg': 'degrees', '°': 'degrees', 'rad': 'radians',
+  'L': 'liters', 'l': 'liters', 'gal': 'gallons',
+  'g/s': 'gramsPerSecond', 'kg/h': 'kilogramsPerHour',
+  'Hz': 'hertz', 'kHz': 'kilohertz',
+  'ohm': 'ohms', 'Ohm': 'ohms', 'Ω': 'ohms'
+};
+
+/** Every unit the signalset schema knows */
+const OBDB_UNITS = new Set<string>(
+  Object.values(unitGroups).filter((group): group is string[] => Array.isArray(group)).flat()
+);
+
+/**
+ * Something in the DBC file that could not be carried into the signalset as-is
+ */
+export interface DbcImportIssue {
+  message?: string;
+  signal?: string;
+  description: string;
+}
+
+/**
+ * Result of importing a DBC file
+ */
+export interface DbcImportResult {
+  /** The signalset JSON text */
+  text: string;
+  commandCount: number;
+  signalCount: number;
+  /** Number of naming suggestions that were applied to the generated signals */
+  namingFixes: number;
+  issues: DbcImportIssue[];
+}
+
+/**
+ * Converts a DBC identifier such as EngSpeed_FL into words ("eng speed fl")
+ */
+function identifierToWords(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[_\s]+/)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Builds a signal name from words, capitalizing only the first letter
+ */
+function wordsToName(words: string[]): string {
+  const name = words.map(word => /^[A-Z0-9]+$/.test(word) && word.length > 1 ? word : word.toLowerCase()).join(' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Expresses a DBC factor as OBDb mul/div, preferring small integers
+ */
+function toMulDiv(factor: number): { mul?: number, div?: number } {
+  if (factor === 1) {
+    return {};
+  }
+
+  for (let div = 1; div <= 1000; div++) {
+    const mul = factor * div;
+    if (Math.abs(mul - Math.round(mul)) < 1e-9 * Math.max(1, Math.abs(mul))) {
+      const result: { mul?: number, div?: number } = {};
+      if (Math.round(mul) !== 1) {
+        result.mul = Math.round(mul);
+      }
+      if (div !== 1) {
+        result.div = div;
+      }
+      return result;
+    }
+  }
+
+  return { mul: factor };
+}
+
+/**
+ * Formats a CAN identifier as hex, 3 digits for 11-bit and 8 for 29-bit identifiers
+ */
+function formatCanId(id: number, extended: boolean): string {
+  return id.toString(16).toUpperCase().padStart(extended ? 8 : 3, '0');
+}
+
+/**
+ * Determines the request header that a diagnostic response ID answers
+ * @returns The header, or undefined if the ID is not a diagnostic response
+ */
+function getRequestHeader(message: DbcMessage): string | undefined {
+  if (message.attributes.ObdbHeader) {
+    return message.attributes.ObdbHeader;
+  }
+  if (!message.extended && message.id >= 0x7E8 && message.id <= 0x7EF) {
+    return formatCanId(message.id - 8, false);
+  }
+  const physical29Bit = formatCanId(message.id, message.extended).match(/^18DA([0-9A-F]{2})([0-9A-F]{2})$/);
+  if (message.extended && physical29Bit) {
+    return `18DA${physical29Bit[2]}${physical29Bit[1]}`;
+  }
+  return undefined;
+}
+
+/**
+ * Interprets a multiplexor as the service/PID echo that starts a diagnostic response
+ * @returns The number of echo bytes, or null if the multiplexor is not an echo
+ */
+function getEchoLength(multiplexor: DbcSignal): number | null {
+  // The echo is a big-endian number starting at the first bit of the message
+  if (multiplexor.byteOrder !== 'motorola' || multiplexor.startBit !== 7 || multiplexor.length % 8 !== 0 || multiplexor.length < 16 || multiplexor.length > 32) {
+    return null;
+  }
+  return multiplexor.length / 8;
+}
+
+/**
+ * Converts a multiplexor value back into the request that produces the echo
+ */
+function echoToCommand(value: number, echoLength: number): { [service: string]: string } | null {
+  const hex = value.toString(16).toUpperCase().padStart(echoLength * 2, '0');
+  const service = parseInt(hex.substring(0, 2), 16) - 0x40;
+  if (service < 0) {
+    return null;
+  }
+  return { [service.toString(16).toUpperCase().padStart(2, '0')]: hex.substring(2) };
+}
+
+/**
+ * Converts a DBC signal into a signalset signal
+ * @param signal The DBC signal
+ * @param message The message the signal belongs to
+ * @param echoLength Bytes at the start of the message that hold the service/PID echo
+ * @param report Records something that could not be represented
+ * @returns The signalset signal, or null if it cannot be represented
+ */
+function convertSignal(
+  signal: DbcSignal,
+  message: DbcMessage,
+  echoLength: number,
+  report: (description: string) => void
+): any | null {
+  if (signal.floatingPoint) {
+    report('IEEE float signals have no signalset equivalent; signal was skipped');
+    return null;
+  }
+
+  let bit: number;
+  if (signal.byteOrder === 'motorola') {
+    // Motorola start bits name the most significant bit, counted from the LSB of its byte;
+    // OBDb counts from the MSB of the first byte, so the bits that follow are contiguous
+    bit = Math.floor(signal.startBit / 8) * 8 + (7 - signal.startBit % 8);
+  } else {
+    const msb = signal.startBit + signal.length - 1;
+    if (Math.floor(signal.startBit / 8) !== Math.floor(msb / 8)) {
+      report('Little-endian (Intel) signals spanning several bytes cannot be represented; signal was skipped');
+      return null;
+    }
+    bit = Math.floor(msb / 8) * 8 + (7 - msb % 8);
+  }
+
+  const bix = bit - echoLength * 8;
+  if (bix < 0) {
+    report('Signal overlaps the service/PID echo; signal was skipped');
+    return null;
+  }
+
+  const fmt: any = { bix, len: signal.length };
+  if (signal.signed) {
+    fmt.sign = true;
+  }
+
+  if (signal.valueDescriptions && signal.valueDescriptions.length > 0) {
+    if (signal.factor !== 1 || signal.offset !== 0) {
+      report('Scaling of a signal with a value table was dropped; the map applies to raw values');
+    }
+    fmt.map = {};
+    for (const entry of [...signal.valueDescriptions].sort((a, b) => a.value - b.value)) {
+      fmt.map[String(entry.value)] = { description: entry.description, value: mapValueFromDescription(entry.description) };
+    }
+  } else {
+    Object.assign(fmt, toMulDiv(signal.factor));
+    if (signal.offset !== 0) {
+      fmt.add = signal.offset;
+    }
+
+    const rawMin = signal.signed ? -Math.pow(2, signal.length - 1) : 0;
+    const rawMax = signal.signed ? Math.pow(2, signal.length - 1) - 1 : Math.pow(2, signal.length) - 1;
+    const physicalMin = Math.min(rawMin * signal.factor + signal.offset, rawMax * signal.factor + signal.offset);
+    const physicalMax = Math.max(rawMin * signal.factor + signal.offset, rawMax * signal.factor + signal.offset);
+    // DBC uses [0|0] for an unspecified range
+    if (signal.min !== 0 || signal.max !== 0) {
+      if (signal.min > physicalMin) {
+        fmt.min = signal.min;
+      }
+      if (signal.max < physicalMax) {
+        fmt.max = signal.max;
+      }
+    }
+  }
+
+  const unit = signal.unit.trim();
+  if (OBDB_UNITS.has(unit)) {
+    fmt.unit = unit;
+  } else if (DBC_UNITS[unit]) {
+    fmt.unit = DBC_UNITS[unit];
+  } else if (unit.length > 0) {
+    report(`Unit '${unit}' has no signalset equivalent and was dropped`);
+  }
+
+  // Comments are used as "Name. Longer description" when present
+  const comment = (signal.comment || '').trim();
+  const sentenceEnd = comment.search(/\.(\s|$)/);
+  const name = comment.length > 0
+    ? (sentenceEnd === -1 ? comment : comment.substring(0, sentenceEnd))
+    : wordsToName(identifierToWords(signal.name));
+  const description = sentenceEnd === -1 ? '' : comment.substring(sentenceEnd + 1).trim();
+
+  const result: any = {
+    id: identifierToWords(signal.name).join('_').toUpperCase(),
+    path: signal.attributes.ObdbPath || wordsToName(identifierToWords(message.name)),
+    fmt,
+    name
+  };
+  if (signal.attributes.ObdbFilter) {
+    const filter = parseFilterIDString(signal.attributes.ObdbFilter);
+    if (filter) {
+      result.filter = filter;
+    } else {
+      report(`ObdbFilter '${signal.attributes.ObdbFilter}' is not a valid filter and was dropped`);
+    }
+  }
+  if (signal.attributes.ObdbSuggestedMetric) {
+    result.suggestedMetric = signal.attributes.ObdbSuggestedMetric;
+  }
+  if (description) {
+    result.description = description;
+  }
+  return result;
+}
+
+/**
+ * Restores the request, filter and debug filter that the ObdbCommand and ObdbDebugFilter
+ * attributes of exported signals carry
+ * @param command The command the signals belong to
+ * @param signals The DBC signals of the command
+ * @param report Records something that could not be restored
+ */
+function applyCommandAttributes(command: any, signals: DbcSignal[], report: (description: string) => void): void {
+  const commandId = signals.map(signal => signal.attributes.ObdbCommand).find(id => id);
+  if (commandId) {
+    const dividerIndex = commandId.indexOf(ID_PROPERTY_DIVIDER);
+    const request = dividerIndex === -1 ? commandId : commandId.substring(0, dividerIndex);
+    const properties = dividerIndex === -1 ? [] : commandId.substring(dividerIndex + 1).split(',');
+
+    // The request follows the header and optional receive address, e.g. 7E0.7E8.221234
+    const parameter = request.split('.').pop()!.toUpperCase();
+    if (/^([0-9A-F]{2}){2,}$/.test(parameter)) {
+      command.cmd = { [parameter.substring(0, 2)]: parameter.substring(2) };
+    } else {
+      report(`Request '${parameter}' of ObdbCommand ${commandId} is not a service/PID; the request was taken from the multiplexor`);
+    }
+
+    for (const property of properties.filter(property => property.length > 0)) {
+      const filter = property.startsWith('f=') ? parseFilterIDString(property.substring(2)) : undefined;
+      if (filter) {
+        command.filter = filter;
+      } else {
+        report(`Property '${property}' of ObdbCommand ${commandId} cannot be imported and was dropped`);
+      }
+    }
+  }
+
+  const debugFilter = signals.map(signal => signal.attributes.ObdbDebugFilter).find(filter => filter);
+  if (debugFilter) {
+    const dbgfilter = parseFilterIDString(debugFilter);
+    if (dbgfilter) {
+      command.dbgfilter = dbgfilter;
+    } else {
+      report(`ObdbDebugFilter '${debugFilter}' is not a valid filter and was dropped`);
+    }
+  }
+}
+
+/**
+ * Imports a DBC file as a signalset skeleton. Messages multiplexed by a service/PID echo
+ * become one command per multiplexor value; other messages become a single debug command
+ * whose request has to be filled in by hand.
+ * @param dbcText The DBC file content
+ * @returns The signalset text, with naming suggestions applied, and everything that could not be represented
+ */
+export function importDbcToSignalset(dbcText: string): DbcImportResult {
+  const { database, issues: parseIssues } = parseDbc(dbcText);
+  const issues: DbcImportIssue[] = parseIssues.map(description => ({ description }));
+  const commands: any[] = [];
+  const signalIds = new Set<string>();
+
+  const addSignals = (command: any, message: DbcMessage, signals: DbcSignal[], echoLength: number) => {
+    for (const signal of signals) {
+      const report = (description: string) => issues.push({ message: message.name, signal: signal.name, description });
+      const converted = convertSignal(signal, message, echoLength, report);
+      if (!converted) {
+        continue;
+      }
+      if (signalIds.has(converted.id)) {
+        let suffix = 2;
+        while (signalIds.has(`${converted.id}_${suffix}`)) {
+          suffix++;
+        }
+        report(`ID ${converted.id} is already used; renamed to ${converted.id}_${suffix}`);
+        converted.id = `${converted.id}_${suffix}`;
+      }
+      signalIds.add(converted.id);
+      command.signals.push(converted);
+    }
+  };
+
+  for (const message of database.messages) {
+    const report = (description: string) => issues.push({ message: message.name, description });
+    const multiplexor = message.signals.find(signal => signal.multiplexor && signal.multiplexValue === undefined);
+    const hdr = getRequestHeader(message);
+    const responseId = formatCanId(message.id, message.extended);
+
+    const command: any = { hdr: hdr ?? responseId };
+    const defaultResponse = hdr ? getResponseCanId({ hdr }) : null;
+    if (hdr && (!defaultResponse || defaultResponse.id !== message.id)) {
+      command.rax = responseId;
+    }
+    const cycleTime = Number(message.attributes.GenMsgCycleTime);
+    const timing = cycleTime > 0 ? { freq: cycleTime / 1000 } : {};
+
+    if (message.signals.some(signal => signal.multiplexor && signal.multiplexValue !== undefined)) {
+      report('Extended (nested) multiplexing cannot be represented; nested multiplexors were imported as plain signals');
+    }
+
+    const echoLength = multiplexor ? getEchoLength(multiplexor) : null;
+    if (!hdr || !multiplexor || echoLength === null) {
+      let reason = 'Message is not multiplexed by a service/PID echo';
+      if (!hdr) {
+        reason = `${responseId} is not a diagnostic response ID`;
+      } else if (multiplexor) {
+        reason = `Multiplexor ${multiplexor.name} is not a service/PID echo, so all multiplexed signals were merged into one command`;
+      }
+      report(`${reason}; the request is a placeholder and the command is marked dbg`);
+      commands.push({ ...command, cmd: { '22': '0000' }, ...timing, dbg: true, signals: [] });
+      addSignals(commands[commands.length - 1], message, message.signals.filter(signal => signal !== multiplexor), 0);
+      continue;
+    }
+
+    const unmultiplexed = message.signals.filter(signal => signal !== multiplexor && signal.multiplexValue === undefined);
+    for (const signal of unmultiplexed) {
+      issues.push({ message: message.name, signal: signal.name, description: 'Signal is not tied to a multiplexor value; signal was skipped' });
+    }
+
+    const multiplexValues = [...new Set(message.signals
+      .filter(signal => signal.multiplexValue !== undefined)
+      .map(signal => signal.multiplexValue!))].sort((a, b) => a - b);
+    for (const value of multiplexValues) {
+      const cmd = echoToCommand(value, echoLength);
+      if (!cmd) {
+        report(`Multiplexor value 0x${value.toString(16).toUpperCase()} is not a positive response echo; its signals were skipped`);
+        continue;
+      }
+      const valueSignals = message.signals.filter(signal => signal.multiplexValue === value);
+      const valueCommand = { ...command, cmd, ...timing, signals: [] };
+      applyCommandAttributes(valueCommand, valueSignals, report);
+      commands.push(valueCommand);
+      addSignals(valueCommand, message, valueSignals, echoLength);
+    }
+  }
+
+  const text = formatSignalset(JSON.stringify({ commands }))!;
+
+  const fixed = new SignalLinter().fixText(text, 10, NAMING_RULE_IDS);
+
+  return {
+    text: fixed.text,
+    commandCount: commands.length,
+    signalCount: signalIds.size,
+    namingFixes: fixed.fixCount,
+    issues
+  };
+}
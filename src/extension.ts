@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
 import { createHoverProvider } from './providers/hoverProvider';
 import { initializeVisualizationProvider } from './providers/visualizationProvider';
 import { createDiagnosticsProvider } from './providers/diagnosticsProvider';
@@ -7,10 +8,53 @@ import { registerTestCommands, testExecutionEvent } from './utils/testCommands';
 import { registerTestExplorer } from './providers/testExplorerProvider';
 import { createDefinitionProvider } from './providers/definitionProvider';
 import { createCodeLensProvider } from './providers/codeLensProvider'; // Added import
+import { createCompletionProvider } from './providers/completionProvider';
+import { createRenameProvider } from './providers/renameProvider';
+import { createReferenceProvider } from './providers/referenceProvider';
+import { createSymbolProviders } from './providers/symbolProvider';
+import { createInlayHintsProvider } from './providers/inlayHintsProvider';
+import { createExplorerTreeView } from './providers/explorerTreeProvider';
+import { createCoverageTreeView } from './providers/coverageTreeProvider';
+import { createFormattingProvider } from './providers/formattingProvider';
+import { createGenerationsProviders } from './providers/generationsProvider';
+import { registerDbcCommands } from './dbc/dbcCommands';
+import { SignalsetEdit, editSignalset } from './utils/signalsetFormatter';
+import { createSupportMatrixProvider } from './supportMatrix';
+import { createEffectiveSignalsetProvider } from './providers/effectiveSignalsetProvider';
+import { createSignalsetDiffCommand } from './providers/signalsetDiffProvider';
 
 // Create a diagnostic collection for test failures
 let testDiagnosticCollection: vscode.DiagnosticCollection;
 
+/**
+ * Applies edits to the command that starts at a range and lays out the signalset canonically,
+ * which also puts the keys of filters in their usual order
+ * @param editor The editor showing the signalset
+ * @param commandRange The range of the command object
+ * @param edits Property paths within the command and their new values
+ * @returns False if the range does not start a command
+ */
+async function editCommand(
+  editor: vscode.TextEditor,
+  commandRange: vscode.Range,
+  edits: SignalsetEdit[]
+): Promise<boolean> {
+  const document = editor.document;
+  const text = document.getText();
+  const root = jsonc.parseTree(text, [], { allowTrailingComma: true });
+  const commandsNode = root ? jsonc.findNodeAtLocation(root, ['commands']) : undefined;
+  const commandOffset = document.offsetAt(commandRange.start);
+  const commandIndex = commandsNode?.children?.findIndex(node => node.offset === commandOffset) ?? -1;
+  if (commandIndex === -1) {
+    return false;
+  }
+
+  const formatted = editSignalset(text, edits.map(edit => ({ path: ['commands', commandIndex, ...edit.path], value: edit.value })));
+  return editor.edit(editBuilder => {
+    editBuilder.replace(new vscode.Range(document.positionAt(0), document.positionAt(text.length)), formatted);
+  });
+}
+
 /**
  * Extension activation
  * @param context The VS Code extension context
@@ -45,6 +89,42 @@ export function activate(context: vscode.ExtensionContext) {
   const codeLensProvider = createCodeLensProvider(); // Added provider
   console.log('Registered CodeLens provider for JSON command files');
 
+  // Register the completion provider for signalset JSON files
+  const completionProvider = createCompletionProvider();
+  console.log('Registered completion provider for signalset JSON files');
+
+  // Register the rename provider for signal IDs
+  const renameProvider = createRenameProvider();
+  console.log('Registered rename provider for signal IDs');
+
+  // Register the reference provider for signal IDs and commands
+  const referenceProvider = createReferenceProvider();
+  console.log('Registered reference provider for signal IDs and commands');
+
+  // Register the document and workspace symbol providers for signalsets
+  const symbolProviders = createSymbolProviders();
+  console.log('Registered symbol providers for signalset outline and workspace search');
+
+  // Register the inlay hints provider for signal formats
+  const inlayHintsProvider = createInlayHintsProvider();
+  console.log('Registered inlay hints provider for signal formats');
+
+  // Register the OBDb explorer tree view in the activity bar
+  const explorerTreeView = createExplorerTreeView();
+  console.log('Registered OBDb explorer tree view');
+
+  // Register the signal coverage tree view in the activity bar
+  const coverageTreeView = createCoverageTreeView();
+  console.log('Registered signal coverage tree view');
+
+  // Register the formatting provider for signalset JSON files
+  const formattingProvider = createFormattingProvider();
+  console.log('Registered formatting provider for signalset JSON files');
+
+  // Register validation, completion and hovers for generations.yaml
+  const generationsProviders = createGenerationsProviders();
+  console.log('Registered generations.yaml providers');
+
   // Register command for applying debug filters
   const applyDebugFilterCommand = vscode.commands.registerCommand('obdb.applyDebugFilter', async (args: {
     documentUri: string;
@@ -53,65 +133,17 @@ export function activate(context: vscode.ExtensionContext) {
   }) => {
     try {
       const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(args.documentUri));
-      const editor = await vscode.window.showTextDocument(document);      // Get the command object text
-      let commandText = document.getText(args.commandRange);
-
-      // Apply edits to preserve formatting
-      let modifiedText = commandText;
-
-      // Remove 'dbg: true' if it exists (with various formatting possibilities)
-      // Handle different cases: ", "dbg": true" or ""dbg": true," or just ""dbg": true"
-      modifiedText = modifiedText.replace(/,\s*"dbg"\s*:\s*true(?=\s*[,}])/g, '');
-      modifiedText = modifiedText.replace(/"dbg"\s*:\s*true\s*,/g, '');
-
-      // Format the debug filter with spaces around braces to match style
-      const formatDebugFilter = (filter: any): string => {
-        const parts: string[] = [];
-        if (filter.to !== undefined) parts.push(`"to": ${filter.to}`);
-        if (filter.years !== undefined) parts.push(`"years": [${filter.years.join(', ')}]`);
-        if (filter.from !== undefined) parts.push(`"from": ${filter.from}`);
-        return `{ ${parts.join(', ')} }`;
-      };
-
-      const debugFilterJson = formatDebugFilter(args.debugFilter);
-
-      // Find where to insert the dbgfilter - after command properties but before signals
-      // Look for the "signals" property and insert before it
-      const signalsMatch = modifiedText.match(/,\s*"signals"\s*:/);
-
-      if (signalsMatch && signalsMatch.index !== undefined) {
-        // Insert before the "signals" property
-        const insertPosition = signalsMatch.index;
-        const beforeSignals = modifiedText.substring(0, insertPosition);
-        const fromSignals = modifiedText.substring(insertPosition);
+      const editor = await vscode.window.showTextDocument(document);
 
-        modifiedText = beforeSignals + `, "dbgfilter": ${debugFilterJson}` + fromSignals;
-      } else {
-        // Fallback: insert before the closing brace if no signals found
-        const closingBraceIndex = modifiedText.lastIndexOf('}');
-        if (closingBraceIndex === -1) {
-          vscode.window.showErrorMessage('Could not find closing brace in command object');
-          return;
-        }
-
-        // Check if there's already content before the closing brace
-        const beforeClosingBrace = modifiedText.substring(0, closingBraceIndex).trim();
-        const needsComma = beforeClosingBrace.endsWith('"') || beforeClosingBrace.endsWith('}') || beforeClosingBrace.endsWith(']');
-
-        // Format the debug filter with proper comma
-        const formattedDebugFilter = `${needsComma ? ', ' : ''}"dbgfilter": ${debugFilterJson}`;
-
-        // Insert the debug filter
-        const beforeBrace = modifiedText.substring(0, closingBraceIndex);
-        const afterBrace = modifiedText.substring(closingBraceIndex);
-        modifiedText = beforeBrace + formattedDebugFilter + afterBrace;
+      const applied = await editCommand(editor, args.commandRange, [
+        { path: ['dbg'], value: undefined },
+        { path: ['dbgfilter'], value: args.debugFilter }
+      ]);
+      if (!applied) {
+        vscode.window.showErrorMessage('Could not find the command in the signalset');
+        return;
       }
 
-      // Replace the command in the document
-      await editor.edit(editBuilder => {
-        editBuilder.replace(args.commandRange, modifiedText);
-      });
-
       vscode.window.showInformationMessage('Debug filter applied successfully');
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to apply debug filter: ${error}`);
@@ -128,46 +160,16 @@ export function activate(context: vscode.ExtensionContext) {
       const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(args.documentUri));
       const editor = await vscode.window.showTextDocument(document);
 
-      // Get the command object text
-      let commandText = document.getText(args.commandRange);
-
-      if (args.optimizedFilter === undefined) {
-        // Remove the debug filter entirely
-        let modifiedText = commandText;
-
-        // Remove 'dbgfilter' property with various formatting possibilities
-        modifiedText = modifiedText.replace(/,\s*"dbgfilter"\s*:\s*\{[^}]*\}(?=\s*[,}])/g, '');
-        modifiedText = modifiedText.replace(/"dbgfilter"\s*:\s*\{[^}]*\}\s*,/g, '');
-
-        await editor.edit(editBuilder => {
-          editBuilder.replace(args.commandRange, modifiedText);
-        });
-
-        vscode.window.showInformationMessage('Debug filter removed - all years are supported');
-      } else {
-        // Update the debug filter with optimized version
-        let modifiedText = commandText;
-
-        // Format the optimized filter with spaces around braces to match style
-        const formatDebugFilter = (filter: any): string => {
-          const parts: string[] = [];
-          if (filter.to !== undefined) parts.push(`"to": ${filter.to}`);
-          if (filter.years !== undefined) parts.push(`"years": [${filter.years.join(', ')}]`);
-          if (filter.from !== undefined) parts.push(`"from": ${filter.from}`);
-          return `{ ${parts.join(', ')} }`;
-        };
-
-        const optimizedFilterJson = formatDebugFilter(args.optimizedFilter);
-
-        // Replace the existing dbgfilter
-        modifiedText = modifiedText.replace(/"dbgfilter"\s*:\s*\{[^}]*\}/g, `"dbgfilter": ${optimizedFilterJson}`);
-
-        await editor.edit(editBuilder => {
-          editBuilder.replace(args.commandRange, modifiedText);
-        });
-
-        vscode.window.showInformationMessage('Debug filter optimized - removed supported years');
+      // An undefined filter means every year is supported, so the debug filter is removed
+      const applied = await editCommand(editor, args.commandRange, [{ path: ['dbgfilter'], value: args.optimizedFilter }]);
+      if (!applied) {
+        vscode.window.showErrorMessage('Could not find the command in the signalset');
+        return;
       }
+
+      vscode.window.showInformationMessage(args.optimizedFilter === undefined
+        ? 'Debug filter removed - all years are supported'
+        : 'Debug filter optimized - removed supported years');
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to optimize debug filter: ${error}`);
     }
@@ -213,6 +215,22 @@ export function activate(context: vscode.ExtensionContext) {
   const testCommands = registerTestCommands(context);
   console.log('Registered commands for running and debugging tests');
 
+  // Register commands for DBC conversion
+  const dbcCommands = registerDbcCommands();
+  console.log('Registered commands for DBC conversion');
+
+  // Register the model-year support matrix command
+  const supportMatrixProvider = createSupportMatrixProvider();
+  console.log('Registered model-year support matrix command');
+
+  // Register the command showing the signalset a model year resolves to
+  const effectiveSignalsetProvider = createEffectiveSignalsetProvider();
+  console.log('Registered effective signalset command');
+
+  // Register the command comparing a signalset with its committed version
+  const signalsetDiffCommand = createSignalsetDiffCommand();
+  console.log('Registered signalset diff command');
+
   // Register test explorer integration
   const testExplorer = registerTestExplorer(context);
   console.log('Registered test explorer integration');
@@ -248,10 +266,23 @@ export function activate(context: vscode.ExtensionContext) {
     testProvider,
     ...definitionProvider,
     codeLensProvider, // Added provider to subscriptions
+    completionProvider,
+    renameProvider,
+    referenceProvider,
+    ...symbolProviders,
+    ...inlayHintsProvider,
+    ...explorerTreeView,
+    ...coverageTreeView,
+    formattingProvider,
+    ...generationsProviders,
     applyDebugFilterCommand,
     optimizeDebugFilterCommand,
     addRaxFilterCommand,
     ...testCommands,
+    ...dbcCommands,
+    supportMatrixProvider,
+    ...effectiveSignalsetProvider,
+    signalsetDiffCommand,
     testExplorer,
     testExecutionSubscription,
     autoShowDisposable,
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { RuleRegistry } from './ruleRegistry';
+import { LintResult, LintSeverity } from './rules/rule';
+
+/**
+ * Maps severity levels to VS Code diagnostic severity
+ */
+export function getSeverity(severity: LintSeverity): vscode.DiagnosticSeverity {
+  switch (severity) {
+    case LintSeverity.Error:
+      return vscode.DiagnosticSeverity.Error;
+    case LintSeverity.Warning:
+      return vscode.DiagnosticSeverity.Warning;
+    case LintSeverity.Information:
+      return vscode.DiagnosticSeverity.Information;
+    case LintSeverity.Hint:
+      return vscode.DiagnosticSeverity.Hint;
+    default:
+      return vscode.DiagnosticSeverity.Warning;
+  }
+}
+
+/**
+ * Convert lint results to VS Code diagnostics
+ * @param document The document the results were produced for
+ * @param results The lint results
+ */
+export function toDiagnostics(document: vscode.TextDocument, results: LintResult[]): vscode.Diagnostic[] {
+  const ruleRegistry = RuleRegistry.getInstance();
+
+  return results.map(result => {
+    const ruleConfig = ruleRegistry.getRuleConfig(result.ruleId);
+    if (!ruleConfig) {
+      throw new Error(`Rule not found: ${result.ruleId}`);
+    }
+
+    const startPos = document.positionAt(result.node.offset);
+    const endPos = document.positionAt(result.node.offset + result.node.length);
+
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(startPos, endPos),
+      result.message,
+      getSeverity(ruleConfig.severity)
+    );
+
+    diagnostic.code = result.ruleId;
+    diagnostic.source = 'obdb-signal-linter';
+
+    return diagnostic;
+  });
+}
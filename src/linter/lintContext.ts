@@ -0,0 +1,78 @@
+/**
+ * VSCode-independent context about the signalset file being linted
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as path from 'path';
+import { GenerationSet, getGenerations } from '../utils/generationsCore';
+import { filterIncludesYear } from '../utils/modelYearFilter';
+
+/**
+ * Earliest model year considered when the repository has no generations.yaml (OBD-II became mandatory in 1996)
+ */
+const FIRST_OBD2_MODEL_YEAR = 1996;
+
+/**
+ * What rules can know about a signalset beyond its own text
+ */
+export interface LintContext {
+  /** The vehicle's generations, which bound the model years a signal can be active in */
+  generations?: GenerationSet;
+  /** The model years of a year-range signalset file such as 2015-2018.json */
+  signalsetYears?: { from: number, to: number };
+}
+
+/**
+ * Loads the lint context of a signalset file
+ * @param filePath The signalset's path
+ * @param workspacePath The repository root, used to find generations.yaml
+ */
+export async function loadLintContext(filePath: string, workspacePath?: string): Promise<LintContext> {
+  const context: LintContext = {};
+
+  const generations = workspacePath ? await getGenerations(workspacePath) : null;
+  if (generations && generations.length > 0) {
+    context.generations = new GenerationSet(generations);
+  }
+
+  const match = path.basename(filePath).match(/^(\d{4})-(\d{4})\.json$/);
+  if (match) {
+    context.signalsetYears = { from: parseInt(match[1], 10), to: parseInt(match[2], 10) };
+  }
+
+  return context;
+}
+
+/**
+ * Gets the model years a signalset can apply to: the years of its generations (up to next year
+ * for a generation still in production), narrowed to the file's year range
+ * @param context The lint context
+ */
+export function getModelYears(context: LintContext): number[] {
+  const nextYear = new Date().getFullYear() + 1;
+  const generations = context.generations;
+  const first = generations ? generations.firstYear : FIRST_OBD2_MODEL_YEAR;
+  const last = generations?.lastYear ?? nextYear;
+
+  const years: number[] = [];
+  for (let year = first; year <= last; year++) {
+    if ((!generations || generations.contains(year)) &&
+        (!context.signalsetYears || (year >= context.signalsetYears.from && year <= context.signalsetYears.to))) {
+      years.push(year);
+    }
+  }
+  return years;
+}
+
+/**
+ * Gets the model years a command or signal is active in: the signalset's model years, narrowed
+ * by the filter and dbgfilter of each given scope
+ * @param context The lint context
+ * @param scopes The objects whose filters apply, e.g. a command and one of its signals
+ */
+export function getActiveModelYears(context: LintContext, ...scopes: any[]): number[] {
+  return getModelYears(context).filter(year => scopes.every(scope =>
+    ['filter', 'dbgfilter'].every(key =>
+      !scope?.[key] || typeof scope[key] !== 'object' || filterIncludesYear(scope[key], year))
+  ));
+}
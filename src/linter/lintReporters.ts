@@ -0,0 +1,155 @@
+import * as path from 'path';
+import { RuleRegistry } from './ruleRegistry';
+import { LintResult, LintSeverity } from './rules/rule';
+
+/**
+ * Lint results for a single signalset file
+ */
+export interface FileLintResults {
+  filePath: string;
+  content: string;
+  results: LintResult[];
+}
+
+/**
+ * A lint result resolved to a position in its file
+ */
+interface LocatedLintResult {
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: LintSeverity;
+  ruleId: string;
+  message: string;
+}
+
+/**
+ * Converts an offset into a 1-based line and column
+ * @param text The file content
+ * @param offset The zero-based offset
+ */
+export function getLineAndColumn(text: string, offset: number): { line: number, column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Gets the severity a rule's results are reported with
+ */
+function getRuleSeverity(ruleId: string): LintSeverity {
+  return RuleRegistry.getInstance().getRuleConfig(ruleId)?.severity ?? LintSeverity.Warning;
+}
+
+/**
+ * Resolves every lint result to a file position, sorted by file and position
+ */
+function locateResults(files: FileLintResults[], workspacePath: string): LocatedLintResult[] {
+  const located: LocatedLintResult[] = [];
+
+  for (const file of files) {
+    const relativePath = path.relative(workspacePath, file.filePath);
+    for (const result of file.results) {
+      const start = getLineAndColumn(file.content, result.node.offset);
+      const end = getLineAndColumn(file.content, result.node.offset + result.node.length);
+      located.push({
+        file: relativePath,
+        line: start.line,
+        column: start.column,
+        endLine: end.line,
+        endColumn: end.column,
+        severity: getRuleSeverity(result.ruleId),
+        ruleId: result.ruleId,
+        message: result.message
+      });
+    }
+  }
+
+  return located.sort((a, b) =>
+    a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column
+  );
+}
+
+/**
+ * Formats lint results as `file:line:col severity ruleId message` lines
+ * @param files The lint results per file
+ * @param workspacePath The workspace the file paths are reported relative to
+ */
+export function formatLintText(files: FileLintResults[], workspacePath: string): string {
+  return locateResults(files, workspacePath)
+    .map(r => `${r.file}:${r.line}:${r.column} ${r.severity} ${r.ruleId} ${r.message}`)
+    .join('\n');
+}
+
+/**
+ * Formats lint results as a JSON array
+ * @param files The lint results per file
+ * @param workspacePath The workspace the file paths are reported relative to
+ */
+export function formatLintJson(files: FileLintResults[], workspacePath: string): string {
+  return JSON.stringify(locateResults(files, workspacePath), null, 2);
+}
+
+/**
+ * Maps a lint severity to a SARIF result level
+ */
+function toSarifLevel(severity: LintSeverity): string {
+  switch (severity) {
+    case LintSeverity.Error:
+      return 'error';
+    case LintSeverity.Warning:
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+/**
+ * Formats lint results as a SARIF 2.1.0 log
+ * @param files The lint results per file
+ * @param workspacePath The workspace the file paths are reported relative to
+ */
+export function formatLintSarif(files: FileLintResults[], workspacePath: string): string {
+  const rules = RuleRegistry.getInstance().getAllRuleConfigs().map(config => ({
+    id: config.id,
+    name: config.name,
+    shortDescription: { text: config.description },
+    defaultConfiguration: { level: toSarifLevel(config.severity), enabled: config.enabled }
+  }));
+
+  const results = locateResults(files, workspacePath).map(r => ({
+    ruleId: r.ruleId,
+    level: toSarifLevel(r.severity),
+    message: { text: r.message },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri: r.file.split(path.sep).join('/') },
+        region: {
+          startLine: r.line,
+          startColumn: r.column,
+          endLine: r.endLine,
+          endColumn: r.endColumn
+        }
+      }
+    }]
+  }));
+
+  const log = {
+    version: '2.1.0',
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    runs: [{
+      tool: { driver: { name: 'obdb-lint', rules } },
+      results
+    }]
+  };
+
+  return JSON.stringify(log, null, 2);
+}
@@ -1,12 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
 import { RuleRegistry } from './ruleRegistry';
 import { LintSeverity, LinterRuleConfig } from './rules/rule';
 
+/**
+ * Name of the per-workspace linter configuration file
+ */
+export const LINTER_CONFIG_FILENAME = '.obdblintrc.json';
+
+/**
+ * Configuration of a single rule: "off", a severity, or an object that can
+ * also carry rule-specific options
+ */
+export type RuleConfigEntry = 'off' | LintSeverity | {
+  enabled?: boolean;
+  severity?: LintSeverity;
+  options?: { [option: string]: any };
+};
+
+/**
+ * Content of a .obdblintrc.json file or the obdb.linter settings section
+ */
+export interface LinterConfig {
+  rules?: { [ruleId: string]: RuleConfigEntry };
+}
+
+/**
+ * Loads the linter configuration file of a workspace
+ * @param workspacePath The workspace folder path
+ * @returns The configuration, or an empty configuration if the file does not exist or is invalid
+ */
+export function loadLinterConfig(workspacePath: string): LinterConfig {
+  const configPath = path.join(workspacePath, LINTER_CONFIG_FILENAME);
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    const errors: jsonc.ParseError[] = [];
+    const config = jsonc.parse(fs.readFileSync(configPath, 'utf-8'), errors);
+    if (errors.length > 0 || !config || typeof config !== 'object') {
+      console.warn(`Ignoring invalid linter configuration in ${configPath}`);
+      return {};
+    }
+    return config as LinterConfig;
+  } catch (error) {
+    console.warn(`Failed to read linter configuration ${configPath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Merges linter configurations, with later configurations overriding earlier ones per rule
+ * @param configs The configurations to merge
+ * @returns The merged configuration
+ */
+export function mergeLinterConfigs(...configs: (LinterConfig | undefined)[]): LinterConfig {
+  const rules: { [ruleId: string]: RuleConfigEntry } = {};
+  for (const config of configs) {
+    Object.assign(rules, config?.rules || {});
+  }
+  return { rules };
+}
+
 /**
  * Gets the enabled linter rules
  */
 export function getEnabledRules(): LinterRuleConfig[] {
   const registry = RuleRegistry.getInstance();
-  return registry.getEnabledRules().map(rule => rule.getConfig());
+  return registry.getAllRuleConfigs().filter(config => config.enabled);
 }
 
 /**
@@ -14,8 +77,7 @@ export function getEnabledRules(): LinterRuleConfig[] {
  */
 export function getRuleById(ruleId: string): LinterRuleConfig | undefined {
   const registry = RuleRegistry.getInstance();
-  const rule = registry.getRuleById(ruleId);
-  return rule?.getConfig();
+  return registry.getRuleConfig(ruleId);
 }
 
 /**
@@ -1,5 +1,5 @@
-import * as vscode from 'vscode';
-import { ILinterRule, LinterRuleConfig } from './rules/rule';
+import { ILinterRule, LinterRuleConfig, LintSeverity } from './rules/rule';
+import { LinterConfig } from './linterConfig';
 
 // Import all rule classes directly
 import { ConsolidatedNamingRule } from './rules/consolidatedNamingRule';
@@ -17,6 +17,7 @@ import { SignalNameTypoRule } from './rules/signalNameTypoRule';
 // New rules ported from Python automation
 import { EvCommandFilteringRule } from './rules/evCommandFilteringRule';
 import { Mode01FilteringRule } from './rules/mode01FilteringRule';
+import { UnusedLintSuppressionRule } from './rules/unusedLintSuppressionRule';
 
 /**
  * Registry that manages all linter rules
@@ -24,6 +25,7 @@ import { Mode01FilteringRule } from './rules/mode01FilteringRule';
 export class RuleRegistry {
   private static instance: RuleRegistry;
   private rules: ILinterRule[] = [];
+  private overrides: Map<string, { enabled?: boolean, severity?: LintSeverity }> = new Map();
 
   /**
    * Private constructor to enforce singleton pattern
@@ -63,7 +65,8 @@ export class RuleRegistry {
       SignalNameTypoRule,
       // New rules ported from Python automation
       EvCommandFilteringRule,
-      Mode01FilteringRule
+      Mode01FilteringRule,
+      UnusedLintSuppressionRule
     ];
 
     // Instantiate each rule class
@@ -72,6 +75,55 @@ export class RuleRegistry {
     }
   }
 
+  /**
+   * Applies a linter configuration, replacing any previously applied one.
+   * Rules that are not mentioned fall back to their defaults.
+   * @param config The linter configuration
+   */
+  public configure(config: LinterConfig): void {
+    this.overrides.clear();
+    const validSeverities = Object.values(LintSeverity) as string[];
+
+    for (const rule of this.rules) {
+      const ruleId = rule.getConfig().id;
+      const entry = config.rules?.[ruleId];
+      let options = {};
+
+      if (entry === 'off') {
+        this.overrides.set(ruleId, { enabled: false });
+      } else if (typeof entry === 'string' && validSeverities.includes(entry)) {
+        this.overrides.set(ruleId, { enabled: true, severity: entry });
+      } else if (entry && typeof entry === 'object') {
+        this.overrides.set(ruleId, {
+          enabled: entry.enabled,
+          severity: entry.severity && validSeverities.includes(entry.severity) ? entry.severity : undefined
+        });
+        options = entry.options || {};
+      }
+
+      if (rule.configure) {
+        rule.configure(options);
+      }
+    }
+  }
+
+  /**
+   * Gets the configuration of a rule with any user overrides applied
+   * @param rule The rule
+   */
+  private getEffectiveConfig(rule: ILinterRule): LinterRuleConfig {
+    const config = rule.getConfig();
+    const override = this.overrides.get(config.id);
+    if (!override) {
+      return config;
+    }
+    return {
+      ...config,
+      enabled: override.enabled ?? config.enabled,
+      severity: override.severity ?? config.severity
+    };
+  }
+
   /**
    * Gets all registered rules
    */
@@ -83,14 +135,29 @@ export class RuleRegistry {
    * Gets all enabled rules
    */
   public getEnabledRules(): ILinterRule[] {
-    return this.rules.filter(rule => rule.getConfig().enabled);
+    return this.rules.filter(rule => this.getEffectiveConfig(rule).enabled);
   }
 
   /**
    * Gets rule configurations for all rules
    */
   public getAllRuleConfigs(): LinterRuleConfig[] {
-    return this.rules.map(rule => rule.getConfig());
+    return this.rules.map(rule => this.getEffectiveConfig(rule));
+  }
+
+  /**
+   * Gets the configuration of a rule by ID, with any user overrides applied
+   */
+  public getRuleConfig(ruleId: string): LinterRuleConfig | undefined {
+    const rule = this.getRuleById(ruleId);
+    return rule ? this.getEffectiveConfig(rule) : undefined;
+  }
+
+  /**
+   * Waits for every rule that initializes asynchronously to be ready
+   */
+  public async whenReady(): Promise<void> {
+    await Promise.all(this.rules.map(rule => rule.ready));
   }
 
   /**
@@ -63,10 +63,22 @@ export class AcronymAtStartOfSignalNameRule implements ILinterRule {
     enabled: true,
   };
 
+  // Acronyms the workspace allows at the start of signal names (option: allowedAcronyms)
+  private allowedAcronyms: Set<string> = new Set();
+
   getConfig(): LinterRuleConfig {
     return this.config;
   }
 
+  /**
+   * Applies options from the linter configuration
+   * @param options Rule options, e.g. { "allowedAcronyms": ["HVAC"] }
+   */
+  public configure(options: { [option: string]: any }): void {
+    const allowed = Array.isArray(options.allowedAcronyms) ? options.allowedAcronyms : [];
+    this.allowedAcronyms = new Set(allowed.map((acronym: any) => String(acronym).toUpperCase()));
+  }
+
   /**
    * Validates a signal against this rule
    * @param signal The signal to validate
@@ -82,6 +94,9 @@ export class AcronymAtStartOfSignalNameRule implements ILinterRule {
     }
 
     for (const acronym of COMMON_ACRONYMS) {
+      if (this.allowedAcronyms.has(acronym)) {
+        continue;
+      }
       if (signalName.toUpperCase().startsWith(acronym + ' ') || signalName.toUpperCase().startsWith(acronym + '_') || signalName.toUpperCase() === acronym) {
         return {
           ruleId: this.config.id,
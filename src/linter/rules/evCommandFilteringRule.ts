@@ -3,6 +3,8 @@ import { ILinterRule, LintResult, LintSeverity, LinterRuleConfig, Command } from
 import { detectVehicleType, shouldFilterEvCommand, VehicleType } from '../../utils/vehicleTypeDetection';
 import { Command as TypedCommand } from '../../types';
 
+const silent = () => undefined;
+
 /**
  * Rule that detects and suggests removal of EV-specific commands from ICE vehicle signalsets
  *
@@ -55,9 +57,8 @@ export class EvCommandFilteringRule implements ILinterRule {
 
     // Detect vehicle type from model name if available
     const modelName = this.inferModelName();
-    const vehicleType = detectVehicleType(modelName, commands);
-
-    console.log(`Detected vehicle type: ${vehicleType} for model: ${modelName}`);
+    // Linting runs on every edit and in reports that own stdout, so the detection stays quiet
+    const vehicleType = detectVehicleType(modelName, commands, silent);
 
     // Only filter for ICE vehicles
     if (vehicleType !== VehicleType.ICE) {
@@ -69,7 +70,7 @@ export class EvCommandFilteringRule implements ILinterRule {
       for (const commandNode of commandsNode.children) {
         try {
           const command = this.parseCommand(commandNode);
-          if (command && shouldFilterEvCommand(command, vehicleType)) {
+          if (command && shouldFilterEvCommand(command, vehicleType, silent)) {
             // Create lint result suggesting removal
             const commandText = this.buildCommandDescription(command);
 
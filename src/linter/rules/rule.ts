@@ -1,5 +1,6 @@
-import * as vscode from 'vscode';
 import * as jsonc from 'jsonc-parser';
+import { LintSuppression } from '../suppressions';
+import { LintContext } from '../lintContext';
 
 /**
  * Interface for a signal object in the JSON
@@ -63,24 +64,6 @@ export enum LintSeverity {
   Hint = 'hint'
 }
 
-/**
- * Maps severity levels to VS Code diagnostic severity
- */
-export function getSeverity(severity: LintSeverity): vscode.DiagnosticSeverity {
-  switch (severity) {
-    case LintSeverity.Error:
-      return vscode.DiagnosticSeverity.Error;
-    case LintSeverity.Warning:
-      return vscode.DiagnosticSeverity.Warning;
-    case LintSeverity.Information:
-      return vscode.DiagnosticSeverity.Information;
-    case LintSeverity.Hint:
-      return vscode.DiagnosticSeverity.Hint;
-    default:
-      return vscode.DiagnosticSeverity.Warning;
-  }
-}
-
 /**
  * Interface for linter rule configuration
  */
@@ -101,6 +84,19 @@ export interface ILinterRule {
    */
   getConfig(): LinterRuleConfig;
 
+  /**
+   * Resolves once any asynchronous setup of the rule (such as loading a dictionary) has finished.
+   * Headless callers should await it before linting so the rule is not silently skipped.
+   */
+  ready?: Promise<void>;
+
+  /**
+   * Applies rule-specific options from the linter configuration.
+   * Called with an empty object when the configuration has no options for the rule.
+   * @param options The options for this rule
+   */
+  configure?(options: { [option: string]: any }): void;
+
   /**
    * Validates an individual signal or signal group against this rule.
    * @param target The signal or signal group to validate
@@ -114,9 +110,15 @@ export interface ILinterRule {
    * @param command The parsed command object
    * @param commandNode The JSONC node for the command
    * @param signalsInCommand An array of signals belonging to this command, with their respective nodes
+   * @param context What is known about the signalset beyond its text, such as its model years
    * @returns Lint result(s) or null if no issues are found
    */
-  validateCommand?(command: Command, commandNode: jsonc.Node, signalsInCommand: { signal: Signal, node: jsonc.Node }[]): LintResult | null | LintResult[];
+  validateCommand?(
+    command: Command,
+    commandNode: jsonc.Node,
+    signalsInCommand: { signal: Signal, node: jsonc.Node }[],
+    context: LintContext
+  ): LintResult | null | LintResult[];
 
   /**
    * Validates all commands in a command array against this rule.
@@ -132,4 +134,13 @@ export interface ILinterRule {
    * @returns Lint result(s) or null if no issues are found
    */
   validateDocument?(rootNode: jsonc.Node): LintResult[] | null;
+
+  /**
+   * Validates the obdb-lint-disable comments of a document, after they have been applied
+   * to the results of every other rule.
+   * @param suppressions The suppressions, with `used` set when they silenced a result
+   * @param text The document text
+   * @returns Lint result(s) or null if no issues are found
+   */
+  validateSuppressions?(suppressions: LintSuppression[], text: string): LintResult[] | null;
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import * as jsonc from 'jsonc-parser';
 import { ILinterRule, LintResult, Signal, LintSeverity, LinterRuleConfig, Command } from './rule';
+import { getActiveModelYears, getModelYears, LintContext } from '../lintContext';
+import { formatYearsAsRanges } from '../../utils/generationsCore';
 
 /**
  * Rule that validates signal bit ranges don't overlap and suggests removal of obsolete versions
@@ -8,6 +10,9 @@ import { ILinterRule, LintResult, Signal, LintSeverity, LinterRuleConfig, Comman
  * - Detects bit overlaps within the same command
  * - Auto-suggests removal of obsolete signal versions (_PRE21, _OLD, _V1)
  * - Prefers more specific signal names (e.g., TPMS_TEMP over TT)
+ *
+ * Signals only conflict in the model years both are active in, so bits reused by signals whose
+ * filters, dbgfilters or year-range signalset files select different years are not reported.
  */
 export class SignalBitOverlapRule implements ILinterRule {
   /**
@@ -17,7 +22,7 @@ export class SignalBitOverlapRule implements ILinterRule {
     return {
       id: 'signal-bit-overlap',
       name: 'Signal Bit Overlap Detection',
-      description: 'Validates that signal bit ranges do not overlap and suggests removal of obsolete versions',
+      description: 'Validates that signal bit ranges active in the same model years do not overlap and suggests removal of obsolete versions',
       severity: LintSeverity.Warning,
       enabled: true,
     };
@@ -25,23 +30,34 @@ export class SignalBitOverlapRule implements ILinterRule {
 
   /**
    * Validates a command for overlapping signal bit ranges and suggests removal of obsolete versions.
-   * Matches Python implementation logic exactly.
+   * Matches Python implementation logic, except that signals active in mutually exclusive model
+   * years are not considered overlapping.
    *
    * @param command The command being validated
    * @param commandNode The JSONC node for the command
    * @param signalsInCommand An array of signals belonging to this command, with their respective nodes
+   * @param context The signalset's generations and year range, which bound each signal's model years
    */
-  public validateCommand(command: Command, commandNode: jsonc.Node, signalsInCommand: { signal: Signal, node: jsonc.Node }[]): LintResult[] | null {
+  public validateCommand(
+    command: Command,
+    commandNode: jsonc.Node,
+    signalsInCommand: { signal: Signal, node: jsonc.Node }[],
+    context: LintContext = {}
+  ): LintResult[] | null {
     const results: LintResult[] = [];
     if (signalsInCommand.length < 2) {
       return null; // Not enough signals to overlap
     }
 
+    // Without generations or a year range, the model years are only a guess not worth listing in full
+    const knownYears = context.generations !== undefined || context.signalsetYears !== undefined;
+    const yearCount = getModelYears(context).length;
+
     // Group signals by bit range for overlap detection
-    const bitGroups = new Map<string, { signal: Signal, node: jsonc.Node }[]>();
+    const bitGroups = new Map<string, { signal: Signal, node: jsonc.Node, years: number[] }[]>();
 
     for (const { signal, node } of signalsInCommand) {
-      if (!signal.fmt || typeof signal.fmt.len !== 'number') {
+      if (!signal || !signal.fmt || typeof signal.fmt.len !== 'number') {
         continue; // Skip signals without proper format or length
       }
       const bix = signal.fmt.bix || 0;
@@ -51,13 +67,16 @@ export class SignalBitOverlapRule implements ILinterRule {
       if (!bitGroups.has(bitRangeKey)) {
         bitGroups.set(bitRangeKey, []);
       }
-      bitGroups.get(bitRangeKey)!.push({ signal, node });
+      bitGroups.get(bitRangeKey)!.push({ signal, node, years: getActiveModelYears(context, command, signal) });
     }
 
-    // Process bit overlaps - only groups with multiple signals
-    for (const [bitRange, overlappingSignals] of bitGroups.entries()) {
+    // Process bit overlaps - only signals sharing a model year with another signal at the same bits
+    for (const [bitRange, signalsAtRange] of bitGroups.entries()) {
+      const overlappingSignals = signalsAtRange.filter(entry => signalsAtRange.some(other =>
+        other !== entry && other.years.some(year => entry.years.includes(year))
+      ));
       if (overlappingSignals.length <= 1) {
-        continue; // No overlap
+        continue; // No overlap, or the signals are active in mutually exclusive model years
       }
 
       // Sort by preference: remove obsolete versions, keep more specific names
@@ -66,10 +85,16 @@ export class SignalBitOverlapRule implements ILinterRule {
 
       if (signalToRemove) {
         const signalIds = overlappingSignals.map(s => s.signal.id).join(', ');
+        const sharedYears = signalToRemove.years.filter(year => overlappingSignals.some(other =>
+          other !== signalToRemove && other.years.includes(year)
+        ));
+        const years = !knownYears && sharedYears.length === yearCount
+          ? 'every model year'
+          : `model year(s) ${formatYearsAsRanges(sharedYears.map(String))}`;
 
         results.push({
           ruleId: this.getConfig().id,
-          message: `Obsolete signal '${signalToRemove.signal.id}' overlaps with other signals (${signalIds}) at bits ${bitRange}. Consider removing this obsolete version.`,
+          message: `Obsolete signal '${signalToRemove.signal.id}' overlaps with other signals (${signalIds}) at bits ${bitRange} in ${years}. Consider removing this obsolete version.`,
           node: signalToRemove.node,
           suggestion: {
             title: `Remove obsolete signal '${signalToRemove.signal.id}'`,
@@ -95,7 +120,7 @@ export class SignalBitOverlapRule implements ILinterRule {
    * @param overlappingSignals Array of signals with overlapping bit ranges
    * @returns The signal that should be removed, or null if none should be removed
    */
-  private selectSignalToRemove(overlappingSignals: { signal: Signal, node: jsonc.Node }[]): { signal: Signal, node: jsonc.Node } | null {
+  private selectSignalToRemove<T extends { signal: Signal }>(overlappingSignals: T[]): T | null {
     const obsoleteSuffixes = ['_PRE21', '_OLD', '_V1'];
 
     // First priority: remove obsolete versions
@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as jsonc from 'jsonc-parser';
 import { ILinterRule, LintResult, Signal, LintSeverity, LinterRuleConfig } from './rule';
 
@@ -11,6 +13,7 @@ const nspell = require('nspell');
  */
 export class SignalNameTypoRule implements ILinterRule {
   private spellChecker: any = null;
+  public readonly ready: Promise<void>;
 
   // Common automotive/technical abbreviations that are valid even if not in dictionary
   private readonly validAbbreviations: Set<string> = new Set([
@@ -36,20 +39,47 @@ export class SignalNameTypoRule implements ILinterRule {
     'overdrive', 'lockup', 'downshift', 'upshift', 'kickdown', 'recirculation'
   ]);
 
+  // Extra words the workspace considers correctly spelled (option: words)
+  private extraWords: Set<string> = new Set();
+
   constructor() {
-    this.initializeSpellChecker();
+    this.ready = this.initializeSpellChecker();
   }
 
   /**
-   * Initialize the spell checker with dictionary
+   * Applies options from the linter configuration
+   * @param options Rule options, e.g. { "words": ["regen", "ecotec"] }
    */
-  private async initializeSpellChecker(): Promise<void> {
+  public configure(options: { [option: string]: any }): void {
+    const words = Array.isArray(options.words) ? options.words : [];
+    this.extraWords = new Set(words.map((word: any) => String(word).toLowerCase()));
+  }
+
+  /**
+   * Loads the aff and dic buffers of the English dictionary
+   */
+  private async loadDictionary(): Promise<{ aff: Uint8Array, dic: Uint8Array }> {
     try {
       // Use dynamic import for ESM module
       const dictionaryEn = await import('dictionary-en');
+      return dictionaryEn.default;
+    } catch (error) {
+      // The CommonJS CLI build cannot import the ESM package, so read its files directly
+      const dictionaryDir = path.dirname(require.resolve('dictionary-en'));
+      return {
+        aff: fs.readFileSync(path.join(dictionaryDir, 'index.aff')),
+        dic: fs.readFileSync(path.join(dictionaryDir, 'index.dic'))
+      };
+    }
+  }
 
+  /**
+   * Initialize the spell checker with dictionary
+   */
+  private async initializeSpellChecker(): Promise<void> {
+    try {
       // dictionary-en exports aff and dic buffers directly
-      this.spellChecker = nspell(dictionaryEn.default);
+      this.spellChecker = nspell(await this.loadDictionary());
 
       // Add domain-specific words to personal dictionary
       this.domainSpecificWords.forEach(word => {
@@ -188,7 +218,7 @@ export class SignalNameTypoRule implements ILinterRule {
     }
 
     // Skip if it's a known domain-specific word
-    if (this.domainSpecificWords.has(lowerWord)) {
+    if (this.domainSpecificWords.has(lowerWord) || this.extraWords.has(lowerWord)) {
       return null;
     }
 
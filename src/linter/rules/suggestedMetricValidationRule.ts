@@ -38,37 +38,7 @@ export class SuggestedMetricValidationRule implements ILinterRule {
     if (!unitNode) return null;
 
     const unit = jsonc.getNodeValue(unitNode);
-    let expectedUnitGroup: string[] | undefined;
-
-    // Match suggested metrics to their expected units
-    switch (signal.suggestedMetric) {
-      case 'odometer':
-      case 'electricRange':
-      case 'fuelRange':
-        expectedUnitGroup = unitGroups.DISTANCE_UNITS;
-        break;
-      case 'frontLeftTirePressure':
-      case 'frontRightTirePressure':
-      case 'rearLeftTirePressure':
-      case 'rearRightTirePressure':
-        expectedUnitGroup = unitGroups.PRESSURE_UNITS;
-        break;
-      case 'speed':
-        expectedUnitGroup = unitGroups.SPEED_UNITS;
-        break;
-      case 'starterBatteryVoltage':
-        expectedUnitGroup = unitGroups.VOLTAGE_UNITS;
-        break;
-      case 'fuelTankLevel':
-      case 'stateOfCharge':
-      case 'stateOfHealth':
-        expectedUnitGroup = ['percent', 'liters', 'gallons'];
-        break;
-      case 'isCharging':
-      case 'pluggedIn':
-        expectedUnitGroup = unitGroups.BINARY_STATE_UNITS;
-        break;
-    }
+    const expectedUnitGroup = unitGroups.getExpectedUnitsForSuggestedMetric(signal.suggestedMetric);
 
     // Check against expected unit group
     if (expectedUnitGroup && !expectedUnitGroup.includes(unit)) {
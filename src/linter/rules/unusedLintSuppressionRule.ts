@@ -0,0 +1,62 @@
+import * as jsonc from 'jsonc-parser';
+import { ILinterRule, LintResult, LintSeverity, LinterRuleConfig } from './rule';
+import { LintSuppression, getCommentRemovalEdit } from '../suppressions';
+
+/**
+ * Rule that flags obdb-lint-disable comments that no longer suppress anything
+ */
+export class UnusedLintSuppressionRule implements ILinterRule {
+  /**
+   * Gets the rule configuration
+   */
+  public getConfig(): LinterRuleConfig {
+    return {
+      id: 'unused-lint-suppression',
+      name: 'Unused Lint Suppression',
+      description: 'Suppression comments should only be kept while they silence a diagnostic',
+      severity: LintSeverity.Warning,
+      enabled: true,
+    };
+  }
+
+  /**
+   * Validates the suppression comments of a document
+   * @param suppressions The suppressions, after they have been applied to the document's results
+   * @param text The document text
+   */
+  public validateSuppressions(suppressions: LintSuppression[], text: string): LintResult[] | null {
+    const results: LintResult[] = [];
+
+    for (const suppression of suppressions) {
+      if (suppression.used) {
+        continue;
+      }
+
+      const commentText = text.substr(suppression.comment.offset, suppression.comment.length);
+      const node: jsonc.Node = {
+        type: 'string',
+        value: commentText,
+        offset: suppression.comment.offset,
+        length: suppression.comment.length
+      };
+      const rules = suppression.ruleIds.length > 0 ? suppression.ruleIds.join(', ') : 'any rule';
+
+      const edits = [getCommentRemovalEdit(text, suppression.comment)];
+      if (suppression.endComment) {
+        edits.unshift(getCommentRemovalEdit(text, suppression.endComment));
+      }
+
+      results.push({
+        ruleId: this.getConfig().id,
+        message: `Unused suppression: no diagnostics from ${rules} are reported here`,
+        node,
+        suggestion: {
+          title: 'Remove unused suppression comment',
+          edits
+        }
+      });
+    }
+
+    return results;
+  }
+}
@@ -1,7 +1,8 @@
-import * as vscode from 'vscode';
 import * as jsonc from 'jsonc-parser';
 import { RuleRegistry } from './ruleRegistry';
-import { LintResult, Signal, SignalGroup, Command, ILinterRule, getSeverity } from './rules/rule';
+import { LintResult, Signal, SignalGroup, Command } from './rules/rule';
+import { applySuppressions, parseSuppressions } from './suppressions';
+import { LintContext } from './lintContext';
 
 /**
  * Main signal linter class
@@ -44,14 +45,20 @@ export class SignalLinter {
    * @param command The parsed command object
    * @param commandNode The JSONC node for the command
    * @param signalsInCommand An array of signals belonging to this command, with their respective nodes
+   * @param context What is known about the signalset beyond its text
    */
-  public lintCommand(command: Command, commandNode: jsonc.Node, signalsInCommand: { signal: Signal, node: jsonc.Node }[]): LintResult[] {
+  public lintCommand(
+    command: Command,
+    commandNode: jsonc.Node,
+    signalsInCommand: { signal: Signal, node: jsonc.Node }[],
+    context: LintContext = {}
+  ): LintResult[] {
     const results: LintResult[] = [];
     const enabledRules = this.ruleRegistry.getEnabledRules();
 
     for (const rule of enabledRules) {
       if (rule.validateCommand) {
-        const ruleResult = rule.validateCommand(command, commandNode, signalsInCommand);
+        const ruleResult = rule.validateCommand(command, commandNode, signalsInCommand, context);
         if (ruleResult) {
           if (Array.isArray(ruleResult)) {
             results.push(...ruleResult);
@@ -103,44 +110,159 @@ export class SignalLinter {
   }
 
   /**
-   * Get the last lint results
+   * Lint a whole signalset: the document, the commands array, each command, each signal
+   * and each signal group, in that order.
+   * @param rootNode The root JSONC node for the entire document
+   * @param context What is known about the signalset beyond its text
    */
-  public getLastResults(): LintResult[] {
-    return this.lastResults;
+  public lintTree(rootNode: jsonc.Node, context: LintContext = {}): LintResult[] {
+    const results: LintResult[] = [];
+
+    try {
+      results.push(...this.lintDocument(rootNode));
+    } catch (err) {
+      console.error('Error running document-level linters:', err);
+    }
+
+    const commandsArrayNode = jsonc.findNodeAtLocation(rootNode, ['commands']);
+    if (commandsArrayNode && commandsArrayNode.type === 'array' && commandsArrayNode.children) {
+      try {
+        results.push(...this.lintCommands(commandsArrayNode));
+      } catch (err) {
+        console.error('Error linting commands array:', err);
+      }
+
+      for (const commandNode of commandsArrayNode.children) {
+        const signalsNode = jsonc.findNodeAtLocation(commandNode, ['signals']);
+        if (!signalsNode || signalsNode.type !== 'array' || !signalsNode.children) {
+          continue;
+        }
+
+        const signalsInCommand = signalsNode.children.map(signalNode => ({
+          signal: jsonc.getNodeValue(signalNode) as Signal,
+          node: signalNode
+        }));
+
+        try {
+          results.push(...this.lintCommand(jsonc.getNodeValue(commandNode), commandNode, signalsInCommand, context));
+        } catch (err) {
+          console.error('Error linting command:', err);
+        }
+
+        for (const { signal, node } of signalsInCommand) {
+          try {
+            results.push(...this.lintSignal(signal, node));
+          } catch (err) {
+            console.error('Error linting signal:', err);
+          }
+        }
+      }
+    }
+
+    // Most rules do not apply to signal groups, but UniqueSignalIdRule does
+    const signalGroupsArrayNode = jsonc.findNodeAtLocation(rootNode, ['signalGroups']);
+    if (signalGroupsArrayNode && signalGroupsArrayNode.type === 'array' && signalGroupsArrayNode.children) {
+      for (const signalGroupNode of signalGroupsArrayNode.children) {
+        try {
+          results.push(...this.lintSignal(jsonc.getNodeValue(signalGroupNode) as SignalGroup, signalGroupNode));
+        } catch (err) {
+          console.error('Error linting signal group:', err);
+        }
+      }
+    }
+
+    return results;
   }
 
   /**
-   * Set the last lint results
+   * Lint the text of a signalset file, honouring obdb-lint-disable comments
+   * @param text The JSONC content of the signalset
+   * @param context What is known about the signalset beyond its text
    */
-  public setLastResults(results: LintResult[]): void {
-    this.lastResults = results;
+  public lintText(text: string, context: LintContext = {}): LintResult[] {
+    const rootNode = jsonc.parseTree(text);
+    if (!rootNode) {
+      return [];
+    }
+
+    const suppressions = parseSuppressions(text);
+    const results = applySuppressions(this.lintTree(rootNode, context), suppressions);
+
+    // A suppression for rules that are all disabled has nothing to silence, so don't report it
+    const enabledRules = this.ruleRegistry.getEnabledRules();
+    const relevantSuppressions = suppressions.filter(suppression =>
+      suppression.ruleIds.length === 0 ||
+      suppression.ruleIds.some(ruleId => this.ruleRegistry.getRuleConfig(ruleId)?.enabled !== false)
+    );
+
+    for (const rule of enabledRules) {
+      if (rule.validateSuppressions) {
+        const ruleResult = rule.validateSuppressions(relevantSuppressions, text);
+        if (ruleResult) {
+          results.push(...ruleResult);
+        }
+      }
+    }
+
+    return results;
   }
 
   /**
-   * Convert lint results to VS Code diagnostics
+   * Apply the suggestion of every lint result to the text of a signalset. Fixing one issue can
+   * reveal another, so linting is repeated until no more suggestions apply.
+   * @param text The JSONC content of the signalset
+   * @param maxPasses The maximum number of lint/fix passes
+   * @param ruleIds Only apply the suggestions of these rules, defaults to every rule
+   * @param context What is known about the signalset beyond its text
+   * @returns The fixed text and the number of suggestions applied
    */
-  public toDiagnostics(document: vscode.TextDocument, results: LintResult[]): vscode.Diagnostic[] {
-    this.lastResults = results; // Store the results for the code action provider
+  public fixText(text: string, maxPasses: number = 10, ruleIds?: string[], context: LintContext = {}): { text: string, fixCount: number } {
+    let fixCount = 0;
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+      const edits = this.lintText(text, context)
+        .filter(result => !ruleIds || ruleIds.includes(result.ruleId))
+        .filter(result => result.suggestion && result.suggestion.edits.length > 0)
+        .map(result => result.suggestion!.edits);
 
-    return results.map(result => {
-      const rule = this.ruleRegistry.getRuleById(result.ruleId);
-      if (!rule) {
-        throw new Error(`Rule not found: ${result.ruleId}`);
+      // Apply whole suggestions from the end of the document so earlier offsets stay valid,
+      // skipping any suggestion that overlaps one already applied in this pass
+      edits.sort((a, b) => Math.max(...b.map(e => e.offset)) - Math.max(...a.map(e => e.offset)));
+      let appliedInPass = 0;
+      let lowestAppliedOffset = Infinity;
+
+      for (const suggestionEdits of edits) {
+        const sortedEdits = [...suggestionEdits].sort((a, b) => b.offset - a.offset);
+        if (sortedEdits[0].offset + sortedEdits[0].length > lowestAppliedOffset) {
+          continue;
+        }
+        for (const edit of sortedEdits) {
+          text = text.substring(0, edit.offset) + edit.newText + text.substring(edit.offset + edit.length);
+        }
+        lowestAppliedOffset = sortedEdits[sortedEdits.length - 1].offset;
+        appliedInPass++;
       }
 
-      const startPos = document.positionAt(result.node.offset);
-      const endPos = document.positionAt(result.node.offset + result.node.length);
+      if (appliedInPass === 0) {
+        break;
+      }
+      fixCount += appliedInPass;
+    }
 
-      const diagnostic = new vscode.Diagnostic(
-        new vscode.Range(startPos, endPos),
-        result.message,
-        getSeverity(rule.getConfig().severity)
-      );
+    return { text, fixCount };
+  }
 
-      diagnostic.code = result.ruleId;
-      diagnostic.source = 'obdb-signal-linter';
+  /**
+   * Get the last lint results
+   */
+  public getLastResults(): LintResult[] {
+    return this.lastResults;
+  }
 
-      return diagnostic;
-    });
+  /**
+   * Set the last lint results
+   */
+  public setLastResults(results: LintResult[]): void {
+    this.lastResults = results;
   }
-}
\ No newline at end of file
+}
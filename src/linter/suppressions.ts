@@ -0,0 +1,149 @@
+import * as jsonc from 'jsonc-parser';
+import { LintResult } from './rules/rule';
+
+/**
+ * A region of a signalset in which some or all lint rules are silenced by a comment:
+ *   // obdb-lint-disable-next-line <ruleId>[, <ruleId>...]
+ *   /* obdb-lint-disable <ruleId>[, <ruleId>...] *\/ ... /* obdb-lint-enable *\/
+ * When the next line starts an object or array, such as a multi-line signal, the
+ * next-line form covers the whole value.
+ */
+export interface LintSuppression {
+  kind: 'next-line' | 'block';
+  /** Rules being suppressed; empty means every rule */
+  ruleIds: string[];
+  /** The disable comment */
+  comment: { offset: number, length: number };
+  /** The matching enable comment of a block, if any */
+  endComment?: { offset: number, length: number };
+  /** Offset range whose results are suppressed */
+  start: number;
+  end: number;
+  /** Whether the suppression silenced at least one result */
+  used: boolean;
+}
+
+const DIRECTIVE_PATTERN = /^(?:\/\/|\/\*)\s*obdb-lint-(disable-next-line|disable|enable)\b([^*]*)(?:\*\/)?$/;
+
+/**
+ * Splits the rule list of a directive such as "rule-a, rule-b" into rule IDs
+ */
+function parseRuleIds(text: string): string[] {
+  return text.split(/[\s,]+/).filter(ruleId => ruleId.length > 0);
+}
+
+/**
+ * Finds every suppression comment in a signalset
+ * @param text The JSONC content of the signalset
+ * @returns The suppressions, in document order
+ */
+export function parseSuppressions(text: string): LintSuppression[] {
+  const suppressions: LintSuppression[] = [];
+  const openBlocks: LintSuppression[] = [];
+  const rootNode = jsonc.parseTree(text);
+
+  jsonc.visit(text, {
+    onComment: (offset: number, length: number) => {
+      const match = text.substr(offset, length).trim().match(DIRECTIVE_PATTERN);
+      if (!match) {
+        return;
+      }
+
+      const directive = match[1];
+      const ruleIds = parseRuleIds(match[2]);
+      const comment = { offset, length };
+
+      if (directive === 'disable-next-line') {
+        const nextLineStart = text.indexOf('\n', offset + length);
+        if (nextLineStart === -1) {
+          return;
+        }
+        const nextLineEnd = text.indexOf('\n', nextLineStart + 1);
+        let end = nextLineEnd === -1 ? text.length : nextLineEnd;
+
+        const valueStart = nextLineStart + 1 + (text.substring(nextLineStart + 1).match(/^[ \t]*/)?.[0].length ?? 0);
+        const valueNode = rootNode ? jsonc.findNodeAtOffset(rootNode, valueStart) : undefined;
+        if (valueNode && valueNode.offset === valueStart && (valueNode.type === 'object' || valueNode.type === 'array')) {
+          end = Math.max(end, valueNode.offset + valueNode.length);
+        }
+
+        suppressions.push({
+          kind: 'next-line',
+          ruleIds,
+          comment,
+          start: nextLineStart + 1,
+          end,
+          used: false
+        });
+      } else if (directive === 'disable') {
+        const block: LintSuppression = {
+          kind: 'block',
+          ruleIds,
+          comment,
+          start: offset + length,
+          end: text.length,
+          used: false
+        };
+        suppressions.push(block);
+        openBlocks.push(block);
+      } else {
+        // An enable without rule IDs closes every open block, otherwise only the blocks naming those rules
+        for (let i = openBlocks.length - 1; i >= 0; i--) {
+          const block = openBlocks[i];
+          if (ruleIds.length === 0 || block.ruleIds.some(ruleId => ruleIds.includes(ruleId))) {
+            block.end = offset;
+            block.endComment = comment;
+            openBlocks.splice(i, 1);
+          }
+        }
+      }
+    }
+  });
+
+  return suppressions;
+}
+
+/**
+ * Removes the lint results that are silenced by a suppression, marking those suppressions as used
+ * @param results The lint results
+ * @param suppressions The suppressions in the same document
+ * @returns The results that are not suppressed
+ */
+export function applySuppressions(results: LintResult[], suppressions: LintSuppression[]): LintResult[] {
+  if (suppressions.length === 0) {
+    return results;
+  }
+
+  return results.filter(result => {
+    let suppressed = false;
+    for (const suppression of suppressions) {
+      const inRange = result.node.offset >= suppression.start && result.node.offset < suppression.end;
+      const matchesRule = suppression.ruleIds.length === 0 || suppression.ruleIds.includes(result.ruleId);
+      if (inRange && matchesRule) {
+        suppression.used = true;
+        suppressed = true;
+      }
+    }
+    return !suppressed;
+  });
+}
+
+/**
+ * Gets the edit that removes a comment, including its whole line when nothing else is on it
+ * @param text The document text
+ * @param comment The comment's offset and length
+ */
+export function getCommentRemovalEdit(text: string, comment: { offset: number, length: number }): { newText: string, offset: number, length: number } {
+  const lineStart = text.lastIndexOf('\n', comment.offset - 1) + 1;
+  const lineEndIndex = text.indexOf('\n', comment.offset + comment.length);
+  const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+
+  const before = text.substring(lineStart, comment.offset);
+  const after = text.substring(comment.offset + comment.length, lineEnd);
+  if (before.trim() === '' && after.trim() === '') {
+    const removeTo = lineEndIndex === -1 ? text.length : lineEndIndex + 1;
+    return { newText: '', offset: lineStart, length: removeTo - lineStart };
+  }
+
+  return { newText: '', offset: comment.offset, length: comment.length };
+}
@@ -181,6 +181,37 @@ export const MISC_UNITS = [
   'unknown'
 ];
 
+/**
+ * Units expected for signals with a given suggested metric
+ */
+export const SUGGESTED_METRIC_UNITS: { [suggestedMetric: string]: string[] } = {
+  odometer: DISTANCE_UNITS,
+  electricRange: DISTANCE_UNITS,
+  fuelRange: DISTANCE_UNITS,
+  frontLeftTirePressure: PRESSURE_UNITS,
+  frontRightTirePressure: PRESSURE_UNITS,
+  rearLeftTirePressure: PRESSURE_UNITS,
+  rearRightTirePressure: PRESSURE_UNITS,
+  speed: SPEED_UNITS,
+  starterBatteryVoltage: VOLTAGE_UNITS,
+  fuelTankLevel: ['percent', 'liters', 'gallons'],
+  stateOfCharge: ['percent', 'liters', 'gallons'],
+  stateOfHealth: ['percent', 'liters', 'gallons'],
+  isCharging: BINARY_STATE_UNITS,
+  pluggedIn: BINARY_STATE_UNITS
+};
+
+/**
+ * Get the units a suggested metric expects
+ * @param suggestedMetric The suggested metric
+ * @returns The expected units, or undefined if the metric places no constraint on units
+ */
+export function getExpectedUnitsForSuggestedMetric(suggestedMetric: string): string[] | undefined {
+  return Object.prototype.hasOwnProperty.call(SUGGESTED_METRIC_UNITS, suggestedMetric)
+    ? SUGGESTED_METRIC_UNITS[suggestedMetric]
+    : undefined;
+}
+
 /**
  * Check if a unit belongs to a specific unit group
  * @param unit Unit to check
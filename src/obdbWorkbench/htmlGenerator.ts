@@ -1,6 +1,8 @@
 import { Signal } from '../types';
 import { escapeHtml, formatBitRange } from './utils';
 import { createBitToSignalMap, generateSignalColors, getUniqueSignals } from './signalExtractor';
+import { DecodedResponse } from './responseDecoder';
+import { calculateFormulaRange } from '../utils/signalFormula';
 
 /**
  * Determines if text should be white or black based on background color brightness
@@ -36,59 +38,13 @@ function toAlphabetic(num: number): string {
   return result;
 }
 
-/**
- * Calculate the minimum and maximum value ranges for a signal based on the formula
- * @param signal The signal to calculate ranges for
- * @returns An object containing min and max values or undefined if formula parameters are not available
- */
-function calculateFormulaRange(signal: any): { min: number, max: number } | undefined {
-  // Extract formula parameters (mul, div, add) from the signal's fmt property
-  if (!signal.fmt) {
-    return undefined;
-  }
-
-  const mul = signal.fmt.mul || 1;
-  const div = signal.fmt.div || 1;
-  const add = signal.fmt.add || 0;
-  const len = signal.fmt.len;
-  const isSigned = signal.fmt.sign === true;
-
-  // If no length specified, we can't calculate the range
-  if (typeof len !== 'number') {
-    return undefined;
-  }
-
-  // Calculate the min and max possible raw values based on bit length
-  let minRawValue: number;
-  let maxRawValue: number;
-
-  if (isSigned) {
-    // For signed values, min is -2^(len-1) and max is 2^(len-1)-1
-    minRawValue = -Math.pow(2, len - 1);
-    maxRawValue = Math.pow(2, len - 1) - 1;
-  } else {
-    // For unsigned values, min is 0 and max is 2^len-1
-    minRawValue = 0;
-    maxRawValue = Math.pow(2, len) - 1;
-  }
-
-  // Calculate the range using the formula: x = v * mul / div + add
-  const minPossibleValue = (minRawValue * mul / div) + add;
-  const maxPossibleValue = (maxRawValue * mul / div) + add;
-
-  // Return the range, rounded to 6 decimal places for display
-  return {
-    min: Number(minPossibleValue.toFixed(6)),
-    max: Number(maxPossibleValue.toFixed(6))
-  };
-}
-
 /**
  * Generate HTML for bitmap visualization table
  */
 export function generateBitmapHtml(command: any, signals: Signal[]): string {
   try {
-    if (signals.length === 0) {
+    // An empty signals array still gets a grid so that signals can be added to it
+    if (signals.length === 0 && !Array.isArray(command.signals)) {
       return '<div class="no-signals">No bit mappings found in this command</div>';
     }
 
@@ -97,8 +53,8 @@ export function generateBitmapHtml(command: any, signals: Signal[]): string {
       return Math.max(max, signal.bitOffset + signal.bitLength);
     }, 0);
 
-    // Calculate how many bytes we need to display (minimum 1 byte)
-    const bytesNeeded = Math.max(1, Math.ceil(maxBitRange / 8));
+    // Calculate how many bytes we need to display, plus a spare byte to drag signals into
+    const bytesNeeded = Math.ceil(maxBitRange / 8) + 1;
 
     // Map of bits to signals
     const bitToSignalMap = createBitToSignalMap(signals);
@@ -126,8 +82,16 @@ export function generateBitmapHtml(command: any, signals: Signal[]): string {
     // Create a flexible container for the bit grid and legend
     html += '<div class="bitmap-content-container">';
 
+    // Signal ranges by index in the signals array, for drag-to-edit in the webview
+    const editableSignals = signals.map((signal, index) => ({
+      index,
+      id: signal.id,
+      bix: signal.bitOffset,
+      len: signal.bitLength
+    }));
+
     // Add bit grid table
-    html += '<div class="bit-grid">';
+    html += `<div class="bit-grid" data-signals="${escapeHtml(JSON.stringify(editableSignals))}">`;
     html += '<table>';
 
     // Table header with bit indices
@@ -156,7 +120,7 @@ export function generateBitmapHtml(command: any, signals: Signal[]): string {
           // Bit is mapped to a signal
           const color = signalColors[signal.id];
           const textColor = getContrastTextColor(color);
-          html += `<td class="bit-cell signal-bit" data-signal-id="${signal.id}" data-numeric="${absoluteBitIndex}" data-alphabetic="${alphabeticBitIndex}" style="background-color: ${color}; color: ${textColor};">${absoluteBitIndex}</td>`;
+          html += `<td class="bit-cell signal-bit" data-signal-id="${signal.id}" data-signal-index="${signals.indexOf(signal)}" data-numeric="${absoluteBitIndex}" data-alphabetic="${alphabeticBitIndex}" style="background-color: ${color}; color: ${textColor};">${absoluteBitIndex}</td>`;
         } else {
           // Unused bit
           html += `<td class="bit-cell" data-numeric="${absoluteBitIndex}" data-alphabetic="${alphabeticBitIndex}">${absoluteBitIndex}</td>`;
@@ -166,6 +130,7 @@ export function generateBitmapHtml(command: any, signals: Signal[]): string {
       html += '</tr>';
     }
     html += '</tbody></table>';
+    html += '<div class="drag-status" id="drag-status">Click a signal to select it, then drag its first or last bit to resize it. Drag across unused bits to add a signal.</div>';
     html += '</div>';
 
     // Add signal legend
@@ -279,6 +244,40 @@ export function generateBitmapHtml(command: any, signals: Signal[]): string {
         min-width: 300px;
       }
 
+      .bit-grid td.bit-cell {
+        cursor: pointer;
+        user-select: none;
+      }
+
+      .bit-grid td.selected {
+        outline: 2px solid var(--vscode-focusBorder);
+        outline-offset: -2px;
+      }
+
+      .bit-grid td.drag-handle {
+        cursor: ew-resize;
+        box-shadow: inset 0 -4px 0 var(--vscode-focusBorder);
+      }
+
+      .bit-grid td.drag-preview {
+        outline: 2px dashed var(--vscode-focusBorder);
+        outline-offset: -2px;
+      }
+
+      .bit-grid td.drag-overlap {
+        background-image: repeating-linear-gradient(45deg, var(--vscode-errorForeground) 0 3px, transparent 3px 6px);
+      }
+
+      .drag-status {
+        margin-top: 8px;
+        font-size: 0.85em;
+        color: var(--vscode-descriptionForeground);
+      }
+
+      .drag-status.overlap {
+        color: var(--vscode-errorForeground);
+      }
+
       .signal-legend {
         flex: 0 1 300px;
         min-width: 250px;
@@ -317,4 +316,51 @@ export function generateBitmapHtml(command: any, signals: Signal[]): string {
     console.error('Error generating bitmap HTML:', error);
     return '<div class="error">Error generating OBDb workbench</div>';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a decoded or expected value for display
+ */
+function formatDecodedValue(value: any, unit?: string): string {
+  if (value === undefined || value === null) {
+    return '<span class="no-value">—</span>';
+  }
+  const text = typeof value === 'string' ? JSON.stringify(value) : String(value);
+  return escapeHtml(text) + (unit && unit !== 'ascii' ? ` <span class="value-unit">${escapeHtml(unit)}</span>` : '');
+}
+
+/**
+ * Generate HTML for a table of decoded signal values
+ * @param decoded The decoded response
+ * @param showExpected Whether to include the expected value column
+ */
+export function generateDecodedTableHtml(decoded: DecodedResponse, showExpected: boolean): string {
+  let html = '';
+
+  if (decoded.errors.length > 0) {
+    html += '<ul class="decode-errors">' +
+      decoded.errors.map(error => `<li>${escapeHtml(error)}</li>`).join('') +
+      '</ul>';
+  }
+
+  if (decoded.rows.length === 0) {
+    return html;
+  }
+
+  html += '<table class="decoded-values">';
+  html += '<thead><tr><th>Signal</th><th>Decoded</th>' + (showExpected ? '<th>Expected</th>' : '') + '</tr></thead>';
+  html += '<tbody>';
+  for (const row of decoded.rows) {
+    const rowClass = row.matches ? '' : ' class="mismatch"';
+    html += `<tr${rowClass} data-signal-id="${escapeHtml(row.id)}">`;
+    html += `<td><span class="signal-name">${escapeHtml(row.name)}</span> <span class="signal-bits">${escapeHtml(row.id)}</span></td>`;
+    html += `<td>${formatDecodedValue(row.actual, row.unit)}</td>`;
+    if (showExpected) {
+      html += `<td>${row.hasExpected ? formatDecodedValue(row.expected, row.unit) : '<span class="no-value">not tested</span>'}</td>`;
+    }
+    html += '</tr>';
+  }
+  html += '</tbody></table>';
+
+  return html;
+}
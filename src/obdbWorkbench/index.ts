@@ -9,5 +9,6 @@ export { createVisualizationProvider } from './provider';
 // Export other useful components for external use
 export { getWebviewContent } from './webviewContent';
 export { extractSignals, createBitToSignalMap, generateSignalColors, getUniqueSignals } from './signalExtractor';
-export { generateBitmapHtml } from './htmlGenerator';
+export { generateBitmapHtml, generateDecodedTableHtml } from './htmlGenerator';
+export { decodeResponseForCommand } from './responseDecoder';
 export { escapeHtml, formatBitRange } from './utils';
\ No newline at end of file
@@ -1,14 +1,22 @@
 import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
 import { isPositionInCommand, getSampleCommandResponses, generateCommandIdFromDefinition } from '../utils/commandParser';
+import { getActiveWorkspaceRoot, getWorkspaceRoot } from '../utils/workspaceFolders';
 import { extractSignals } from './signalExtractor';
-import { generateBitmapHtml } from './htmlGenerator';
+import { generateBitmapHtml, generateDecodedTableHtml } from './htmlGenerator';
 import { getWebviewContent } from './webviewContent';
+import { decodeResponseForCommand } from './responseDecoder';
+import { computeSignalRangeEdits, computeSignalStubEdit } from './signalEdits';
 
 // Track webview panel and state
 let visualizationPanel: vscode.WebviewPanel | undefined;
 let currentCommand: any | undefined;
+// Offset of the current command's opening brace in the source document, undefined for single-command documents
+let currentCommandOffset: number | undefined;
 // Track which document created the visualization
 let sourceDocument: vscode.TextDocument | undefined;
+// Response pasted into the workbench, kept so it is re-decoded as the command is edited
+let customResponse = { response: '', canIdFormat: '11bit', extendedAddressing: false };
 
 // Cancellation and debouncing for heavy processing
 let currentCancellationTokenSource: vscode.CancellationTokenSource | undefined;
@@ -176,6 +184,16 @@ function createOrShowVisualizationPanel() {
     }
   );
 
+  visualizationPanel.webview.onDidReceiveMessage(
+    message => {
+      handleWebviewMessage(message).catch(error => {
+        console.error('Error handling workbench message:', error);
+      });
+    },
+    null,
+    []
+  );
+
   // Handle panel disposal
   visualizationPanel.onDidDispose(
     () => {
@@ -186,6 +204,106 @@ function createOrShowVisualizationPanel() {
   );
 }
 
+/**
+ * Handle a message posted by the workbench webview
+ */
+async function handleWebviewMessage(message: any): Promise<void> {
+  switch (message.command) {
+    case 'decodeResponse':
+      // Decode responses typed into the workbench against the command being edited
+      customResponse = {
+        response: String(message.response || ''),
+        canIdFormat: message.canIdFormat === '29bit' ? '29bit' : '11bit',
+        extendedAddressing: message.extendedAddressing === true
+      };
+      visualizationPanel?.webview.postMessage({
+        command: 'decodedResponse',
+        html: decodeCustomResponse(currentCommand)
+      });
+      break;
+
+    case 'updateSignalRange':
+      if (isBitRange(message) && Number.isInteger(message.signalIndex)) {
+        await applySignalEdits(text => computeSignalRangeEdits(text, currentCommandOffset, message.signalIndex, message.bix, message.len));
+      }
+      break;
+
+    case 'createSignal':
+      if (isBitRange(message)) {
+        await applySignalEdits(text => {
+          const stub = computeSignalStubEdit(text, currentCommandOffset, message.bix, message.len);
+          return stub && [stub.edit];
+        });
+      }
+      break;
+  }
+}
+
+/**
+ * Checks that a webview message carries a usable bix and len
+ */
+function isBitRange(message: any): boolean {
+  return Number.isInteger(message.bix) && message.bix >= 0 && Number.isInteger(message.len) && message.len >= 1;
+}
+
+/**
+ * Apply edits to the command being visualized, then refresh the workbench
+ * Edits are applied directly because the webview has focus, so no editor selection change follows them
+ * @param computeEdits Computes the edits from the source document's text
+ */
+async function applySignalEdits(computeEdits: (text: string) => jsonc.Edit[] | undefined): Promise<void> {
+  const document = sourceDocument;
+  if (!document || !currentCommand) {
+    return;
+  }
+
+  const edits = computeEdits(document.getText());
+  if (!edits) {
+    vscode.window.showWarningMessage('Could not update the signalset; the command may have changed since the workbench was drawn.');
+    return;
+  }
+  if (edits.length === 0) {
+    return;
+  }
+
+  const workspaceEdit = new vscode.WorkspaceEdit();
+  for (const edit of edits) {
+    workspaceEdit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length)),
+      edit.content
+    );
+  }
+  if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+    return;
+  }
+
+  // The command starts where it did before the edit, so look it up again from there
+  const commandCheck = isPositionInCommand(document, document.positionAt((currentCommandOffset ?? 0) + 1));
+  if (commandCheck.isCommand && commandCheck.commandObject) {
+    currentCommand = commandCheck.commandObject;
+    cancelCurrentOperations();
+    currentCancellationTokenSource = new vscode.CancellationTokenSource();
+    await updateVisualizationPanel(currentCommand, currentCancellationTokenSource.token).catch(error => {
+      if (!(error instanceof vscode.CancellationError)) {
+        throw error;
+      }
+    });
+  }
+}
+
+/**
+ * Decodes the response pasted into the workbench with the given command
+ * @returns HTML for the decoded values, or an empty string if nothing was pasted
+ */
+function decodeCustomResponse(command: any): string {
+  if (!command || customResponse.response.trim() === '') {
+    return '';
+  }
+  const decoded = decodeResponseForCommand(command, customResponse.response, customResponse);
+  return generateDecodedTableHtml(decoded, false);
+}
+
 /**
  * Update visualization based on changed document
  */
@@ -232,6 +350,7 @@ async function updateVisualizationFromPosition(editor: vscode.TextEditor, positi
       // We're in a command definition, store the command
       const command = commandCheck.commandObject;
       currentCommand = command;
+      currentCommandOffset = commandCheck.range ? editor.document.offsetAt(commandCheck.range.start) : undefined;
 
       // If panel exists, update it with cancellation token
       if (visualizationPanel) {
@@ -295,14 +414,24 @@ export async function updateVisualizationPanel(command: any, cancellationToken?:
     throw new vscode.CancellationError();
   }
 
-  // Fetch sample responses if we have a command ID - this is the most expensive operation
-  const sampleResponses = fullCommandId ? await getSampleCommandResponses(fullCommandId, cancellationToken) : [];
+  // Fetch sample responses from the source document's repository if we have a command ID - this is the most expensive operation
+  const workspaceRoot = sourceDocument ? getWorkspaceRoot(sourceDocument.uri) : getActiveWorkspaceRoot();
+  const sampleResponses = fullCommandId ? await getSampleCommandResponses(fullCommandId, workspaceRoot, cancellationToken) : [];
 
   // Final cancellation check before updating UI
   if (cancellationToken?.isCancellationRequested) {
     throw new vscode.CancellationError();
   }
 
+  // Decode every sample with the command's current signals so fmt edits show up immediately
+  const decodedSamples = sampleResponses.map(sample => {
+    const decoded = decodeResponseForCommand(command, sample.response, {
+      canIdFormat: sample.canIdFormat,
+      extendedAddressing: sample.extendedAddressing
+    }, sample.expectedValues);
+    return { ...sample, decodedHtml: generateDecodedTableHtml(decoded, true) };
+  });
+
   // Update the webview content
   visualizationPanel!.webview.html = getWebviewContent(
     bitmapHtml,
@@ -311,6 +440,7 @@ export async function updateVisualizationPanel(command: any, cancellationToken?:
     commandHeader,
     commandDisplay,
     command.description || '',
-    sampleResponses
+    decodedSamples,
+    { ...customResponse, decodedHtml: decodeCustomResponse(command) }
   );
 }
\ No newline at end of file
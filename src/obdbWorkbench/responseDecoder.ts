@@ -0,0 +1,69 @@
+import { decodeCommandResponse, DecodedValue, DecoderOptions } from '../utils/signalDecoder';
+import { valuesMatch } from '../utils/testCaseRunner';
+
+/**
+ * A signal's decoded value, alongside the value a test case expects
+ */
+export interface DecodedSignalRow {
+  id: string;
+  name: string;
+  unit?: string;
+  actual: DecodedValue | undefined;
+  expected?: any;
+  /** Whether the test case lists an expected value for this signal */
+  hasExpected: boolean;
+  matches: boolean;
+}
+
+/**
+ * A response decoded against the command being edited
+ */
+export interface DecodedResponse {
+  rows: DecodedSignalRow[];
+  errors: string[];
+  ecu?: string;
+}
+
+/**
+ * Decodes a response with the command's current signal definitions
+ * @param command The command being edited
+ * @param response The raw response, one CAN frame per line
+ * @param options How the response was captured
+ * @param expectedValues The values a test case expects, if any
+ * @returns One row per signal, plus expected values that no signal produces
+ */
+export function decodeResponseForCommand(
+  command: any,
+  response: string,
+  options: DecoderOptions,
+  expectedValues?: Record<string, any>
+): DecodedResponse {
+  if (!command?.cmd) {
+    return { rows: [], errors: ['Command has no cmd to match the response against'] };
+  }
+
+  const decoded = decodeCommandResponse(command, response, options);
+  const expected = expectedValues || {};
+  const rows: DecodedSignalRow[] = (command.signals || []).map((signal: any) => {
+    const hasExpected = Object.prototype.hasOwnProperty.call(expected, signal.id);
+    const actual = decoded.values[signal.id];
+    return {
+      id: signal.id,
+      name: signal.name || signal.id,
+      unit: signal.fmt?.unit,
+      actual,
+      expected: expected[signal.id],
+      hasExpected,
+      matches: !hasExpected || valuesMatch(expected[signal.id], actual)
+    };
+  });
+
+  // Expected values for signals the command no longer defines are mismatches too
+  for (const [signalId, value] of Object.entries(expected)) {
+    if (!rows.some(row => row.id === signalId)) {
+      rows.push({ id: signalId, name: signalId, actual: undefined, expected: value, hasExpected: true, matches: false });
+    }
+  }
+
+  return { rows, errors: decoded.errors, ecu: decoded.ecu };
+}
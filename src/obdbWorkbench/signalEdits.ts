@@ -0,0 +1,169 @@
+/**
+ * VSCode-independent edits for changing signal bit ranges in a signalset
+ * Can be used by both the VSCode extension and CLI tools
+ *
+ * Edits touch only the characters that change so that the one-line-per-signal
+ * layout of signalsets survives a drag in the workbench.
+ */
+
+import * as jsonc from 'jsonc-parser';
+
+/**
+ * Finds the command object that starts at the given offset
+ * @param root The parsed signalset
+ * @param commandOffset Offset of the command's opening brace, or undefined if the document is a single command
+ */
+function findCommandNode(root: jsonc.Node, commandOffset: number | undefined): jsonc.Node | undefined {
+  if (commandOffset === undefined) {
+    return jsonc.findNodeAtLocation(root, ['signals']) ? root : undefined;
+  }
+
+  const commands = jsonc.findNodeAtLocation(root, ['commands']);
+  return commands?.children?.find(command => command.offset === commandOffset);
+}
+
+/**
+ * Gets the whitespace that starts the line containing the given offset
+ */
+function getLineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))![0];
+}
+
+/**
+ * Computes the edits that move a signal to a new bit range
+ * @param text The signalset text
+ * @param commandOffset Offset of the command's opening brace, or undefined if the document is a single command
+ * @param signalIndex Index of the signal in the command's signals array
+ * @param bix The new first bit
+ * @param len The new bit length
+ * @returns The edits, or undefined if the signal could not be found
+ */
+export function computeSignalRangeEdits(
+  text: string,
+  commandOffset: number | undefined,
+  signalIndex: number,
+  bix: number,
+  len: number
+): jsonc.Edit[] | undefined {
+  const root = jsonc.parseTree(text);
+  const command = root && findCommandNode(root, commandOffset);
+  const fmtNode = command && jsonc.findNodeAtLocation(command, ['signals', signalIndex, 'fmt']);
+  if (!fmtNode || fmtNode.type !== 'object') {
+    return undefined;
+  }
+
+  const bixNode = jsonc.findNodeAtLocation(fmtNode, ['bix']);
+  const lenNode = jsonc.findNodeAtLocation(fmtNode, ['len']);
+  const edits: jsonc.Edit[] = [];
+
+  if (bixNode && bixNode.value !== bix) {
+    edits.push({ offset: bixNode.offset, length: bixNode.length, content: String(bix) });
+  }
+  if (lenNode && lenNode.value !== len) {
+    edits.push({ offset: lenNode.offset, length: lenNode.length, content: String(len) });
+  }
+
+  // Missing properties are inserted as a pair at the front, bix ahead of len as
+  // signalsets write them; an omitted bix already means 0
+  const missing: string[] = [];
+  if (!bixNode && bix !== 0) {
+    missing.push(`"bix": ${bix}`);
+  }
+  if (!lenNode) {
+    missing.push(`"len": ${len}`);
+  }
+  if (missing.length > 0) {
+    if (bixNode && !lenNode) {
+      edits.push({ offset: bixNode.parent!.offset + bixNode.parent!.length, length: 0, content: `, ${missing.join(', ')}` });
+    } else {
+      const firstProperty = fmtNode.children?.[0];
+      edits.push({
+        offset: firstProperty ? firstProperty.offset : fmtNode.offset + 1,
+        length: 0,
+        content: missing.join(', ') + (firstProperty ? ', ' : '')
+      });
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Picks a signal ID for a new stub that no other signal in the command uses
+ */
+function getUniqueStubId(command: jsonc.Node): string {
+  const signals = jsonc.findNodeAtLocation(command, ['signals']);
+  const usedIds = new Set((signals?.children || []).map(signal => jsonc.findNodeAtLocation(signal, ['id'])?.value));
+
+  let id = 'NEW_SIGNAL';
+  for (let suffix = 2; usedIds.has(id); suffix++) {
+    id = `NEW_SIGNAL_${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Computes the edit that appends a signal stub covering the given bits
+ * @param text The signalset text
+ * @param commandOffset Offset of the command's opening brace, or undefined if the document is a single command
+ * @param bix The stub's first bit
+ * @param len The stub's bit length
+ * @returns The edit and the new signal's ID, or undefined if the command has no signals array
+ */
+export function computeSignalStubEdit(
+  text: string,
+  commandOffset: number | undefined,
+  bix: number,
+  len: number
+): { edit: jsonc.Edit, signalId: string } | undefined {
+  const root = jsonc.parseTree(text);
+  const command = root && findCommandNode(root, commandOffset);
+  const signals = command && jsonc.findNodeAtLocation(command, ['signals']);
+  if (!command || !signals || signals.type !== 'array') {
+    return undefined;
+  }
+
+  const signalId = getUniqueStubId(command);
+  const fmt = bix === 0 ? `{"len": ${len}}` : `{"bix": ${bix}, "len": ${len}}`;
+  const properties: Array<[string, string]> = [
+    ['id', JSON.stringify(signalId)],
+    ['path', '""'],
+    ['fmt', fmt],
+    ['name', '"New signal"']
+  ];
+
+  const lastSignal = signals.children?.[signals.children.length - 1];
+  if (!lastSignal) {
+    // Empty array: open it onto its own line, one level deeper than the command
+    const commandIndent = getLineIndent(text, command.offset);
+    const signalsIndent = getLineIndent(text, signals.offset);
+    const step = signalsIndent.length > commandIndent.length ? signalsIndent.slice(commandIndent.length) : '  ';
+    const line = '{' + properties.map(([key, value]) => `"${key}": ${value}`).join(', ') + '}';
+    return {
+      signalId,
+      edit: {
+        offset: signals.offset,
+        length: signals.length,
+        content: `[\n${signalsIndent}${step}${line}\n${signalsIndent}]`
+      }
+    };
+  }
+
+  const indent = getLineIndent(text, lastSignal.offset);
+  const lastSignalText = text.slice(lastSignal.offset, lastSignal.offset + lastSignal.length);
+  let stub: string;
+  if (lastSignalText.includes('\n')) {
+    // Multi-line signals: one property per line, indented like the previous signal's first property
+    const firstProperty = lastSignal.children?.[0];
+    const propertyIndent = firstProperty ? getLineIndent(text, firstProperty.offset) : `${indent}  `;
+    stub = '{\n' + properties.map(([key, value]) => `${propertyIndent}"${key}": ${value}`).join(',\n') + `\n${indent}}`;
+  } else {
+    stub = '{' + properties.map(([key, value]) => `"${key}": ${value}`).join(', ') + '}';
+  }
+
+  return {
+    signalId,
+    edit: { offset: lastSignal.offset + lastSignal.length, length: 0, content: `,\n${indent}${stub}` }
+  };
+}
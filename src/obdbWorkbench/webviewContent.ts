@@ -1,4 +1,22 @@
 import { escapeHtml } from './utils';
+import { SampleCommandResponse } from '../utils/commandParser';
+
+/**
+ * A sample response along with its decoded values table
+ */
+export interface DecodedSample extends SampleCommandResponse {
+  decodedHtml: string;
+}
+
+/**
+ * The free-form response the user is decoding, and how it was captured
+ */
+export interface CustomResponseDecode {
+  response: string;
+  canIdFormat: string;
+  extendedAddressing: boolean;
+  decodedHtml: string;
+}
 
 /**
  * Generate webview HTML content
@@ -10,8 +28,10 @@ export function getWebviewContent(
   commandHeader: string,
   commandDisplay: string,
   description: string,
-  sampleResponses?: Array<{modelYear: string, response: string, expectedValues?: Record<string, any>}>
+  sampleResponses?: DecodedSample[],
+  customDecode?: CustomResponseDecode
 ): string {
+  const canIdFormat = customDecode?.canIdFormat || '11bit';
   return '<!DOCTYPE html>' +
     '<html lang="en">' +
     '<head>' +
@@ -243,18 +263,69 @@ export function getWebviewContent(
     'overflow-wrap: break-word;' +
     'white-space: pre;' +
     '}' +
-    '.expected-values {' +
+    '.decoded-values {' +
     'margin-top: 8px;' +
+    'border-collapse: collapse;' +
+    'width: 100%;' +
     'font-size: 0.9em;' +
+    '}' +
+    '.decoded-values th {' +
+    'text-align: left;' +
+    'font-weight: 600;' +
     'color: var(--vscode-descriptionForeground);' +
+    'border-bottom: 1px solid var(--vscode-panel-border);' +
+    'padding: 4px 8px;' +
     '}' +
-    '.expected-value {' +
-    'display: inline-block;' +
-    'margin-right: 10px;' +
-    'margin-bottom: 5px;' +
-    'padding: 2px 6px;' +
-    'background-color: var(--vscode-editorInlayHint-background);' +
+    '.decoded-values td {' +
+    'padding: 4px 8px;' +
+    'border-bottom: 1px solid var(--vscode-panel-border);' +
+    'font-family: var(--vscode-editor-font-family), monospace;' +
+    '}' +
+    '.decoded-values td:first-child {' +
+    'font-family: var(--vscode-font-family);' +
+    '}' +
+    '.decoded-values tr.mismatch td {' +
+    'color: var(--vscode-errorForeground);' +
+    'background-color: var(--vscode-inputValidation-errorBackground);' +
+    '}' +
+    '.value-unit, .no-value {' +
+    'color: var(--vscode-descriptionForeground);' +
+    '}' +
+    '.decode-errors {' +
+    'margin: 8px 0;' +
+    'padding-left: 20px;' +
+    'font-size: 0.9em;' +
+    'color: var(--vscode-errorForeground);' +
+    '}' +
+    '.custom-decode-container {' +
+    'margin-top: 30px;' +
+    'border-top: 1px solid var(--vscode-panel-border);' +
+    'padding-top: 16px;' +
+    '}' +
+    '.custom-decode-container textarea {' +
+    'width: 100%;' +
+    'box-sizing: border-box;' +
+    'min-height: 60px;' +
+    'font-family: var(--vscode-editor-font-family), monospace;' +
+    'color: var(--vscode-input-foreground);' +
+    'background-color: var(--vscode-input-background);' +
+    'border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));' +
     'border-radius: 3px;' +
+    'padding: 6px;' +
+    'resize: vertical;' +
+    '}' +
+    '.custom-decode-options {' +
+    'display: flex;' +
+    'align-items: center;' +
+    'gap: 16px;' +
+    'margin: 8px 0;' +
+    'font-size: 0.9em;' +
+    '}' +
+    '.custom-decode-options select {' +
+    'color: var(--vscode-dropdown-foreground);' +
+    'background-color: var(--vscode-dropdown-background);' +
+    'border: 1px solid var(--vscode-dropdown-border);' +
+    'padding: 2px 4px;' +
     '}' +
     '.no-samples {' +
     'color: var(--vscode-descriptionForeground);' +
@@ -309,18 +380,26 @@ export function getWebviewContent(
         '</svg> Copy</button>' +
         '</div>' +
         '<div class="sample-response-data">' + escapeHtml(sample.response) + '</div>' +
-        (sample.expectedValues ?
-          '<div class="expected-values">' +
-          '<div>Expected Values:</div>' +
-          Object.entries(sample.expectedValues).map(([key, value]) =>
-            '<span class="expected-value">' + escapeHtml(key) + ': ' + escapeHtml(String(value)) + '</span>'
-          ).join('') +
-          '</div>'
-        : '') +
+        sample.decodedHtml +
         '</div>'
       ).join('') +
       '</div>'
     : '') +
+    // Free-form response decoding; the provider decodes with the command's current signals
+    '<div class="custom-decode-container">' +
+    '<h3>Decode a Response</h3>' +
+    '<textarea id="hex-input" spellcheck="false" placeholder="Paste a response, one CAN frame per line (e.g. 7E8 06 41 0C 1A F8 00 00)">' +
+    escapeHtml(customDecode?.response || '') +
+    '</textarea>' +
+    '<div class="custom-decode-options">' +
+    '<label>CAN ID format <select id="can-id-format">' +
+    '<option value="11bit"' + (canIdFormat === '11bit' ? ' selected' : '') + '>11-bit</option>' +
+    '<option value="29bit"' + (canIdFormat === '29bit' ? ' selected' : '') + '>29-bit</option>' +
+    '</select></label>' +
+    '<label><input type="checkbox" id="extended-addressing"' + (customDecode?.extendedAddressing ? ' checked' : '') + '> Extended addressing</label>' +
+    '</div>' +
+    '<div id="custom-decode">' + (customDecode?.decodedHtml || '') + '</div>' +
+    '</div>' +
     '<script>' +
     'document.addEventListener("DOMContentLoaded", () => {' +
     'const signalBitCells = document.querySelectorAll(".signal-bit");' +
@@ -416,6 +495,153 @@ export function getWebviewContent(
     '});' +
     '</script>' +
     '<script>' +
+    'const vscode = acquireVsCodeApi();' +
+    '(function() {' +
+    'const hexInput = document.getElementById("hex-input");' +
+    'const canIdFormatSelect = document.getElementById("can-id-format");' +
+    'const extendedAddressingCheckbox = document.getElementById("extended-addressing");' +
+    'let decodeTimer;' +
+    'function requestDecode() {' +
+    '  clearTimeout(decodeTimer);' +
+    '  decodeTimer = setTimeout(() => {' +
+    '    vscode.postMessage({' +
+    '      command: "decodeResponse",' +
+    '      response: hexInput.value,' +
+    '      canIdFormat: canIdFormatSelect.value,' +
+    '      extendedAddressing: extendedAddressingCheckbox.checked' +
+    '    });' +
+    '  }, 150);' +
+    '}' +
+    'hexInput.addEventListener("input", requestDecode);' +
+    'canIdFormatSelect.addEventListener("change", requestDecode);' +
+    'extendedAddressingCheckbox.addEventListener("change", requestDecode);' +
+    'window.addEventListener("message", event => {' +
+    '  const message = event.data;' +
+    '  if (message.command === "decodedResponse") {' +
+    '    document.getElementById("custom-decode").innerHTML = message.html;' +
+    '  }' +
+    '});' +
+    '})();' +
+    // Drag-to-edit: resize the selected signal from its first or last bit, or drag across unused bits to add one
+    '(function() {' +
+    'const grid = document.querySelector(".bit-grid");' +
+    'if (!grid) {' +
+    '  return;' +
+    '}' +
+    'const gridSignals = JSON.parse(grid.getAttribute("data-signals") || "[]");' +
+    'const cells = [];' +
+    'grid.querySelectorAll(".bit-cell").forEach(cell => {' +
+    '  cells[parseInt(cell.getAttribute("data-numeric"), 10)] = cell;' +
+    '});' +
+    'const status = document.getElementById("drag-status");' +
+    'const defaultStatus = status ? status.textContent : "";' +
+    'let selected = gridSignals.find(signal => signal.id === sessionStorage.getItem("obdb-selected-signal"));' +
+    'let drag;' +
+    'function forEachBit(bix, len, callback) {' +
+    '  for (let bit = bix; bit < bix + len; bit++) {' +
+    '    if (cells[bit]) {' +
+    '      callback(cells[bit], bit);' +
+    '    }' +
+    '  }' +
+    '}' +
+    'function markSelection() {' +
+    '  cells.forEach(cell => cell.classList.remove("selected", "drag-handle"));' +
+    '  if (!selected) {' +
+    '    return;' +
+    '  }' +
+    '  forEachBit(selected.bix, selected.len, cell => cell.classList.add("selected"));' +
+    '  [selected.bix, selected.bix + selected.len - 1].forEach(bit => {' +
+    '    if (cells[bit]) {' +
+    '      cells[bit].classList.add("drag-handle");' +
+    '    }' +
+    '  });' +
+    '}' +
+    'function getOverlaps(bix, len, excludeIndex) {' +
+    '  return gridSignals.filter(signal => signal.index !== excludeIndex && signal.bix < bix + len && bix < signal.bix + signal.len);' +
+    '}' +
+    'function showPreview(range) {' +
+    '  cells.forEach(cell => cell.classList.remove("drag-preview", "drag-overlap"));' +
+    '  const excludeIndex = drag.signal ? drag.signal.index : -1;' +
+    '  forEachBit(range.bix, range.len, (cell, bit) => {' +
+    '    cell.classList.add("drag-preview");' +
+    '    if (getOverlaps(bit, 1, excludeIndex).length > 0) {' +
+    '      cell.classList.add("drag-overlap");' +
+    '    }' +
+    '  });' +
+    '  if (status) {' +
+    '    const overlaps = getOverlaps(range.bix, range.len, excludeIndex);' +
+    '    status.textContent = "bix " + range.bix + ", len " + range.len +' +
+    '      (overlaps.length > 0 ? " — overlaps " + overlaps.map(signal => signal.id).join(", ") : "");' +
+    '    status.classList.toggle("overlap", overlaps.length > 0);' +
+    '  }' +
+    '}' +
+    'function clearPreview() {' +
+    '  cells.forEach(cell => cell.classList.remove("drag-preview", "drag-overlap"));' +
+    '  if (status) {' +
+    '    status.textContent = defaultStatus;' +
+    '    status.classList.remove("overlap");' +
+    '  }' +
+    '}' +
+    'function getRange(bit) {' +
+    '  return { bix: Math.min(drag.anchor, bit), len: Math.abs(bit - drag.anchor) + 1 };' +
+    '}' +
+    'cells.forEach((cell, bit) => {' +
+    '  cell.addEventListener("mousedown", event => {' +
+    '    event.preventDefault();' +
+    '    const lastBit = selected ? selected.bix + selected.len - 1 : -1;' +
+    '    if (selected && (bit === selected.bix || bit === lastBit)) {' +
+    // Dragging one end keeps the other end fixed
+    '      drag = { signal: selected, anchor: bit === selected.bix ? lastBit : selected.bix };' +
+    '    } else if (cell.hasAttribute("data-signal-index")) {' +
+    '      selected = gridSignals[parseInt(cell.getAttribute("data-signal-index"), 10)];' +
+    '      sessionStorage.setItem("obdb-selected-signal", selected.id);' +
+    '      markSelection();' +
+    '      return;' +
+    '    } else {' +
+    '      drag = { anchor: bit };' +
+    '    }' +
+    '    drag.range = drag.signal ? { bix: drag.signal.bix, len: drag.signal.len } : getRange(bit);' +
+    '    showPreview(drag.range);' +
+    '  });' +
+    '  cell.addEventListener("mouseenter", () => {' +
+    '    if (drag) {' +
+    '      drag.range = getRange(bit);' +
+    '      showPreview(drag.range);' +
+    '    }' +
+    '  });' +
+    '});' +
+    'document.addEventListener("mouseup", () => {' +
+    '  if (!drag) {' +
+    '    return;' +
+    '  }' +
+    '  const range = drag.range;' +
+    '  if (drag.signal) {' +
+    '    if (range.bix !== drag.signal.bix || range.len !== drag.signal.len) {' +
+    '      vscode.postMessage({ command: "updateSignalRange", signalIndex: drag.signal.index, bix: range.bix, len: range.len });' +
+    '    } else {' +
+    '      clearPreview();' +
+    '    }' +
+    '  } else {' +
+    '    vscode.postMessage({ command: "createSignal", bix: range.bix, len: range.len });' +
+    '  }' +
+    '  drag = undefined;' +
+    '});' +
+    'document.addEventListener("keydown", event => {' +
+    '  if (event.key === "Escape") {' +
+    '    if (drag) {' +
+    '      drag = undefined;' +
+    '      clearPreview();' +
+    '    } else if (selected) {' +
+    '      selected = undefined;' +
+    '      sessionStorage.removeItem("obdb-selected-signal");' +
+    '      markSelection();' +
+    '    }' +
+    '  }' +
+    '});' +
+    'markSelection();' +
+    '})();' +
+    '</script>' +
+    '<script>' +
     'function copyToClipboard(button, text) {' +
     '  navigator.clipboard.writeText(text).then(() => {' +
     '    const originalText = button.innerHTML;' +
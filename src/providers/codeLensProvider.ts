@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as jsonc from 'jsonc-parser';
 import { getSupportedModelYearsForCommand, getUnsupportedModelYearsForCommand, generateDebugFilterSuggestion, createSimpleCommandId, optimizeDebugFilter } from '../utils/commandSupportUtils';
 import { groupModelYearsByGeneration, formatYearsAsRanges, getGenerationForModelYear } from '../utils/generations';
+import { getWorkspaceRoot } from '../utils/workspaceFolders';
 
 export class CommandCodeLensProvider implements vscode.CodeLensProvider {
   private onDidChangeCodeLensesEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
@@ -20,7 +21,7 @@ export class CommandCodeLensProvider implements vscode.CodeLensProvider {
    * This is a heuristic approach - in a real implementation you might want to
    * read vehicle configuration from a specific file or user setting
    */
-  private async detectVehicleGeneration(fileName: string, supportedYears: string[]): Promise<any> {
+  private async detectVehicleGeneration(workspaceRoot: string, supportedYears: string[]): Promise<any> {
     // For now, we'll try to determine generation from the first supported year
     if (supportedYears.length === 0) {
       return null;
@@ -31,7 +32,7 @@ export class CommandCodeLensProvider implements vscode.CodeLensProvider {
     const firstYear = sortedYears[0].toString();
 
     // Use the generation utility to find the generation for this year
-    return await getGenerationForModelYear(firstYear);
+    return await getGenerationForModelYear(firstYear, workspaceRoot);
   }
 
   /**
@@ -66,7 +67,7 @@ export class CommandCodeLensProvider implements vscode.CodeLensProvider {
       return [];
     }
 
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const workspaceRoot = getWorkspaceRoot(document.uri);
     if (!workspaceRoot) {
       return [];
     }
@@ -102,12 +103,7 @@ export class CommandCodeLensProvider implements vscode.CodeLensProvider {
                   hasDebug = true;
                 }
                 if (keyNode.value === 'dbgfilter') {
-                  try {
-                    const filterText = document.getText().substring(valueNode.offset, valueNode.offset + valueNode.length);
-                    existingDbgFilter = JSON.parse(filterText);
-                  } catch (e) {
-                    // Ignore parse errors for existing filter
-                  }
+                  existingDbgFilter = jsonc.getNodeValue(valueNode);
                 }
               }
             }
@@ -154,7 +150,7 @@ export class CommandCodeLensProvider implements vscode.CodeLensProvider {
                 // Add debug filter suggestion if command has dbg: true
                 if (hasDebug && supportedYears.length > 0) {
                   // Try to detect the vehicle generation from the file path or workspace
-                  const generation = await this.detectVehicleGeneration(document.fileName, supportedYears);
+                  const generation = await this.detectVehicleGeneration(workspaceRoot, supportedYears);
                   if (generation) {
                     const debugFilter = await generateDebugFilterSuggestion(supportedYears, generation);
                     if (debugFilter) {
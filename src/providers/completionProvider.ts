@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { CarProtocolStrategy } from '../types';
+import { getAllUnitGroups, getExpectedUnitsForSuggestedMetric, SUGGESTED_METRIC_UNITS } from '../linter/unitGroups';
+
+/**
+ * A property that can be completed inside a command or signal object
+ */
+interface KeyInfo {
+  key: string;
+  description: string;
+  /** Snippet inserted after the colon */
+  valueSnippet: string;
+}
+
+/**
+ * Command-level keys, described by the names they decode to
+ */
+const COMMAND_KEYS: KeyInfo[] = [
+  { key: 'hdr', description: 'Header (request CAN identifier)', valueSnippet: '"$1"' },
+  { key: 'rax', description: 'Receive address', valueSnippet: '"$1"' },
+  { key: 'eax', description: 'Extended address', valueSnippet: '"$1"' },
+  { key: 'tst', description: 'Tester address', valueSnippet: '"$1"' },
+  { key: 'cmd', description: 'Service and parameter, e.g. {"22": "1234"}', valueSnippet: '{"$1": "$2"}' },
+  { key: 'fcm1', description: 'Force flow control response', valueSnippet: 'true' },
+  { key: 'proto', description: 'Car protocol strategy', valueSnippet: '"$1"' },
+  { key: 'tmo', description: 'Timeout', valueSnippet: '"$1"' },
+  { key: 'pri', description: 'CAN priority', valueSnippet: '"$1"' },
+  { key: 'freq', description: 'Update frequency in seconds', valueSnippet: '$1' },
+  { key: 'dbg', description: 'Debug: log the raw response', valueSnippet: 'true' },
+  { key: 'filter', description: 'Model years the command applies to', valueSnippet: '{"from": $1}' },
+  { key: 'dbgfilter', description: 'Model years to debug the command for', valueSnippet: '{"from": $1}' },
+  { key: 'signals', description: 'Signals decoded from the response', valueSnippet: '[\n\t$1\n]' }
+];
+
+/**
+ * Signal-level keys
+ */
+const SIGNAL_KEYS: KeyInfo[] = [
+  { key: 'id', description: 'Unique signal ID', valueSnippet: '"$1"' },
+  { key: 'path', description: 'Grouping shown in apps, e.g. "Battery"', valueSnippet: '"$1"' },
+  { key: 'fmt', description: 'Bit range and scaling', valueSnippet: '{"len": $1}' },
+  { key: 'name', description: 'Human-readable name in sentence case', valueSnippet: '"$1"' },
+  { key: 'description', description: 'Longer explanation of the signal', valueSnippet: '"$1"' },
+  { key: 'suggestedMetric', description: 'Standard metric this signal provides', valueSnippet: '"$1"' },
+  { key: 'filter', description: 'Model years the signal applies to', valueSnippet: '{"from": $1}' }
+];
+
+/**
+ * Completion provider for signalset JSON files
+ */
+class SignalsetCompletionProvider implements vscode.CompletionItemProvider {
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const location = jsonc.getLocation(text, offset);
+    const jsonPath = location.path;
+
+    // Paths look like ['commands', 0, key] or ['commands', 0, 'signals', 1, key]
+    if (jsonPath[0] !== 'commands' || typeof jsonPath[1] !== 'number') {
+      return undefined;
+    }
+    const inSignal = jsonPath[2] === 'signals' && typeof jsonPath[3] === 'number';
+    const objectPath = inSignal ? jsonPath.slice(0, 4) : jsonPath.slice(0, 2);
+    const relativePath = jsonPath.slice(objectPath.length);
+
+    const root = jsonc.parseTree(text);
+    const objectNode = root && jsonc.findNodeAtLocation(root, objectPath);
+    const replaceRange = this.getReplaceRange(document, location, position);
+
+    if (location.isAtPropertyKey && relativePath.length === 1) {
+      // The key being typed doesn't count as present
+      const existingKeys = new Set((objectNode?.children || [])
+        .filter(property => property.offset !== location.previousNode?.offset)
+        .map(property => property.children?.[0]?.value));
+      return this.createKeyItems(inSignal ? SIGNAL_KEYS : COMMAND_KEYS, existingKeys, replaceRange);
+    }
+    if (location.isAtPropertyKey) {
+      return undefined;
+    }
+
+    const property = relativePath.join('.');
+    if (!inSignal && property === 'proto') {
+      return this.createValueItems(Object.values(CarProtocolStrategy), vscode.CompletionItemKind.EnumMember, replaceRange);
+    }
+    if (inSignal && property === 'fmt.unit') {
+      const signal = objectNode ? jsonc.getNodeValue(objectNode) : undefined;
+      return this.createUnitItems(signal?.suggestedMetric, replaceRange);
+    }
+    if (inSignal && property === 'suggestedMetric') {
+      const used = await this.collectWorkspaceValues(document, token, signal => signal.suggestedMetric);
+      const metrics = new Set([...Object.keys(SUGGESTED_METRIC_UNITS), ...used]);
+      return this.createValueItems(Array.from(metrics).sort(), vscode.CompletionItemKind.EnumMember, replaceRange);
+    }
+    if (inSignal && property === 'path') {
+      const prefixes = await this.collectWorkspaceValues(document, token, signal => {
+        if (typeof signal.path !== 'string' || signal.path === '') {
+          return undefined;
+        }
+        // Offer every dotted prefix so a new signal can join an existing group at any level
+        const parts = signal.path.split('.');
+        return parts.map((_: string, index: number) => parts.slice(0, index + 1).join('.'));
+      });
+      return this.createValueItems(Array.from(prefixes).sort(), vscode.CompletionItemKind.Folder, replaceRange);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Gets the range a completion replaces: the key or string value being typed, including its quotes
+   */
+  private getReplaceRange(document: vscode.TextDocument, location: jsonc.Location, position: vscode.Position): vscode.Range {
+    const node = location.previousNode;
+    if (node && (node.type === 'string' || (location.isAtPropertyKey && node.type === 'property'))) {
+      return new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+    }
+    return new vscode.Range(position, position);
+  }
+
+  /**
+   * Creates completions for the keys missing from a command or signal
+   */
+  private createKeyItems(keys: KeyInfo[], existingKeys: Set<string>, range: vscode.Range): vscode.CompletionItem[] {
+    return keys
+      .filter(info => !existingKeys.has(info.key))
+      .map((info, index) => {
+        const item = new vscode.CompletionItem(info.key, vscode.CompletionItemKind.Property);
+        item.detail = info.description;
+        item.insertText = new vscode.SnippetString(`"${info.key}": ${info.valueSnippet}`);
+        item.filterText = `"${info.key}"`;
+        item.range = range;
+        // Keep keys in the order signalsets write them
+        item.sortText = String(index).padStart(2, '0');
+        return item;
+      });
+  }
+
+  /**
+   * Creates completions for string values
+   */
+  private createValueItems(values: string[], kind: vscode.CompletionItemKind, range: vscode.Range): vscode.CompletionItem[] {
+    return values.map(value => {
+      const item = new vscode.CompletionItem(value, kind);
+      item.insertText = JSON.stringify(value);
+      item.filterText = JSON.stringify(value);
+      item.range = range;
+      return item;
+    });
+  }
+
+  /**
+   * Creates unit completions, narrowed to the units the signal's suggested metric expects
+   */
+  private createUnitItems(suggestedMetric: string | undefined, range: vscode.Range): vscode.CompletionItem[] {
+    const expectedUnits = suggestedMetric ? getExpectedUnitsForSuggestedMetric(suggestedMetric) : undefined;
+    if (expectedUnits) {
+      return this.createValueItems(expectedUnits, vscode.CompletionItemKind.Unit, range).map(item => {
+        item.detail = `Expected for suggestedMetric "${suggestedMetric}"`;
+        return item;
+      });
+    }
+
+    const items: vscode.CompletionItem[] = [];
+    for (const [groupName, units] of getAllUnitGroups()) {
+      for (const item of this.createValueItems(units, vscode.CompletionItemKind.Unit, range)) {
+        item.detail = groupName;
+        items.push(item);
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Collects values from every signal in the workspace's signalsets, using the open document's unsaved text
+   * @param getValues Returns the value or values to collect from a signal
+   */
+  private async collectWorkspaceValues(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken,
+    getValues: (signal: any) => string | string[] | undefined
+  ): Promise<Set<string>> {
+    const values = new Set<string>();
+    const collect = (signalset: any) => {
+      for (const command of signalset?.commands || []) {
+        for (const signal of command?.signals || []) {
+          const value = getValues(signal);
+          for (const item of Array.isArray(value) ? value : [value]) {
+            if (typeof item === 'string' && item !== '') {
+              values.add(item);
+            }
+          }
+        }
+      }
+    };
+
+    collect(jsonc.parse(document.getText()));
+
+    // Values used by other vehicle repositories in the workspace are not suggested
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const include = '**/signalsets/v3/*.json';
+    const files = await vscode.workspace.findFiles(folder ? new vscode.RelativePattern(folder, include) : include, '**/node_modules/**', 200, token);
+    for (const uri of files) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+      if (uri.toString() === document.uri.toString()) {
+        continue;
+      }
+      try {
+        collect(jsonc.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8')));
+      } catch (error) {
+        console.error(`Error reading ${uri.fsPath} for completions:`, error);
+      }
+    }
+
+    return values;
+  }
+}
+
+/**
+ * Creates a completion provider for signalset JSON files
+ * @returns A disposable completion provider registration
+ */
+export function createCompletionProvider(): vscode.Disposable {
+  return vscode.languages.registerCompletionItemProvider(
+    { language: 'json', pattern: '**/signalsets/v3/*.json' },
+    new SignalsetCompletionProvider(),
+    '"'
+  );
+}
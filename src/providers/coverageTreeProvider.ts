@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { CommandCoverage, computeSignalCoverage, SignalCoverage, SignalsetCoverage, summarizeCoverage } from '../utils/signalCoverage';
+
+/**
+ * A node of the coverage tree: signalset (only shown when the workspace has several), command, or signal
+ */
+type CoverageNode =
+  | { kind: 'signalset', signalset: SignalsetCoverage }
+  | { kind: 'command', uri: vscode.Uri, command: CommandCoverage }
+  | { kind: 'signal', uri: vscode.Uri, command: CommandCoverage, signal: SignalCoverage };
+
+/**
+ * Describes how many test cases assert a command or signal, e.g. "3 cases · 2019, 2021"
+ */
+function describeTests(coverage: { testCaseCount: number, years: string[] }): string {
+  return coverage.testCaseCount > 0 ? `${coverage.testCaseCount} cases · ${coverage.years.join(', ')}` : 'untested';
+}
+
+/**
+ * Gets the icon of a command or signal: a check when tests assert it, a warning when none do
+ */
+function coverageIcon(coverage: { testCaseCount: number }): vscode.ThemeIcon {
+  return coverage.testCaseCount > 0
+    ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+    : new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+}
+
+/**
+ * Tree data provider for the signal coverage view: every command and signal of the workspace's
+ * signalsets with the number of test cases that assert it
+ */
+class SignalCoverageProvider implements vscode.TreeDataProvider<CoverageNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<CoverageNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private coverage: SignalsetCoverage[] | undefined;
+
+  constructor(private readonly treeView: () => vscode.TreeView<CoverageNode> | undefined) {}
+
+  /**
+   * Recomputes the coverage and redraws the tree
+   */
+  refresh(): void {
+    this.coverage = undefined;
+    this.changeEmitter.fire(undefined);
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  getChildren(node?: CoverageNode): CoverageNode[] {
+    if (!node) {
+      const coverage = this.getCoverage();
+      if (coverage.length === 1) {
+        return this.commandNodes(coverage[0]);
+      }
+      return coverage.map(signalset => ({ kind: 'signalset', signalset }));
+    }
+
+    switch (node.kind) {
+      case 'signalset':
+        return this.commandNodes(node.signalset);
+      case 'command':
+        return node.command.signals.map(signal => ({ kind: 'signal', uri: node.uri, command: node.command, signal }));
+      case 'signal':
+        return [];
+    }
+  }
+
+  getTreeItem(node: CoverageNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'signalset': {
+        const summary = summarizeCoverage([node.signalset]);
+        const item = new vscode.TreeItem(
+          vscode.workspace.asRelativePath(node.signalset.filePath),
+          vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.iconPath = new vscode.ThemeIcon('file-code');
+        item.description = `${summary.testedSignals}/${summary.signals} signals tested`;
+        return item;
+      }
+      case 'command': {
+        const { command } = node;
+        const untestedSignals = command.signals.filter(signal => signal.testCaseCount === 0).length;
+        const item = new vscode.TreeItem(
+          command.commandId,
+          command.signals.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        item.iconPath = coverageIcon(command);
+        item.description = [describeTests(command), untestedSignals > 0 ? `${untestedSignals} untested signals` : '']
+          .filter(part => part)
+          .join('  ');
+        item.tooltip = command.testCaseCount > 0
+          ? `${command.commandId}\n${command.testCaseCount} test case(s) in ${command.years.join(', ')}`
+          : `${command.commandId}\nNo test cases`;
+        item.command = { command: 'obdb.coverage.reveal', title: 'Reveal in Editor', arguments: [node] };
+        return item;
+      }
+      case 'signal': {
+        const { signal } = node;
+        const item = new vscode.TreeItem(signal.signalId, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = coverageIcon(signal);
+        item.description = describeTests(signal);
+        item.tooltip = signal.testCaseCount > 0
+          ? `${signal.signalId} is asserted by ${signal.testCaseCount} test case(s) in ${signal.years.join(', ')}`
+          : `No test case asserts ${signal.signalId}`;
+        item.command = { command: 'obdb.coverage.reveal', title: 'Reveal in Editor', arguments: [node] };
+        return item;
+      }
+    }
+  }
+
+  private getCoverage(): SignalsetCoverage[] {
+    if (!this.coverage) {
+      this.coverage = (vscode.workspace.workspaceFolders || [])
+        .flatMap(folder => computeSignalCoverage(folder.uri.fsPath));
+
+      const summary = summarizeCoverage(this.coverage);
+      const view = this.treeView();
+      if (view) {
+        view.message = summary.signals > 0
+          ? `${summary.testedSignals}/${summary.signals} signals and ${summary.testedCommands}/${summary.commands} commands tested`
+          : undefined;
+      }
+    }
+    return this.coverage;
+  }
+
+  private commandNodes(signalset: SignalsetCoverage): CoverageNode[] {
+    const uri = vscode.Uri.file(signalset.filePath);
+    return signalset.commands.map(command => ({ kind: 'command', uri, command }));
+  }
+}
+
+/**
+ * Opens a command's or signal's signalset and selects it
+ */
+async function revealNode(node: CoverageNode): Promise<void> {
+  if (node.kind === 'signalset') {
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(node.uri);
+  const editor = await vscode.window.showTextDocument(document);
+  const span = node.kind === 'signal' ? node.signal : node.command;
+  const range = new vscode.Range(document.positionAt(span.offset), document.positionAt(span.offset + span.length));
+  editor.selection = new vscode.Selection(range.start, range.start);
+  editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+/**
+ * Creates the signal coverage tree view
+ * @returns Disposables for the view, its commands, and the watchers that keep it current
+ */
+export function createCoverageTreeView(): vscode.Disposable[] {
+  let treeView: vscode.TreeView<CoverageNode> | undefined;
+  const provider = new SignalCoverageProvider(() => treeView);
+  treeView = vscode.window.createTreeView('obdbCoverage', { treeDataProvider: provider, showCollapseAll: true });
+
+  // Coverage is read from disk, so saved files are enough to keep it current
+  const watcher = vscode.workspace.createFileSystemWatcher('**/{signalsets/v3/*.json,tests/test_cases/*/commands/*.yaml}');
+
+  return [
+    treeView,
+    provider,
+    vscode.commands.registerCommand('obdb.coverage.refresh', () => provider.refresh()),
+    vscode.commands.registerCommand('obdb.coverage.reveal', (node: CoverageNode) => revealNode(node)),
+    watcher,
+    watcher.onDidCreate(() => provider.refresh()),
+    watcher.onDidChange(() => provider.refresh()),
+    watcher.onDidDelete(() => provider.refresh())
+  ];
+}
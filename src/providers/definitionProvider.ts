@@ -3,6 +3,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import * as jsonc from 'jsonc-parser';
+import { findYearRangeSignalsets } from '../utils/effectiveSignalset';
+import { getWorkspaceRoot } from '../utils/workspaceFolders';
 
 /**
  * Creates a definition provider for YAML files that enables Cmd+Click navigation
@@ -61,7 +63,7 @@ class CommandDefinitionProvider implements vscode.DefinitionProvider {
 
     try {
       // Find the signalset definition file and position for this command and model year
-      const definition = await this.findSignalsetDefinitionForCommand(commandId, modelYear);
+      const definition = await this.findSignalsetDefinitionForCommand(commandId, modelYear, document.uri);
       if (definition) {
         // Return the definition location
         return new vscode.Location(definition.uri, definition.range);
@@ -91,20 +93,20 @@ class CommandDefinitionProvider implements vscode.DefinitionProvider {
    */
   private async findSignalsetDefinitionForCommand(
     commandId: string,
-    modelYear: string
+    modelYear: string,
+    testFileUri: vscode.Uri
   ): Promise<{ uri: vscode.Uri, range: vscode.Range } | undefined> {
     try {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (!workspaceFolders || workspaceFolders.length === 0) {
+      // Look in the vehicle repository the test file belongs to
+      const rootPath = getWorkspaceRoot(testFileUri);
+      if (!rootPath) {
         return undefined;
       }
 
-      const rootPath = workspaceFolders[0].uri.fsPath;
-
       // Check the model year specific signalset file in v3 directory first
       const potentialSignalsetPaths = [
         // Check year range signalsets (e.g., 2015-2018.json)
-        ...await this.findYearRangeSignalsets(rootPath, parseInt(modelYear)),
+        ...findYearRangeSignalsets(path.join(rootPath, 'signalsets', 'v3'), parseInt(modelYear)),
         // Fallback to default signalset
         path.join(rootPath, 'signalsets', 'v3', 'default.json'),
       ];
@@ -129,38 +131,6 @@ class CommandDefinitionProvider implements vscode.DefinitionProvider {
     return undefined;
   }
 
-  /**
-   * Finds signalset files that contain year ranges including the target year
-   */
-  private async findYearRangeSignalsets(rootPath: string, targetYear: number): Promise<string[]> {
-    const v3Path = path.join(rootPath, 'signalsets', 'v3');
-
-    try {
-      // Get all files in the v3 directory
-      const files = await fs.promises.readdir(v3Path);
-      const yearRangeSignalsets: string[] = [];
-
-      // Look for files with year range pattern (e.g., 2015-2018.json)
-      for (const file of files) {
-        const match = file.match(/^(\d{4})-(\d{4})\.json$/);
-        if (match) {
-          const startYear = parseInt(match[1]);
-          const endYear = parseInt(match[2]);
-
-          // Check if our target year is within this range
-          if (targetYear >= startYear && targetYear <= endYear) {
-            yearRangeSignalsets.push(path.join(v3Path, file));
-          }
-        }
-      }
-
-      return yearRangeSignalsets;
-    } catch (error) {
-      console.error('Error finding year range signalsets:', error);
-      return [];
-    }
-  }
-
   /**
    * Find the exact position of a command in a signalset file
    */
@@ -340,7 +310,7 @@ class SignalDefinitionProvider implements vscode.DefinitionProvider {
       }
 
       // Find the signalset definition for this signal ID
-      const definition = await this.findSignalDefinition(signalId, modelYear);
+      const definition = await this.findSignalDefinition(signalId, modelYear, document.uri);
       if (definition) {
         return new vscode.Location(definition.uri, definition.range);
       }
@@ -392,20 +362,20 @@ class SignalDefinitionProvider implements vscode.DefinitionProvider {
    */
   private async findSignalDefinition(
     signalId: string,
-    modelYear: string
+    modelYear: string,
+    testFileUri: vscode.Uri
   ): Promise<{ uri: vscode.Uri, range: vscode.Range } | undefined> {
     try {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (!workspaceFolders || workspaceFolders.length === 0) {
+      // Look in the vehicle repository the test file belongs to
+      const rootPath = getWorkspaceRoot(testFileUri);
+      if (!rootPath) {
         return undefined;
       }
 
-      const rootPath = workspaceFolders[0].uri.fsPath;
-
       // Check the model year specific signalset file in v3 directory first
       const potentialSignalsetPaths = [
         // Check year range signalsets (e.g., 2015-2018.json)
-        ...await this.findYearRangeSignalsets(rootPath, parseInt(modelYear)),
+        ...findYearRangeSignalsets(path.join(rootPath, 'signalsets', 'v3'), parseInt(modelYear)),
         // Fallback to default signalset
         path.join(rootPath, 'signalsets', 'v3', 'default.json'),
       ];
@@ -428,7 +398,7 @@ class SignalDefinitionProvider implements vscode.DefinitionProvider {
       const examplePaths = [
         path.join(rootPath, 'examples', 'v3', 'default.json'),
         path.join(rootPath, 'examples', 'v3', `${modelYear}.json`),
-        ...await this.findYearRangeSignalsets(path.join(rootPath, 'examples', 'v3'), parseInt(modelYear)),
+        ...findYearRangeSignalsets(path.join(rootPath, 'examples', 'v3'), parseInt(modelYear)),
       ];
 
       for (const examplePath of examplePaths) {
@@ -449,40 +419,6 @@ class SignalDefinitionProvider implements vscode.DefinitionProvider {
     return undefined;
   }
 
-  /**
-   * Finds signalset files that contain year ranges including the target year
-   */
-  private async findYearRangeSignalsets(basePath: string, targetYear: number): Promise<string[]> {
-    try {
-      if (!fs.existsSync(basePath)) {
-        return [];
-      }
-
-      // Get all files in the directory
-      const files = await fs.promises.readdir(basePath);
-      const yearRangeSignalsets: string[] = [];
-
-      // Look for files with year range pattern (e.g., 2015-2018.json)
-      for (const file of files) {
-        const match = file.match(/^(\d{4})-(\d{4})\.json$/);
-        if (match) {
-          const startYear = parseInt(match[1]);
-          const endYear = parseInt(match[2]);
-
-          // Check if our target year is within this range
-          if (targetYear >= startYear && targetYear <= endYear) {
-            yearRangeSignalsets.push(path.join(basePath, file));
-          }
-        }
-      }
-
-      return yearRangeSignalsets;
-    } catch (error) {
-      console.error('Error finding year range signalsets:', error);
-      return [];
-    }
-  }
-
   /**
    * Find the exact position of a signal in a signalset file
    */
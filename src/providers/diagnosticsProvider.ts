@@ -5,13 +5,21 @@ import * as yaml from 'yaml';
 import * as jsonc from 'jsonc-parser';
 import { generateCommandIdFromDefinition } from '../utils/commandParser';
 import { SignalLinter } from '../linter/signalLinter';
+import { RuleRegistry } from '../linter/ruleRegistry';
+import { LinterConfig, LINTER_CONFIG_FILENAME, loadLinterConfig, mergeLinterConfigs } from '../linter/linterConfig';
+import { toDiagnostics } from '../linter/diagnostics';
 import { SignalLinterCodeActionProvider } from './signalLinterCodeActionProvider';
-import { Signal, SignalGroup } from '../linter/rules/rule';
+import { LintResult } from '../linter/rules/rule';
+import { loadLintContext } from '../linter/lintContext';
+import { getWorkspaceRoot } from '../utils/workspaceFolders';
 
 let diagnosticCollection: vscode.DiagnosticCollection;
 const signalLinter = new SignalLinter();
 const signalLinterCodeActionProvider = new SignalLinterCodeActionProvider();
 
+// .obdblintrc.json contents per workspace folder path, invalidated by a file watcher
+const linterConfigFiles = new Map<string, LinterConfig>();
+
 /**
  * Creates a diagnostics provider for marking unsupported commands
  * @returns A disposable diagnostics provider registration
@@ -46,6 +54,25 @@ export function createDiagnosticsProvider(): vscode.Disposable {
     })
   );
 
+  // Re-lint open documents when the linter configuration changes
+  const linterConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${LINTER_CONFIG_FILENAME}`);
+  const onLinterConfigFileChanged = () => {
+    linterConfigFiles.clear();
+    updateAllOpenDocuments();
+  };
+  linterConfigWatcher.onDidCreate(onLinterConfigFileChanged);
+  linterConfigWatcher.onDidChange(onLinterConfigFileChanged);
+  linterConfigWatcher.onDidDelete(onLinterConfigFileChanged);
+  disposables.push(linterConfigWatcher);
+
+  disposables.push(
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('obdb.linter')) {
+        updateAllOpenDocuments();
+      }
+    })
+  );
+
   // Update all open JSON documents on activation
   if (vscode.window.activeTextEditor &&
       vscode.window.activeTextEditor.document.languageId === 'json') {
@@ -62,6 +89,37 @@ export function createDiagnosticsProvider(): vscode.Disposable {
   };
 }
 
+/**
+ * Updates diagnostics for every open JSON document
+ */
+function updateAllOpenDocuments(): void {
+  for (const document of vscode.workspace.textDocuments) {
+    if (document.languageId === 'json') {
+      updateDiagnostics(document);
+    }
+  }
+}
+
+/**
+ * Applies the linter configuration for a file's workspace folder: the
+ * .obdblintrc.json file, overridden by the obdb.linter.rules setting
+ */
+export function configureLinterForUri(uri: vscode.Uri): void {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+  let fileConfig: LinterConfig = {};
+
+  if (workspaceFolder) {
+    const workspacePath = workspaceFolder.uri.fsPath;
+    if (!linterConfigFiles.has(workspacePath)) {
+      linterConfigFiles.set(workspacePath, loadLinterConfig(workspacePath));
+    }
+    fileConfig = linterConfigFiles.get(workspacePath)!;
+  }
+
+  const settingsRules = vscode.workspace.getConfiguration('obdb.linter', uri).get<LinterConfig['rules']>('rules');
+  RuleRegistry.getInstance().configure(mergeLinterConfigs(fileConfig, { rules: settingsRules }));
+}
+
 /**
  * Updates diagnostics for a document
  */
@@ -73,7 +131,6 @@ async function updateDiagnostics(document: vscode.TextDocument): Promise<void> {
 
   try {
     const diagnostics: vscode.Diagnostic[] = [];
-    const lintResults: any[] = [];
 
     const text = document.getText();
     const rootNode = jsonc.parseTree(text);
@@ -84,77 +141,22 @@ async function updateDiagnostics(document: vscode.TextDocument): Promise<void> {
       return;
     }
 
-    // Pre-pass: Collect all signal and signal group IDs
-    const allIds: Map<string, jsonc.Node> = new Map();
+    // Run every linter rule over the document
+    const workspaceRoot = getWorkspaceRoot(document.uri);
+    const lintContext = await loadLintContext(document.uri.fsPath, workspaceRoot);
+    configureLinterForUri(document.uri);
+    const lintResults: LintResult[] = signalLinter.lintText(text, lintContext);
+    diagnostics.push(...toDiagnostics(document, lintResults));
 
     const commandsArrayNode = findNodeAtLocation(rootNode, ["commands"]);
-    const signalGroupsArrayNode = findNodeAtLocation(rootNode, ["signalGroups"]);
-
-    // First run document-level linters that process the entire document at once
-    try {
-      const documentLintResults = signalLinter.lintDocument(rootNode);
-      lintResults.push(...documentLintResults);
-      diagnostics.push(...signalLinter.toDiagnostics(document, documentLintResults));
-    } catch (err) {
-      console.error('Error running document-level linters:', err);
-    }
 
-    // Collect all signal IDs from commands
+    // Check commands for issues that need workspace context
     if (commandsArrayNode && commandsArrayNode.type === 'array' && commandsArrayNode.children) {
-      for (const commandNode of commandsArrayNode.children) {
-        const signalsNode = findNodeAtLocation(commandNode, ["signals"]);
-        if (signalsNode && signalsNode.type === 'array' && signalsNode.children) {
-          for (const signalNode of signalsNode.children) {
-            try {
-              const signalIdNode = jsonc.findNodeAtLocation(signalNode, ['id']);
-              if (signalIdNode) {
-                const signalId = jsonc.getNodeValue(signalIdNode);
-                if (typeof signalId === 'string' && !allIds.has(signalId)) {
-                  allIds.set(signalId, signalNode);
-                }
-              }
-            } catch (err) {
-              console.error('Error collecting signal ID from commands:', err);
-            }
-          }
-        }
-      }
-    }
-
-    // Collect all signal group IDs
-    if (signalGroupsArrayNode && signalGroupsArrayNode.type === 'array' && signalGroupsArrayNode.children) {
-      for (const signalGroupNode of signalGroupsArrayNode.children) {
-        try {
-          const groupIdNode = jsonc.findNodeAtLocation(signalGroupNode, ['id']);
-          if (groupIdNode) {
-            const groupId = jsonc.getNodeValue(groupIdNode);
-            if (typeof groupId === 'string' && !allIds.has(groupId)) {
-              allIds.set(groupId, signalGroupNode);
-            }
-          }
-        } catch (err) {
-          console.error('Error collecting signal group ID:', err);
-        }
-      }
-    }
-
-    // Now that we've collected all IDs, run all command array level linters
-    if (commandsArrayNode && commandsArrayNode.type === 'array' && commandsArrayNode.children) {
-      try {
-        const commandsLintResults = signalLinter.lintCommands(commandsArrayNode);
-        lintResults.push(...commandsLintResults);
-        diagnostics.push(...signalLinter.toDiagnostics(document, commandsLintResults));
-      } catch (err) {
-        console.error('Error linting commands array:', err);
-      }
-
-      // Now process individual commands
       for (const commandNode of commandsArrayNode.children) {
         const hdrNode = findNodeAtLocation(commandNode, ["hdr"]);
         const cmdNode = findNodeAtLocation(commandNode, ["cmd"]);
         const raxNode = findNodeAtLocation(commandNode, ["rax"]);
         const dbgNode = findNodeAtLocation(commandNode, ["dbg"]);
-        const signalsNode = findNodeAtLocation(commandNode, ["signals"]);
 
         // Check for debug commands and add warning
         if (dbgNode && dbgNode.type === 'boolean' && jsonc.getNodeValue(dbgNode) === true) {
@@ -184,8 +186,8 @@ async function updateDiagnostics(document: vscode.TextDocument): Promise<void> {
           const commandId = generateCommandIdFromDefinition(commandDefinition);
 
           // Check if command is unsupported
-          const isSupportedByAnyYear = await isCommandSupported(commandId);
-          const isUnsupportedByAnyYear = await isCommandUnsupported(commandId);
+          const isSupportedByAnyYear = await isCommandSupported(commandId, workspaceRoot);
+          const isUnsupportedByAnyYear = await isCommandUnsupported(commandId, workspaceRoot);
 
           // Only mark commands that are not supported by any model year
           // and are explicitly marked as unsupported in at least one model year
@@ -205,62 +207,6 @@ async function updateDiagnostics(document: vscode.TextDocument): Promise<void> {
             }
           }
         }
-
-        // Perform command-level linting
-        try {
-          const command = jsonc.getNodeValue(commandNode);
-          // Extract signals from the command
-          const signalsInCommand: { signal: Signal, node: jsonc.Node }[] = [];
-
-          if (signalsNode && signalsNode.type === 'array' && signalsNode.children) {
-            for (const signalNode of signalsNode.children) {
-              try {
-                const signal = jsonc.getNodeValue(signalNode) as Signal;
-                signalsInCommand.push({ signal, node: signalNode });
-              } catch (err) {
-                console.error('Error extracting signal for command linting:', err);
-              }
-            }
-
-            // Process command-level linting
-            const commandLintResults = signalLinter.lintCommand(command, commandNode, signalsInCommand);
-            lintResults.push(...commandLintResults);
-            diagnostics.push(...signalLinter.toDiagnostics(document, commandLintResults));
-          }
-        } catch (err) {
-          console.error('Error linting command:', err);
-        }
-
-        // Process signals linting within commands
-        if (signalsNode && signalsNode.type === 'array' && signalsNode.children) {
-          for (const signalNode of signalsNode.children) {
-            try {
-              const signal = jsonc.getNodeValue(signalNode) as Signal;
-              // Lint the signal
-              const signalLintResults = signalLinter.lintSignal(signal, signalNode);
-              lintResults.push(...signalLintResults);
-              diagnostics.push(...signalLinter.toDiagnostics(document, signalLintResults));
-            } catch (err) {
-              console.error('Error linting signal:', err);
-            }
-          }
-        }
-      }
-    }
-
-    // Process signalGroups linting (primarily for UniqueSignalIdRule)
-    if (signalGroupsArrayNode && signalGroupsArrayNode.type === 'array' && signalGroupsArrayNode.children) {
-      for (const signalGroupNode of signalGroupsArrayNode.children) {
-        try {
-          const signalGroup = jsonc.getNodeValue(signalGroupNode) as SignalGroup;
-          // Lint the signal group
-          // Note: Most rules might not apply to SignalGroup, but UniqueSignalIdRule will.
-          const groupLintResults = signalLinter.lintSignal(signalGroup, signalGroupNode);
-          lintResults.push(...groupLintResults);
-          diagnostics.push(...signalLinter.toDiagnostics(document, groupLintResults));
-        } catch (err) {
-          console.error('Error linting signal group:', err);
-        }
       }
     }
 
@@ -286,12 +232,11 @@ function findNodeAtLocation(rootNode: jsonc.Node, path: (string | number)[]): js
 /**
  * Checks if a command is supported by any model year
  */
-async function isCommandSupported(commandId: string): Promise<boolean> {
+async function isCommandSupported(commandId: string, workspaceRoot: string | undefined): Promise<boolean> {
   // Find all model year directories
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders) return false;
+  if (!workspaceRoot) return false;
 
-  const testCasesPath = path.join(workspaceFolders[0].uri.fsPath, 'tests', 'test_cases');
+  const testCasesPath = path.join(workspaceRoot, 'tests', 'test_cases');
 
   try {
     // Read test case directories to find model years
@@ -362,12 +307,11 @@ async function isCommandSupported(commandId: string): Promise<boolean> {
 /**
  * Checks if a command is explicitly listed as unsupported in any model year
  */
-async function isCommandUnsupported(commandId: string): Promise<boolean> {
+async function isCommandUnsupported(commandId: string, workspaceRoot: string | undefined): Promise<boolean> {
   // Find all model year directories
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders) return false;
+  if (!workspaceRoot) return false;
 
-  const testCasesPath = path.join(workspaceFolders[0].uri.fsPath, 'tests', 'test_cases');
+  const testCasesPath = path.join(workspaceRoot, 'tests', 'test_cases');
 
   try {
     // Read test case directories to find model years
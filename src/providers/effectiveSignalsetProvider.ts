@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatEffectiveSignalset, getSignalsetYearRange, resolveEffectiveSignalset } from '../utils/effectiveSignalset';
+import { getGenerations } from '../utils/generationsCore';
+import { getModelYearFromTestPath } from '../utils/testCaseRunner';
+import { pickWorkspaceRoot } from '../utils/workspaceFolders';
+
+const EFFECTIVE_SIGNALSET_SCHEME = 'obdb-effective';
+
+/**
+ * Builds the URI of the read-only effective signalset document for a model year
+ */
+function effectiveSignalsetUri(workspaceRoot: string, modelYear: number): vscode.Uri {
+  return vscode.Uri.from({ scheme: EFFECTIVE_SIGNALSET_SCHEME, path: `/effective-${modelYear}.json`, query: workspaceRoot });
+}
+
+/**
+ * Serves effective signalset documents, re-resolving them whenever a signalset file changes
+ */
+class EffectiveSignalsetContentProvider implements vscode.TextDocumentContentProvider {
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const match = uri.path.match(/effective-(\d{4})\.json$/);
+    if (!match) {
+      return '';
+    }
+    return formatEffectiveSignalset(resolveEffectiveSignalset(uri.query, parseInt(match[1], 10)));
+  }
+
+  /**
+   * Redraws the open effective signalset documents
+   */
+  refresh(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      if (document.uri.scheme === EFFECTIVE_SIGNALSET_SCHEME) {
+        this.changeEmitter.fire(document.uri);
+      }
+    }
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * Collects the model years a repository knows about: its test case years, the years of its
+ * year-range signalsets and the years of its generations
+ */
+async function findKnownModelYears(workspaceRoot: string): Promise<number[]> {
+  const years = new Set<number>();
+  const nextYear = new Date().getFullYear() + 1;
+  const addRange = (from: number, to: number) => {
+    for (let year = from; year <= Math.min(to, nextYear); year++) {
+      years.add(year);
+    }
+  };
+
+  try {
+    for (const entry of await fs.promises.readdir(path.join(workspaceRoot, 'tests', 'test_cases'))) {
+      if (/^\d{4}$/.test(entry)) {
+        years.add(parseInt(entry, 10));
+      }
+    }
+  } catch {
+    // No test cases yet
+  }
+
+  try {
+    for (const file of await fs.promises.readdir(path.join(workspaceRoot, 'signalsets', 'v3'))) {
+      const range = getSignalsetYearRange(file);
+      if (range) {
+        addRange(range[0], range[1]);
+      }
+    }
+  } catch {
+    // No signalsets yet
+  }
+
+  for (const generation of await getGenerations(workspaceRoot) || []) {
+    addRange(generation.start_year, generation.end_year ?? nextYear);
+  }
+
+  return [...years].sort((a, b) => b - a);
+}
+
+/**
+ * Asks for a model year, offering the repository's known years and the year of the active test file first
+ */
+async function pickModelYear(workspaceRoot: string): Promise<number | undefined> {
+  const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+  const activeYear = activePath ? getModelYearFromTestPath(activePath) : undefined;
+  const knownYears = await findKnownModelYears(workspaceRoot);
+
+  if (knownYears.length === 0) {
+    const input = await vscode.window.showInputBox({
+      prompt: 'Model year',
+      value: activeYear,
+      validateInput: value => /^\d{4}$/.test(value.trim()) ? undefined : 'Enter a four-digit model year'
+    });
+    return input ? parseInt(input.trim(), 10) : undefined;
+  }
+
+  const items = knownYears.map(year => ({ label: String(year), description: String(year) === activeYear ? 'active test file' : undefined }));
+  items.sort((a, b) => (b.description ? 1 : 0) - (a.description ? 1 : 0));
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Show the effective signalset for model year…' });
+  return picked ? parseInt(picked.label, 10) : undefined;
+}
+
+/**
+ * Creates the command that shows the signalset a model year resolves to, as a read-only document
+ * @returns Disposables for the content provider, the command and the watcher that keeps open documents current
+ */
+export function createEffectiveSignalsetProvider(): vscode.Disposable[] {
+  const provider = new EffectiveSignalsetContentProvider();
+  const watcher = vscode.workspace.createFileSystemWatcher('**/signalsets/v3/*.json');
+
+  const command = vscode.commands.registerCommand('obdb.showEffectiveSignalset', async (modelYear?: number) => {
+    const workspaceRoot = await pickWorkspaceRoot();
+    if (!workspaceRoot) {
+      vscode.window.showErrorMessage('Open a vehicle repository to show its effective signalset');
+      return;
+    }
+
+    const year = typeof modelYear === 'number' ? modelYear : await pickModelYear(workspaceRoot);
+    if (year === undefined) {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(effectiveSignalsetUri(workspaceRoot, year));
+    await vscode.languages.setTextDocumentLanguage(document, 'jsonc');
+    await vscode.window.showTextDocument(document, { preview: true });
+  });
+
+  return [
+    provider,
+    vscode.workspace.registerTextDocumentContentProvider(EFFECTIVE_SIGNALSET_SCHEME, provider),
+    command,
+    watcher,
+    watcher.onDidCreate(() => provider.refresh()),
+    watcher.onDidChange(() => provider.refresh()),
+    watcher.onDidDelete(() => provider.refresh())
+  ];
+}
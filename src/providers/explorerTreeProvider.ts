@@ -0,0 +1,377 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { generateCommandIdFromDefinition } from '../utils/commandIdUtils';
+import { getSupportedModelYearsForCommand, getUnsupportedModelYearsForCommand } from '../utils/commandSupportUtils';
+import { getCommandMatchKey, getTestFileCommandId, isSignalsetPath } from '../utils/signalReferences';
+import { readWorkspaceSignalsets } from '../utils/workspaceSignalReferences';
+import { SignalLinter } from '../linter/signalLinter';
+import { configureLinterForUri } from './diagnosticsProvider';
+import { LintContext, loadLintContext } from '../linter/lintContext';
+
+/**
+ * A signal in the explorer, with the span of its ID
+ */
+interface ExplorerSignal {
+  id: string;
+  name?: string;
+  offset: number;
+  length: number;
+  problemCount: number;
+}
+
+/**
+ * A command in the explorer, with the span of its cmd property
+ */
+interface ExplorerCommand {
+  uri: vscode.Uri;
+  commandId: string;
+  hdr: string;
+  rax?: string;
+  offset: number;
+  length: number;
+  signals: ExplorerSignal[];
+  /** Lint problems anywhere in the command, including its signals */
+  problemCount: number;
+}
+
+/**
+ * A signalset and its commands in document order
+ */
+interface ExplorerSignalset {
+  uri: vscode.Uri;
+  commands: ExplorerCommand[];
+}
+
+/**
+ * A node of the explorer tree: signalset (only shown when the workspace has several), header,
+ * receive address, command, or signal
+ */
+type ExplorerNode =
+  | { kind: 'signalset', signalset: ExplorerSignalset }
+  | { kind: 'header', hdr: string, commands: ExplorerCommand[] }
+  | { kind: 'rax', hdr: string, rax: string, commands: ExplorerCommand[] }
+  | { kind: 'command', command: ExplorerCommand }
+  | { kind: 'signal', command: ExplorerCommand, signal: ExplorerSignal };
+
+/**
+ * Model years that support and explicitly don't support a command
+ */
+interface CommandSupportCounts {
+  supported: number;
+  unsupported: number;
+}
+
+/**
+ * Reads a signalset's commands and signals, counting lint problems against the command or signal they fall in
+ */
+function readSignalset(uri: vscode.Uri, text: string, linter: SignalLinter, lintContext: LintContext): ExplorerSignalset {
+  const root = jsonc.parseTree(text);
+  const commandNodes = root && jsonc.findNodeAtLocation(root, ['commands']);
+  const commands: ExplorerCommand[] = [];
+
+  configureLinterForUri(uri);
+  const problemOffsets = linter.lintText(text, lintContext).map(result => result.node.offset);
+  const countProblems = (node: jsonc.Node) =>
+    problemOffsets.filter(offset => offset >= node.offset && offset < node.offset + node.length).length;
+
+  for (const commandNode of commandNodes?.children || []) {
+    const command = jsonc.getNodeValue(commandNode);
+    if (!command || typeof command.hdr !== 'string' || !command.cmd) {
+      continue;
+    }
+
+    const signals: ExplorerSignal[] = [];
+    for (const signalNode of jsonc.findNodeAtLocation(commandNode, ['signals'])?.children || []) {
+      const idNode = jsonc.findNodeAtLocation(signalNode, ['id']);
+      if (idNode?.type !== 'string') {
+        continue;
+      }
+      const nameNode = jsonc.findNodeAtLocation(signalNode, ['name']);
+      signals.push({
+        id: idNode.value,
+        name: nameNode?.type === 'string' ? nameNode.value : undefined,
+        offset: idNode.offset,
+        length: idNode.length,
+        problemCount: countProblems(signalNode)
+      });
+    }
+
+    const cmdNode = jsonc.findNodeAtLocation(commandNode, ['cmd']) || commandNode;
+    commands.push({
+      uri,
+      commandId: generateCommandIdFromDefinition(command),
+      hdr: command.hdr,
+      rax: typeof command.rax === 'string' ? command.rax : undefined,
+      offset: cmdNode.offset,
+      length: cmdNode.length,
+      signals,
+      problemCount: countProblems(commandNode)
+    });
+  }
+
+  return { uri, commands };
+}
+
+/**
+ * Groups commands by a key, keeping the order keys are first seen in
+ */
+function groupBy(commands: ExplorerCommand[], key: (command: ExplorerCommand) => string): Map<string, ExplorerCommand[]> {
+  const groups = new Map<string, ExplorerCommand[]>();
+  for (const command of commands) {
+    const group = groups.get(key(command)) || [];
+    group.push(command);
+    groups.set(key(command), group);
+  }
+  return groups;
+}
+
+/**
+ * Formats a problem count badge, or nothing when there are no problems
+ */
+function formatProblems(count: number): string {
+  return count > 0 ? `⚠ ${count}` : '';
+}
+
+/**
+ * Tree data provider for the OBDb explorer: the workspace's signalsets grouped by header, receive
+ * address, command and signal, with model-year support and lint problem counts
+ */
+class ObdbExplorerProvider implements vscode.TreeDataProvider<ExplorerNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<ExplorerNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private readonly linter = new SignalLinter();
+  private signalsets: Promise<ExplorerSignalset[]> | undefined;
+  private readonly supportCounts = new Map<string, Promise<CommandSupportCounts>>();
+
+  /**
+   * Rereads the signalsets and redraws the tree
+   * @param testsChanged Whether test cases changed too, so model-year support must be looked up again
+   */
+  refresh(testsChanged = false): void {
+    this.signalsets = undefined;
+    if (testsChanged) {
+      this.supportCounts.clear();
+    }
+    this.changeEmitter.fire(undefined);
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+    if (!node) {
+      const signalsets = await this.getSignalsets();
+      if (signalsets.length === 1) {
+        return this.groupByHeader(signalsets[0].commands);
+      }
+      return signalsets.map(signalset => ({ kind: 'signalset', signalset }));
+    }
+
+    switch (node.kind) {
+      case 'signalset':
+        return this.groupByHeader(node.signalset.commands);
+      case 'header': {
+        // Commands without a receive address sit directly under their header
+        const children: ExplorerNode[] = [];
+        for (const [rax, commands] of groupBy(node.commands, command => command.rax || '')) {
+          if (rax) {
+            children.push({ kind: 'rax', hdr: node.hdr, rax, commands });
+          } else {
+            children.push(...commands.map(command => ({ kind: 'command' as const, command })));
+          }
+        }
+        return children;
+      }
+      case 'rax':
+        return node.commands.map(command => ({ kind: 'command', command }));
+      case 'command':
+        return node.command.signals.map(signal => ({ kind: 'signal', command: node.command, signal }));
+      case 'signal':
+        return [];
+    }
+  }
+
+  async getTreeItem(node: ExplorerNode): Promise<vscode.TreeItem> {
+    const collapsed = vscode.TreeItemCollapsibleState.Collapsed;
+
+    switch (node.kind) {
+      case 'signalset': {
+        const item = new vscode.TreeItem(vscode.workspace.asRelativePath(node.signalset.uri), collapsed);
+        item.iconPath = new vscode.ThemeIcon('file-code');
+        item.description = `${node.signalset.commands.length} commands`;
+        return item;
+      }
+      case 'header':
+      case 'rax': {
+        const problemCount = node.commands.reduce((sum, command) => sum + command.problemCount, 0);
+        const item = new vscode.TreeItem(node.kind === 'header' ? node.hdr : `→ ${node.rax}`, collapsed);
+        item.iconPath = new vscode.ThemeIcon(node.kind === 'header' ? 'circuit-board' : 'arrow-right');
+        item.description = [`${node.commands.length} commands`, formatProblems(problemCount)].filter(part => part).join('  ');
+        item.tooltip = node.kind === 'header' ? `Header ${node.hdr}` : `Header ${node.hdr}, receive address ${node.rax}`;
+        return item;
+      }
+      case 'command': {
+        const { command } = node;
+        const counts = await this.getSupportCounts(command);
+        const item = new vscode.TreeItem(
+          command.commandId,
+          command.signals.length > 0 ? collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        item.iconPath = new vscode.ThemeIcon('symbol-module');
+        item.description = [`✓ ${counts.supported}`, counts.unsupported > 0 ? `✗ ${counts.unsupported}` : '', formatProblems(command.problemCount)]
+          .filter(part => part)
+          .join('  ');
+        item.tooltip = `${command.commandId}\n` +
+          `Supported by ${counts.supported} model year(s), unsupported by ${counts.unsupported}\n` +
+          `${command.problemCount} lint problem(s)`;
+        item.contextValue = 'obdbCommand';
+        item.command = { command: 'obdb.explorer.revealCommand', title: 'Reveal in Editor', arguments: [node] };
+        return item;
+      }
+      case 'signal': {
+        const { signal } = node;
+        const item = new vscode.TreeItem(signal.id, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = new vscode.ThemeIcon('symbol-field');
+        item.description = [signal.name || '', formatProblems(signal.problemCount)].filter(part => part).join('  ');
+        item.contextValue = 'obdbSignal';
+        item.command = { command: 'obdb.explorer.revealCommand', title: 'Reveal in Editor', arguments: [node] };
+        return item;
+      }
+    }
+  }
+
+  private getSignalsets(): Promise<ExplorerSignalset[]> {
+    if (!this.signalsets) {
+      this.signalsets = readWorkspaceSignalsets().then(files => Promise.all(files.map(async file => {
+        const lintContext = await loadLintContext(file.uri.fsPath, vscode.workspace.getWorkspaceFolder(file.uri)?.uri.fsPath);
+        return readSignalset(file.uri, file.text, this.linter, lintContext);
+      })));
+    }
+    return this.signalsets;
+  }
+
+  private groupByHeader(commands: ExplorerCommand[]): ExplorerNode[] {
+    return [...groupBy(commands, command => command.hdr)]
+      .map(([hdr, headerCommands]) => ({ kind: 'header', hdr, commands: headerCommands }));
+  }
+
+  /**
+   * Looks up how many model years support a command, caching the result until test cases change
+   */
+  private getSupportCounts(command: ExplorerCommand): Promise<CommandSupportCounts> {
+    const workspaceRoot = vscode.workspace.getWorkspaceFolder(command.uri)?.uri.fsPath;
+    if (!workspaceRoot) {
+      return Promise.resolve({ supported: 0, unsupported: 0 });
+    }
+
+    const key = `${workspaceRoot}|${command.commandId}`;
+    let counts = this.supportCounts.get(key);
+    if (!counts) {
+      counts = Promise.all([
+        getSupportedModelYearsForCommand(command.commandId, workspaceRoot),
+        getUnsupportedModelYearsForCommand(command.commandId, workspaceRoot)
+      ]).then(([supported, unsupported]) => ({ supported: supported.length, unsupported: unsupported.length }));
+      this.supportCounts.set(key, counts);
+    }
+    return counts;
+  }
+}
+
+/**
+ * Opens a command's or signal's signalset and selects it
+ */
+async function revealNode(node: ExplorerNode): Promise<vscode.TextEditor | undefined> {
+  if (node.kind !== 'command' && node.kind !== 'signal') {
+    return undefined;
+  }
+
+  const document = await vscode.workspace.openTextDocument(node.command.uri);
+  const editor = await vscode.window.showTextDocument(document);
+  const span = node.kind === 'signal' ? node.signal : node.command;
+  const range = new vscode.Range(document.positionAt(span.offset), document.positionAt(span.offset + span.length));
+  editor.selection = new vscode.Selection(range.start, range.end);
+  editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  return editor;
+}
+
+/**
+ * Runs the tests of every model year that has a test file for a command
+ */
+async function runCommandTests(node: ExplorerNode): Promise<void> {
+  if (node.kind !== 'command') {
+    return;
+  }
+
+  // Only the command's own vehicle repository has tests for it
+  const matchKey = getCommandMatchKey(node.command.commandId);
+  const folder = vscode.workspace.getWorkspaceFolder(node.command.uri);
+  const include = '**/tests/test_cases/*/commands/*.yaml';
+  const testFiles = (await vscode.workspace.findFiles(folder ? new vscode.RelativePattern(folder, include) : include, '**/node_modules/**'))
+    .filter(uri => getCommandMatchKey(getTestFileCommandId(uri.fsPath)) === matchKey);
+
+  if (testFiles.length === 0) {
+    vscode.window.showInformationMessage(`No test cases found for ${node.command.commandId}`);
+    return;
+  }
+
+  await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Running tests for ${node.command.commandId}` },
+    async progress => {
+      for (const uri of testFiles) {
+        progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / testFiles.length });
+        await vscode.commands.executeCommand('obdb.runAllTests', uri);
+      }
+    }
+  );
+}
+
+/**
+ * Creates the OBDb explorer tree view and its context menu commands
+ * @returns Disposables for the view, its commands, and the watchers that keep it current
+ */
+export function createExplorerTreeView(): vscode.Disposable[] {
+  const provider = new ObdbExplorerProvider();
+  const treeView = vscode.window.createTreeView('obdbExplorer', { treeDataProvider: provider, showCollapseAll: true });
+
+  const signalsetWatcher = vscode.workspace.createFileSystemWatcher('**/signalsets/v3/*.json');
+  const testWatcher = vscode.workspace.createFileSystemWatcher('**/tests/test_cases/**/*.yaml');
+
+  // Typing in a signalset shouldn't reparse and relint the whole workspace on every keystroke
+  let refreshTimer: NodeJS.Timeout | undefined;
+  const scheduleRefresh = () => {
+    if (refreshTimer) {
+      clearTimeout(refreshTimer);
+    }
+    refreshTimer = setTimeout(() => provider.refresh(), 1000);
+  };
+
+  return [
+    treeView,
+    provider,
+    vscode.commands.registerCommand('obdb.explorer.refresh', () => provider.refresh(true)),
+    vscode.commands.registerCommand('obdb.explorer.revealCommand', (node: ExplorerNode) => revealNode(node)),
+    vscode.commands.registerCommand('obdb.explorer.runTests', (node: ExplorerNode) => runCommandTests(node)),
+    vscode.commands.registerCommand('obdb.explorer.openWorkbench', async (node: ExplorerNode) => {
+      // The workbench follows the cursor, so select the command before opening it
+      if (await revealNode(node)) {
+        await vscode.commands.executeCommand('obdb.showBitmapVisualization');
+      }
+    }),
+    signalsetWatcher,
+    signalsetWatcher.onDidCreate(() => provider.refresh()),
+    signalsetWatcher.onDidChange(() => provider.refresh()),
+    signalsetWatcher.onDidDelete(() => provider.refresh()),
+    testWatcher,
+    testWatcher.onDidCreate(() => provider.refresh(true)),
+    testWatcher.onDidChange(() => provider.refresh(true)),
+    testWatcher.onDidDelete(() => provider.refresh(true)),
+    vscode.workspace.onDidChangeTextDocument(event => {
+      if (isSignalsetPath(event.document.uri.fsPath)) {
+        scheduleRefresh();
+      }
+    }),
+    { dispose: () => refreshTimer && clearTimeout(refreshTimer) }
+  ];
+}
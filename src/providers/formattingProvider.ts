@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { formatSignalset } from '../utils/signalsetFormatter';
+
+/**
+ * Formatting provider that rewrites a signalset in the canonical OBDb layout
+ */
+class SignalsetFormattingProvider implements vscode.DocumentFormattingEditProvider {
+  provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+    const sortCommands = vscode.workspace.getConfiguration('obdb.format', document.uri).get<boolean>('sortCommands', false);
+    const formatted = formatSignalset(document.getText(), { sortCommands });
+    if (formatted === undefined) {
+      // Leave documents with syntax errors alone rather than guess at their structure
+      return [];
+    }
+
+    const text = document.eol === vscode.EndOfLine.CRLF ? formatted.replace(/\n/g, '\r\n') : formatted;
+    if (text === document.getText()) {
+      return [];
+    }
+
+    const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+    return [vscode.TextEdit.replace(fullRange, text)];
+  }
+}
+
+/**
+ * Creates a document formatting provider for signalset JSON files
+ * @returns A disposable formatting provider registration
+ */
+export function createFormattingProvider(): vscode.Disposable {
+  return vscode.languages.registerDocumentFormattingEditProvider(
+    { language: 'json', pattern: '**/signalsets/v3/*.json' },
+    new SignalsetFormattingProvider()
+  );
+}
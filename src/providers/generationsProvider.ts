@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatYearsAsRanges } from '../utils/generations';
+import { findGenerationEntries, GENERATION_FIELDS, GenerationEntry, validateGenerations } from '../utils/generationsValidator';
+import { getTestFileCommandId } from '../utils/signalReferences';
+
+const GENERATIONS_SELECTOR: vscode.DocumentSelector = { language: 'yaml', pattern: '**/generations.yaml' };
+
+/**
+ * Checks whether a document is a repository's generations.yaml
+ */
+function isGenerationsDocument(document: vscode.TextDocument): boolean {
+  return path.basename(document.uri.fsPath) === 'generations.yaml';
+}
+
+/**
+ * Reports the problems of a generations.yaml document
+ */
+function updateDiagnostics(document: vscode.TextDocument, collection: vscode.DiagnosticCollection): void {
+  const diagnostics = validateGenerations(document.getText()).map(problem => {
+    const range = new vscode.Range(document.positionAt(problem.offset), document.positionAt(problem.offset + problem.length));
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      problem.message,
+      problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = 'obdb-generations';
+    return diagnostic;
+  });
+  collection.set(document.uri, diagnostics);
+}
+
+/**
+ * Completion provider for the fields of generations.yaml entries
+ */
+class GenerationsCompletionProvider implements vscode.CompletionItemProvider {
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+    const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+
+    // Only complete keys: "  - na", "    start_" or an empty line inside the list
+    const match = linePrefix.match(/^(\s*)(-\s+)?([A-Za-z_]*)$/);
+    if (!match) {
+      return undefined;
+    }
+    const indent = match[1].length + (match[2] ? match[2].length : 0);
+    if (indent === 0) {
+      return document.getText().match(/^generations\s*:/m) ? undefined : [this.createGenerationsItem()];
+    }
+
+    const wordRange = new vscode.Range(position.translate(0, -match[3].length), position);
+    const existingKeys = match[2] ? new Set<string>() : this.findEntryKeys(document, position.line, indent);
+    const items = GENERATION_FIELDS
+      .filter(field => !existingKeys.has(field.key))
+      .map((field, index) => {
+        const item = new vscode.CompletionItem(field.key, vscode.CompletionItemKind.Property);
+        item.detail = field.required ? field.description : `${field.description} (optional)`;
+        item.insertText = new vscode.SnippetString(`${field.key}: ${field.valueSnippet}`);
+        item.range = wordRange;
+        item.sortText = String(index).padStart(2, '0');
+        return item;
+      });
+
+    if (match[2]) {
+      items.push(this.createEntryItem(document, wordRange));
+    }
+    return items;
+  }
+
+  /**
+   * Collects the keys already present in the entry around a line, by walking up to its "- " line
+   * and down to the next entry
+   */
+  private findEntryKeys(document: vscode.TextDocument, line: number, indent: number): Set<string> {
+    const keys = new Set<string>();
+    const keyPattern = /^(\s*)(-\s+)?([A-Za-z_]+)\s*:/;
+
+    for (let current = line - 1; current >= 0; current--) {
+      const keyMatch = document.lineAt(current).text.match(keyPattern);
+      if (!keyMatch) {
+        continue;
+      }
+      const keyIndent = keyMatch[1].length + (keyMatch[2] ? keyMatch[2].length : 0);
+      if (keyIndent !== indent) {
+        break;
+      }
+      keys.add(keyMatch[3]);
+      if (keyMatch[2]) {
+        break;
+      }
+    }
+    for (let current = line + 1; current < document.lineCount; current++) {
+      const keyMatch = document.lineAt(current).text.match(keyPattern);
+      if (!keyMatch) {
+        continue;
+      }
+      const keyIndent = keyMatch[1].length + (keyMatch[2] ? keyMatch[2].length : 0);
+      if (keyIndent !== indent || keyMatch[2]) {
+        break;
+      }
+      keys.add(keyMatch[3]);
+    }
+
+    return keys;
+  }
+
+  /**
+   * Creates a completion for the top-level generations list
+   */
+  private createGenerationsItem(): vscode.CompletionItem {
+    const item = new vscode.CompletionItem('generations', vscode.CompletionItemKind.Property);
+    item.detail = 'The vehicle\'s generations, oldest first';
+    item.insertText = new vscode.SnippetString('generations:\n  - name: $1\n    start_year: $2\n    end_year: ${3:null}\n    description: $0');
+    return item;
+  }
+
+  /**
+   * Creates a completion for a whole generation entry that starts after the latest existing generation
+   */
+  private createEntryItem(document: vscode.TextDocument, range: vscode.Range): vscode.CompletionItem {
+    const entries = findGenerationEntries(document.getText()) || [];
+    const endYears = entries.map(entry => entry.value?.end_year).filter(year => Number.isInteger(year));
+    const startYear = endYears.length > 0 ? String(Math.max(...endYears) + 1) : '';
+
+    const item = new vscode.CompletionItem('generation', vscode.CompletionItemKind.Snippet);
+    item.detail = 'New generation';
+    const indent = ' '.repeat(range.start.character);
+    item.insertText = new vscode.SnippetString(
+      `name: $1\n${indent}start_year: \${2:${startYear}}\n${indent}end_year: \${3:null}\n${indent}description: $0`
+    );
+    item.range = range;
+    item.sortText = '99';
+    return item;
+  }
+}
+
+/**
+ * Lists the model years with test cases under a repository's tests/test_cases, and the commands each year tests
+ */
+async function readTestCaseYears(workspaceRoot: string): Promise<Map<number, string[]>> {
+  const testCasesPath = path.join(workspaceRoot, 'tests', 'test_cases');
+  const years = new Map<number, string[]>();
+
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(testCasesPath);
+  } catch {
+    return years;
+  }
+
+  for (const entry of entries.filter(name => /^\d{4}$/.test(name))) {
+    let files: string[] = [];
+    try {
+      files = await fs.promises.readdir(path.join(testCasesPath, entry, 'commands'));
+    } catch {
+      // A year may only have a command_support.yaml
+    }
+    years.set(parseInt(entry, 10), files.filter(file => /\.ya?ml$/.test(file)).map(file => getTestFileCommandId(file)));
+  }
+
+  return years;
+}
+
+/**
+ * Hover provider showing the test-case years and tested commands that fall inside a generation,
+ * and the meaning of a generation field
+ */
+class GenerationsHoverProvider implements vscode.HoverProvider {
+  async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const offset = document.offsetAt(position);
+    const entry = (findGenerationEntries(document.getText()) || [])
+      .find(candidate => offset >= candidate.offset && offset <= candidate.offset + candidate.length);
+    if (!entry || !entry.value || typeof entry.value !== 'object') {
+      return undefined;
+    }
+
+    const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z_]+/);
+    const field = wordRange && GENERATION_FIELDS.find(candidate => candidate.key === document.getText(wordRange));
+    if (field && wordRange && document.lineAt(position.line).text.slice(wordRange.end.character).trimStart().startsWith(':')) {
+      return new vscode.Hover(new vscode.MarkdownString(`**${field.key}**: ${field.description}`), wordRange);
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const workspaceRoot = workspaceFolder ? workspaceFolder.uri.fsPath : path.dirname(document.uri.fsPath);
+    return new vscode.Hover(
+      await this.describeGeneration(entry, workspaceRoot),
+      new vscode.Range(document.positionAt(entry.offset), document.positionAt(entry.offset + entry.length))
+    );
+  }
+
+  private async describeGeneration(entry: GenerationEntry, workspaceRoot: string): Promise<vscode.MarkdownString> {
+    const { name, start_year: startYear, end_year: endYear, description } = entry.value;
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${typeof name === 'string' ? name : `Generation ${entry.index + 1}`}**`);
+    if (Number.isInteger(startYear)) {
+      markdown.appendMarkdown(` (${startYear}–${Number.isInteger(endYear) ? endYear : 'present'})`);
+    }
+    markdown.appendMarkdown('\n\n');
+    if (typeof description === 'string' && description.trim() !== '') {
+      markdown.appendText(description.trim());
+      markdown.appendMarkdown('\n\n');
+    }
+    if (!Number.isInteger(startYear)) {
+      return markdown;
+    }
+
+    const testCaseYears = await readTestCaseYears(workspaceRoot);
+    const years = [...testCaseYears.keys()]
+      .filter(year => year >= startYear && (!Number.isInteger(endYear) || year <= endYear))
+      .sort((a, b) => a - b);
+    if (years.length === 0) {
+      markdown.appendMarkdown('No test cases fall inside this generation');
+      return markdown;
+    }
+
+    const commands = new Set(years.flatMap(year => testCaseYears.get(year) || []));
+    markdown.appendMarkdown(`**Test case years:** ${formatYearsAsRanges(years.map(String))}\n\n`);
+    markdown.appendMarkdown(`**Tested commands (${commands.size}):** `);
+
+    const shownCommands = [...commands].sort().slice(0, 30);
+    markdown.appendMarkdown(shownCommands.map(commandId => `\`${commandId}\``).join(', '));
+    if (commands.size > shownCommands.length) {
+      markdown.appendMarkdown(` and ${commands.size - shownCommands.length} more`);
+    }
+    return markdown;
+  }
+}
+
+/**
+ * Creates the diagnostics, completion and hover providers for generations.yaml
+ * @returns Disposables for the providers and the document listeners that keep diagnostics current
+ */
+export function createGenerationsProviders(): vscode.Disposable[] {
+  const collection = vscode.languages.createDiagnosticCollection('obdb-generations');
+  const update = (document: vscode.TextDocument) => {
+    if (isGenerationsDocument(document)) {
+      updateDiagnostics(document, collection);
+    }
+  };
+
+  vscode.workspace.textDocuments.forEach(update);
+
+  return [
+    collection,
+    vscode.workspace.onDidOpenTextDocument(update),
+    vscode.workspace.onDidChangeTextDocument(event => update(event.document)),
+    vscode.workspace.onDidCloseTextDocument(document => collection.delete(document.uri)),
+    vscode.languages.registerCompletionItemProvider(GENERATIONS_SELECTOR, new GenerationsCompletionProvider()),
+    vscode.languages.registerHoverProvider(GENERATIONS_SELECTOR, new GenerationsHoverProvider())
+  ];
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
 import { isPositionInCommand } from '../utils/commandParser';
 import { getModelYearsForSignalId } from '../utils/modelYears';
 import { generateBitMappingVisualization } from '../visualization/bitMapping';
@@ -7,6 +8,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { groupModelYearsByGeneration } from '../utils/generations';
+import { getWorkspaceRoot } from '../utils/workspaceFolders';
 import { numberToExcelColumn, bixToByte } from '../utils/bixConverter';
 import { getSupportedModelYearsForCommand, getUnsupportedModelYearsForCommand, stripReceiveFilter, createSimpleCommandId } from '../utils/commandSupportUtils';
 
@@ -36,7 +38,7 @@ export function createHoverProvider(): vscode.Disposable {
         // If we found a signal ID match, get its supported model years
         if (match && match[1] === word) {
           // Get the workspace root
-          const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+          const workspaceRoot = getWorkspaceRoot(document.uri);
           if (!workspaceRoot) {
             return undefined;
           }
@@ -49,7 +51,7 @@ export function createHoverProvider(): vscode.Disposable {
             markdownContent.appendMarkdown(`## ${word}\n\n`);
 
             // Group model years by generation
-            const groupedYears = await groupModelYearsByGeneration(modelYears);
+            const groupedYears = await groupModelYearsByGeneration(modelYears, workspaceRoot);
 
             // Display years grouped by generation
             markdownContent.appendMarkdown(`### Supported Model Years\n\n`);
@@ -170,7 +172,7 @@ export function createHoverProvider(): vscode.Disposable {
 
           if (commandId) {
             // Get the workspace root
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            const workspaceRoot = getWorkspaceRoot(document.uri);
             if (!workspaceRoot) {
               return undefined;
             }
@@ -189,7 +191,7 @@ export function createHoverProvider(): vscode.Disposable {
 
             if (allYears.length > 0) {
               // Group all years by generation
-              const allYearsByGeneration = await groupModelYearsByGeneration(allYears);
+              const allYearsByGeneration = await groupModelYearsByGeneration(allYears, workspaceRoot);
 
               markdownContent.appendMarkdown('```\n');
 
@@ -253,12 +255,10 @@ async function countMatchingSignals(document: vscode.TextDocument, regexPattern:
 
   // Parse the entire document content to find signal definitions
   const text = document.getText();
-  let jsonContent;
-
-  try {
-    jsonContent = JSON.parse(text);
-  } catch (error) {
-    console.error("Failed to parse JSON document:", error);
+  const parseErrors: jsonc.ParseError[] = [];
+  const jsonContent = jsonc.parse(text, parseErrors, { allowTrailingComma: true });
+  if (parseErrors.length > 0) {
+    console.error("Failed to parse JSON document:", parseErrors.map(error => jsonc.printParseErrorCode(error.error)).join(', '));
     return matchingSignals;
   }
 
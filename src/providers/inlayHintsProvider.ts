@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { formatByteLetterRange } from '../utils/bixConverter';
+import { calculateFormulaRange } from '../utils/signalFormula';
+
+/**
+ * Which kinds of inlay hints are shown, from the obdb.inlayHints settings
+ */
+interface InlayHintSettings {
+  byteRange: boolean;
+  valueRange: boolean;
+  unit: boolean;
+}
+
+/**
+ * Reads the inlay hint settings that apply to a document
+ */
+function getInlayHintSettings(document: vscode.TextDocument): InlayHintSettings {
+  const config = vscode.workspace.getConfiguration('obdb.inlayHints', document.uri);
+  return {
+    byteRange: config.get<boolean>('byteRange', true),
+    valueRange: config.get<boolean>('valueRange', true),
+    unit: config.get<boolean>('unit', true)
+  };
+}
+
+/**
+ * Inlay hints provider that annotates each signal's fmt with the bytes it covers, the range of
+ * values its formula can produce, and its unit
+ */
+class SignalInlayHintsProvider implements vscode.InlayHintsProvider {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeInlayHints = this.changeEmitter.event;
+
+  /**
+   * Asks the editor to request hints again, e.g. after the settings change
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  provideInlayHints(document: vscode.TextDocument, range: vscode.Range): vscode.InlayHint[] {
+    const settings = getInlayHintSettings(document);
+    if (!settings.byteRange && !settings.valueRange && !settings.unit) {
+      return [];
+    }
+
+    const root = jsonc.parseTree(document.getText());
+    const commands = root && jsonc.findNodeAtLocation(root, ['commands']);
+    const hints: vscode.InlayHint[] = [];
+
+    for (const commandNode of commands?.children || []) {
+      const signals = jsonc.findNodeAtLocation(commandNode, ['signals']);
+      for (const signalNode of signals?.children || []) {
+        const fmtNode = jsonc.findNodeAtLocation(signalNode, ['fmt']);
+        if (fmtNode?.type !== 'object') {
+          continue;
+        }
+
+        // Hints sit just after the fmt object's closing brace
+        const position = document.positionAt(fmtNode.offset + fmtNode.length);
+        if (!range.contains(position)) {
+          continue;
+        }
+
+        const fmt = jsonc.getNodeValue(fmtNode);
+        for (const [label, tooltip] of this.getHintLabels(fmt, settings)) {
+          const hint = new vscode.InlayHint(position, label);
+          hint.tooltip = tooltip;
+          hint.paddingLeft = true;
+          hints.push(hint);
+        }
+      }
+    }
+
+    return hints;
+  }
+
+  /**
+   * Builds the labels and tooltips of a signal's hints, in display order
+   */
+  private getHintLabels(fmt: any, settings: InlayHintSettings): [string, string][] {
+    const labels: [string, string][] = [];
+
+    if (settings.byteRange && typeof fmt.len === 'number') {
+      const bix = typeof fmt.bix === 'number' ? fmt.bix : 0;
+      labels.push([formatByteLetterRange(bix, fmt.len), `Bits ${bix} to ${bix + fmt.len - 1}`]);
+    }
+
+    if (settings.valueRange) {
+      const formulaRange = calculateFormulaRange({ fmt });
+      if (formulaRange) {
+        labels.push([`${formulaRange.min} to ${formulaRange.max}`, 'Range of values the formula can produce']);
+      }
+    }
+
+    if (settings.unit && typeof fmt.unit === 'string' && fmt.unit) {
+      labels.push([fmt.unit, 'Unit']);
+    }
+
+    return labels;
+  }
+}
+
+/**
+ * Creates an inlay hints provider for signal formats in signalset JSON files
+ * @returns Disposables for the provider registration and the settings listener that refreshes it
+ */
+export function createInlayHintsProvider(): vscode.Disposable[] {
+  const provider = new SignalInlayHintsProvider();
+
+  return [
+    vscode.languages.registerInlayHintsProvider(
+      { language: 'json', pattern: '**/signalsets/v3/*.json' },
+      provider
+    ),
+    provider,
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('obdb.inlayHints')) {
+        provider.refresh();
+      }
+    })
+  ];
+}
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import {
+  findCommandSpans,
+  findCommandSupportSpans,
+  findSignalGroups,
+  findTestCommandIdSpan,
+  getCommandAtOffset,
+  getCommandMatchKey,
+  getSignalIdAtOffset,
+  getTestFileCommandId,
+  isCommandSupportPath,
+  isTestCasePath,
+  signalGroupMatches
+} from '../utils/signalReferences';
+import {
+  createRangeMapper,
+  findWorkspaceSignalReferences,
+  readWorkspaceCommandSupport,
+  readWorkspaceSignalsets,
+  readWorkspaceTestCases,
+  spanToRange
+} from '../utils/workspaceSignalReferences';
+
+/**
+ * Reference provider for signal IDs and commands
+ *
+ * Works from either side: a signal ID in a signalset or a test's expected_values, and a
+ * command in a signalset, a test's command_id, or a command_support.yaml entry.
+ */
+class SignalReferenceProvider implements vscode.ReferenceProvider {
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Location[] | undefined> {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const filePath = document.uri.fsPath;
+
+    // command_support.yaml lists commands only
+    if (!isCommandSupportPath(filePath)) {
+      const signal = getSignalIdAtOffset(text, offset, isTestCasePath(filePath));
+      if (signal) {
+        return this.findSignalReferences(signal.signalId, document, position, context, token);
+      }
+    }
+
+    const command = getCommandAtOffset(text, offset, filePath);
+    if (command) {
+      return this.findCommandReferences(command.commandId, document, token);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the signalsets that define a signal, the tests that assert it, and the signal groups that match it
+   */
+  private async findSignalReferences(
+    signalId: string,
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Location[]> {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const signalsets = await readWorkspaceSignalsets(token, folder);
+    const testCases = await readWorkspaceTestCases(token, undefined, folder);
+
+    const locations = findWorkspaceSignalReferences(signalId, signalsets, testCases)
+      // The definition being asked about is only listed when the caller wants declarations
+      .filter(reference => context.includeDeclaration ||
+        !(reference.uri.toString() === document.uri.toString() && reference.range.contains(position)))
+      .map(reference => new vscode.Location(reference.uri, reference.range));
+
+    for (const file of signalsets) {
+      const toRange = createRangeMapper(file.text);
+      for (const group of findSignalGroups(file.text)) {
+        if (signalGroupMatches(group, signalId)) {
+          locations.push(new vscode.Location(file.uri, toRange(group.span)));
+        }
+      }
+    }
+
+    return locations;
+  }
+
+  /**
+   * Finds the signalsets that define a command, its test files, and its command_support.yaml entries
+   */
+  private async findCommandReferences(
+    commandId: string,
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Location[]> {
+    const matchKey = getCommandMatchKey(commandId);
+    const locations: vscode.Location[] = [];
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+
+    for (const file of await readWorkspaceSignalsets(token, folder)) {
+      const toRange = createRangeMapper(file.text);
+      for (const span of findCommandSpans(file.text, matchKey)) {
+        locations.push(new vscode.Location(file.uri, toRange(span)));
+      }
+    }
+
+    // Test files are named after their command, so only the matching ones need reading
+    const testCases = await readWorkspaceTestCases(token, uri => getCommandMatchKey(getTestFileCommandId(uri.fsPath)) === matchKey, folder);
+    for (const file of testCases) {
+      const span = findTestCommandIdSpan(file.text);
+      locations.push(new vscode.Location(file.uri, span ? spanToRange(file.text, span) : new vscode.Position(0, 0)));
+    }
+
+    for (const file of await readWorkspaceCommandSupport(token, folder)) {
+      const toRange = createRangeMapper(file.text);
+      for (const span of findCommandSupportSpans(file.text, matchKey)) {
+        locations.push(new vscode.Location(file.uri, toRange(span)));
+      }
+    }
+
+    return locations;
+  }
+}
+
+/**
+ * Creates a reference provider for signal IDs and commands in signalsets and test files
+ * @returns A disposable reference provider registration
+ */
+export function createReferenceProvider(): vscode.Disposable {
+  return vscode.languages.registerReferenceProvider(
+    [
+      { language: 'json', pattern: '**/signalsets/v3/*.json' },
+      { language: 'yaml', pattern: '**/tests/test_cases/*/commands/*.yaml' },
+      { language: 'yaml', pattern: '**/tests/test_cases/*/command_support.yaml' }
+    ],
+    new SignalReferenceProvider()
+  );
+}
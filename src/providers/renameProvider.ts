@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { findSignalGroups, findSignalIdSpans, getSignalIdAtOffset, isTestCasePath, signalGroupMatches } from '../utils/signalReferences';
+import { findWorkspaceSignalReferences, readWorkspaceSignalsets, readWorkspaceTestCases, WorkspaceTextFile } from '../utils/workspaceSignalReferences';
+
+/**
+ * Rename provider for signal IDs, from either their signalset definition or a test case's expected_values
+ */
+class SignalRenameProvider implements vscode.RenameProvider {
+  prepareRename(document: vscode.TextDocument, position: vscode.Position): vscode.ProviderResult<{ range: vscode.Range, placeholder: string }> {
+    const span = getSignalIdAtOffset(document.getText(), document.offsetAt(position), isTestCasePath(document.uri.fsPath));
+    if (!span) {
+      throw new Error('Only signal IDs can be renamed here');
+    }
+    return {
+      range: new vscode.Range(document.positionAt(span.offset), document.positionAt(span.offset + span.length)),
+      placeholder: span.signalId
+    };
+  }
+
+  async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    token: vscode.CancellationToken
+  ): Promise<vscode.WorkspaceEdit | undefined> {
+    const span = getSignalIdAtOffset(document.getText(), document.offsetAt(position), isTestCasePath(document.uri.fsPath));
+    if (!span || span.signalId === newName) {
+      return undefined;
+    }
+    if (!/^[A-Z0-9_]+$/.test(newName)) {
+      throw new Error(`"${newName}" is not a valid signal ID: use uppercase letters, numbers, and underscores`);
+    }
+
+    const oldName = span.signalId;
+    // Other vehicle repositories in the workspace have their own signals that happen to share IDs
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const signalsets = await readWorkspaceSignalsets(token, folder);
+    const testCases = await readWorkspaceTestCases(token, undefined, folder);
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+
+    const warnings = this.findRenameWarnings(oldName, newName, signalsets);
+    if (warnings.length > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `Renaming ${oldName} to ${newName} may break the signalset`,
+        { modal: true, detail: warnings.join('\n') },
+        'Rename Anyway'
+      );
+      if (choice !== 'Rename Anyway') {
+        return new vscode.WorkspaceEdit();
+      }
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const reference of findWorkspaceSignalReferences(oldName, signalsets, testCases)) {
+      edit.replace(reference.uri, reference.range, newName, {
+        label: reference.isDefinition ? 'Signal definitions' : 'Test case expected values',
+        needsConfirmation: false
+      });
+    }
+    return edit;
+  }
+
+  /**
+   * Finds the problems a rename would introduce in the signalsets that define the signal
+   * @returns One message per problem
+   */
+  private findRenameWarnings(oldName: string, newName: string, signalsets: WorkspaceTextFile[]): string[] {
+    const warnings: string[] = [];
+
+    for (const file of signalsets) {
+      if (findSignalIdSpans(file.text, oldName).length === 0) {
+        continue;
+      }
+      const fileName = vscode.workspace.asRelativePath(file.uri);
+      const groups = findSignalGroups(file.text);
+
+      // The same check UniqueSignalIdRule makes: IDs must be unique across signals and signal groups
+      const collides = findSignalIdSpans(file.text, newName).length > 0 || groups.some(group => group.id === newName);
+      if (collides) {
+        warnings.push(`${fileName}: ${newName} is already used by another signal or signal group`);
+      }
+
+      for (const group of groups) {
+        if (signalGroupMatches(group, oldName) && !signalGroupMatches(group, newName)) {
+          warnings.push(`${fileName}: signal group ${group.id} (${group.matchingRegex}) would no longer include ${newName}`);
+        }
+      }
+    }
+
+    return warnings;
+  }
+}
+
+/**
+ * Creates a rename provider for signal IDs in signalsets and test case files
+ * @returns A disposable rename provider registration
+ */
+export function createRenameProvider(): vscode.Disposable {
+  return vscode.languages.registerRenameProvider(
+    [
+      { language: 'json', pattern: '**/signalsets/v3/*.json' },
+      { language: 'yaml', pattern: '**/tests/test_cases/*/commands/*.yaml' }
+    ],
+    new SignalRenameProvider()
+  );
+}
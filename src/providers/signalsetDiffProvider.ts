@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { diffSignalsets, formatDiffMarkdown } from '../utils/signalsetDiff';
+
+/**
+ * Reads the version of a file committed at HEAD
+ * @returns The committed text, or undefined when the file is not part of HEAD yet
+ */
+function readHeadVersion(filePath: string): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    cp.execFile(
+      'git',
+      ['show', `HEAD:./${path.basename(filePath)}`],
+      { cwd: path.dirname(filePath), maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout);
+        } else if (/exists on disk, but not in|does not exist in/.test(stderr)) {
+          resolve(undefined);
+        } else {
+          reject(new Error(stderr.trim() || error.message));
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Reports how a signalset differs from its committed version, as Markdown ready for a pull request comment
+ */
+async function diffAgainstHead(uri?: vscode.Uri): Promise<void> {
+  const activeDocument = vscode.window.activeTextEditor?.document;
+  const signalsetUri = uri ?? (activeDocument && /signalsets[\\/]v3[\\/][^\\/]+\.json$/.test(activeDocument.uri.fsPath)
+    ? activeDocument.uri
+    : undefined);
+  if (!signalsetUri || signalsetUri.scheme !== 'file') {
+    vscode.window.showErrorMessage('Open a signalset in signalsets/v3 to compare it with HEAD');
+    return;
+  }
+
+  // The open document may have unsaved edits, which are part of what gets reviewed
+  const document = await vscode.workspace.openTextDocument(signalsetUri);
+  const after = jsonc.parse(document.getText());
+  const headText = await readHeadVersion(signalsetUri.fsPath);
+  const before = headText !== undefined ? jsonc.parse(headText) : { commands: [] };
+
+  const relativePath = vscode.workspace.asRelativePath(signalsetUri);
+  const diff = diffSignalsets(before, after);
+  const title = headText !== undefined ? `Changes to ${relativePath} since HEAD` : `${relativePath} (not in HEAD yet)`;
+
+  const report = await vscode.workspace.openTextDocument({ content: formatDiffMarkdown(diff, title), language: 'markdown' });
+  await vscode.window.showTextDocument(report, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+}
+
+/**
+ * Creates the command that compares a signalset with its version at git HEAD
+ * @returns A disposable for the command
+ */
+export function createSignalsetDiffCommand(): vscode.Disposable {
+  return vscode.commands.registerCommand('obdb.diffSignalsetAgainstHead', async (uri?: vscode.Uri) => {
+    try {
+      await diffAgainstHead(uri);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to diff signalset: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { generateCommandIdFromDefinition } from '../utils/commandIdUtils';
+import { getTestFileCommandId, isSignalsetPath } from '../utils/signalReferences';
+import { createRangeMapper, readWorkspaceSignalsets } from '../utils/workspaceSignalReferences';
+
+/**
+ * Converts a node's extent to a range
+ */
+function nodeRange(document: vscode.TextDocument, node: jsonc.Node): vscode.Range {
+  return new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+}
+
+/**
+ * Gets a string property of an object node
+ */
+function getStringProperty(node: jsonc.Node, key: string): { value: string, node: jsonc.Node } | undefined {
+  const valueNode = jsonc.findNodeAtLocation(node, [key]);
+  return valueNode?.type === 'string' ? { value: valueNode.value, node: valueNode } : undefined;
+}
+
+/**
+ * Formats a signal's name and path for display next to its ID
+ */
+function describeSignal(signalNode: jsonc.Node): string {
+  return [getStringProperty(signalNode, 'name')?.value, getStringProperty(signalNode, 'path')?.value]
+    .filter(part => part)
+    .join(' · ');
+}
+
+/**
+ * Document symbol provider that outlines a signalset by command ID, with each command's signals as children
+ */
+class SignalsetDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const root = jsonc.parseTree(document.getText());
+    if (!root) {
+      return [];
+    }
+
+    const symbols: vscode.DocumentSymbol[] = [];
+
+    const commands = jsonc.findNodeAtLocation(root, ['commands']);
+    for (const commandNode of commands?.children || []) {
+      const command = jsonc.getNodeValue(commandNode);
+      if (!command || typeof command !== 'object') {
+        continue;
+      }
+
+      const signals = jsonc.findNodeAtLocation(commandNode, ['signals']);
+      const commandSymbol = new vscode.DocumentSymbol(
+        generateCommandIdFromDefinition(command),
+        `${signals?.children?.length ?? 0} signal(s)`,
+        vscode.SymbolKind.Module,
+        nodeRange(document, commandNode),
+        nodeRange(document, jsonc.findNodeAtLocation(commandNode, ['cmd']) || commandNode)
+      );
+
+      for (const signalNode of signals?.children || []) {
+        const id = getStringProperty(signalNode, 'id');
+        if (!id) {
+          continue;
+        }
+        commandSymbol.children.push(new vscode.DocumentSymbol(
+          id.value,
+          describeSignal(signalNode),
+          vscode.SymbolKind.Field,
+          nodeRange(document, signalNode),
+          nodeRange(document, id.node)
+        ));
+      }
+
+      symbols.push(commandSymbol);
+    }
+
+    const signalGroups = jsonc.findNodeAtLocation(root, ['signalGroups']);
+    for (const groupNode of signalGroups?.children || []) {
+      const id = getStringProperty(groupNode, 'id');
+      if (!id) {
+        continue;
+      }
+      symbols.push(new vscode.DocumentSymbol(
+        id.value,
+        getStringProperty(groupNode, 'matchingRegex')?.value || '',
+        vscode.SymbolKind.Enum,
+        nodeRange(document, groupNode),
+        nodeRange(document, id.node)
+      ));
+    }
+
+    return symbols;
+  }
+}
+
+/**
+ * Checks whether every character of a query appears in a name, in order and ignoring case
+ */
+function matchesQuery(name: string, query: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase()) {
+    index = lowerName.indexOf(char, index);
+    if (index === -1) {
+      return false;
+    }
+    index++;
+  }
+  return true;
+}
+
+/**
+ * Workspace symbol provider for signal IDs, signal groups and commands in signalsets and test files
+ */
+class SignalsetWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  private symbols: vscode.SymbolInformation[] | undefined;
+
+  /**
+   * Drops the symbol index so the next query rebuilds it
+   */
+  invalidate(): void {
+    this.symbols = undefined;
+  }
+
+  async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+    if (!this.symbols) {
+      const symbols = await this.buildSymbols(token);
+      if (token.isCancellationRequested) {
+        return [];
+      }
+      this.symbols = symbols;
+    }
+    return this.symbols.filter(symbol => matchesQuery(symbol.name, query));
+  }
+
+  /**
+   * Indexes every signalset's commands, signals and signal groups, and every test file's command
+   */
+  private async buildSymbols(token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+    const symbols: vscode.SymbolInformation[] = [];
+
+    for (const file of await readWorkspaceSignalsets(token)) {
+      const root = jsonc.parseTree(file.text);
+      if (!root) {
+        continue;
+      }
+      const container = vscode.workspace.asRelativePath(file.uri);
+      const toRange = createRangeMapper(file.text);
+      const location = (node: jsonc.Node) => new vscode.Location(file.uri, toRange(node));
+
+      const commands = jsonc.findNodeAtLocation(root, ['commands']);
+      for (const commandNode of commands?.children || []) {
+        const command = jsonc.getNodeValue(commandNode);
+        if (!command || typeof command !== 'object') {
+          continue;
+        }
+        const commandId = generateCommandIdFromDefinition(command);
+        symbols.push(new vscode.SymbolInformation(commandId, vscode.SymbolKind.Module, container, location(commandNode)));
+
+        const signals = jsonc.findNodeAtLocation(commandNode, ['signals']);
+        for (const signalNode of signals?.children || []) {
+          const id = getStringProperty(signalNode, 'id');
+          if (id) {
+            symbols.push(new vscode.SymbolInformation(id.value, vscode.SymbolKind.Field, commandId, location(id.node)));
+          }
+        }
+      }
+
+      const signalGroups = jsonc.findNodeAtLocation(root, ['signalGroups']);
+      for (const groupNode of signalGroups?.children || []) {
+        const id = getStringProperty(groupNode, 'id');
+        if (id) {
+          symbols.push(new vscode.SymbolInformation(id.value, vscode.SymbolKind.Enum, container, location(id.node)));
+        }
+      }
+    }
+
+    // Test files are named after their command, so they can be indexed without reading them
+    const testFiles = await vscode.workspace.findFiles('**/tests/test_cases/*/commands/*.yaml', '**/node_modules/**', undefined, token);
+    for (const uri of testFiles) {
+      const modelYear = path.basename(path.dirname(path.dirname(uri.fsPath)));
+      symbols.push(new vscode.SymbolInformation(
+        getTestFileCommandId(uri.fsPath),
+        vscode.SymbolKind.File,
+        `${modelYear} test cases`,
+        new vscode.Location(uri, new vscode.Position(0, 0))
+      ));
+    }
+
+    return symbols;
+  }
+}
+
+/**
+ * Creates the document and workspace symbol providers for signalsets
+ * @returns Disposables for the providers and the watchers that keep the workspace index current
+ */
+export function createSymbolProviders(): vscode.Disposable[] {
+  const workspaceSymbolProvider = new SignalsetWorkspaceSymbolProvider();
+
+  const signalsetWatcher = vscode.workspace.createFileSystemWatcher('**/signalsets/v3/*.json');
+  const testWatcher = vscode.workspace.createFileSystemWatcher('**/tests/test_cases/*/commands/*.yaml', false, true, false);
+  const invalidate = () => workspaceSymbolProvider.invalidate();
+
+  return [
+    vscode.languages.registerDocumentSymbolProvider(
+      { language: 'json', pattern: '**/signalsets/v3/*.json' },
+      new SignalsetDocumentSymbolProvider()
+    ),
+    vscode.languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider),
+    signalsetWatcher,
+    signalsetWatcher.onDidCreate(invalidate),
+    signalsetWatcher.onDidChange(invalidate),
+    signalsetWatcher.onDidDelete(invalidate),
+    testWatcher,
+    testWatcher.onDidCreate(invalidate),
+    testWatcher.onDidDelete(invalidate),
+    vscode.workspace.onDidChangeTextDocument(event => {
+      if (isSignalsetPath(event.document.uri.fsPath)) {
+        invalidate();
+      }
+    })
+  ];
+}
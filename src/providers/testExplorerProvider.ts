@@ -3,6 +3,9 @@ import * as path from 'path';
 import * as YAML from 'yaml';
 import * as fs from 'fs';
 import { testExecutionEvent } from '../utils/testCommands';
+import { loadSignalsetCommands, runTestFileContent } from '../utils/testCaseRunner';
+import { computeSignalCoverage } from '../utils/signalCoverage';
+import { createRangeMapper } from '../utils/workspaceSignalReferences';
 import {
     Generation,
     getGenerations,
@@ -18,7 +21,8 @@ export class TestExplorerProvider {
     private yamlTestItems: Map<string, vscode.TestItem> = new Map();
     private disposables: vscode.Disposable[] = [];
     private activeRuns: Map<string, vscode.TestRun> = new Map();
-    private generationsFileWatcher: vscode.FileSystemWatcher | null = null;
+    private generationsFileWatcher: vscode.FileSystemWatcher;
+    private coverageDetails: WeakMap<vscode.FileCoverage, vscode.FileCoverageDetail[]> = new WeakMap();
 
     /**
      * Creates a new TestExplorerProvider
@@ -44,6 +48,23 @@ export class TestExplorerProvider {
             true
         );
 
+        // Create a profile that decodes the test cases in-process instead of running Python
+        this.testController.createRunProfile(
+            'Run Tests (In-Process)',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runHandler(request, token, false, true),
+            false
+        );
+
+        // Create a profile that runs the test cases in-process and reports the signals they assert as coverage
+        const coverageProfile = this.testController.createRunProfile(
+            'Run Tests with Signal Coverage',
+            vscode.TestRunProfileKind.Coverage,
+            (request, token) => this.runHandler(request, token, false, true, true),
+            true
+        );
+        coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) => this.coverageDetails.get(fileCoverage) || [];
+
         // Create a file watcher to detect changes to YAML test files
         this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/test_cases/**/commands/*.yaml');
         this.disposables.push(this.fileWatcher);
@@ -56,26 +77,23 @@ export class TestExplorerProvider {
         // Subscribe to test execution events from CodeLens actions
         this.disposables.push(testExecutionEvent.event(this.handleTestExecutionEvent.bind(this)));
 
-        // Create a file watcher for the generations.yaml file
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            const generationsPattern = new vscode.RelativePattern(
-                vscode.workspace.workspaceFolders[0],
-                'generations.yaml'
-            );
-            this.generationsFileWatcher = vscode.workspace.createFileSystemWatcher(generationsPattern);
-            this.disposables.push(this.generationsFileWatcher);
-
-            // Reload generations and refresh tests when the file changes
-            this.generationsFileWatcher.onDidChange(() => {
-                this.rebuildTestHierarchy();
-            });
-            this.generationsFileWatcher.onDidCreate(() => {
-                this.rebuildTestHierarchy();
-            });
-            this.generationsFileWatcher.onDidDelete(() => {
-                this.rebuildTestHierarchy();
-            });
-        }
+        // Create a file watcher for the generations.yaml file of every vehicle repository
+        this.generationsFileWatcher = vscode.workspace.createFileSystemWatcher('**/generations.yaml');
+        this.disposables.push(this.generationsFileWatcher);
+
+        // Reload generations and refresh tests when the file changes
+        this.generationsFileWatcher.onDidChange(() => {
+            this.rebuildTestHierarchy();
+        });
+        this.generationsFileWatcher.onDidCreate(() => {
+            this.rebuildTestHierarchy();
+        });
+        this.generationsFileWatcher.onDidDelete(() => {
+            this.rebuildTestHierarchy();
+        });
+
+        // Adding or removing a vehicle repository changes which root nodes are needed
+        this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuildTestHierarchy()));
 
         // Initial load of test items
         this.loadAllTestFiles();
@@ -146,47 +164,41 @@ export class TestExplorerProvider {
         const fileTestItem = this.yamlTestItems.get(filePath);
 
         if (fileTestItem) {
-            // Find the parent item and remove the test from it
-            // Iterate through all top-level items
-            const topLevelItemsArray = [...this.testController.items];
-
-            for (const [topItemId, topItem] of topLevelItemsArray) {
-                let found = false;
-
-                // Check if it's directly in a model year item
-                if (topItem.children.get(fileTestItem.id)) {
-                    topItem.children.delete(fileTestItem.id);
-                    found = true;
-                } else {
-                    // Check in generation > model year hierarchy
-                    // Convert children to array we can iterate
-                    const yearItemsArray = [...topItem.children];
-
-                    for (const [yearItemId, yearItem] of yearItemsArray) {
-                        if (yearItem.children.get(fileTestItem.id)) {
-                            yearItem.children.delete(fileTestItem.id);
-
-                            // If model year is now empty, remove it too
-                            if (yearItem.children.size === 0) {
-                                topItem.children.delete(yearItemId);
-                            }
-
-                            found = true;
-                            break;
-                        }
-                    }
-                }
-
-                // If the top-level item is now empty, remove it
-                if (found && topItem.children.size === 0) {
-                    this.testController.items.delete(topItemId);
+            // Remove the item, then every ancestor it leaves empty
+            let item: vscode.TestItem | undefined = fileTestItem;
+            while (item) {
+                const parent: vscode.TestItem | undefined = item.parent;
+                (parent ? parent.children : this.testController.items).delete(item.id);
+                if (parent && parent.children.size > 0) {
+                    break;
                 }
+                item = parent;
             }
 
             this.yamlTestItems.delete(filePath);
         }
     }
 
+    /**
+     * Gets the collection a test file's top-level items belong in: the root node of its vehicle
+     * repository when the workspace has several, otherwise the controller's own items
+     * @param uri URI of the test file
+     */
+    private getRootCollection(uri: vscode.Uri): vscode.TestItemCollection {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!workspaceFolder || (vscode.workspace.workspaceFolders?.length ?? 0) < 2) {
+            return this.testController.items;
+        }
+
+        const rootItemId = `workspace-${workspaceFolder.uri.toString()}`;
+        let rootItem = this.testController.items.get(rootItemId);
+        if (!rootItem) {
+            rootItem = this.testController.createTestItem(rootItemId, workspaceFolder.name, workspaceFolder.uri);
+            this.testController.items.add(rootItem);
+        }
+        return rootItem.children;
+    }
+
     /**
      * Adds test items from a YAML file
      * @param uri URI of the YAML file
@@ -221,8 +233,9 @@ export class TestExplorerProvider {
             // Get command ID
             const commandId = yamlContent.command_id || path.basename(filePath, path.extname(filePath));
 
-            // Check if this model year belongs to a generation
-            const generation = await getGenerationForModelYear(modelYear);
+            // Check if this model year belongs to a generation of the file's own vehicle repository
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+            const generation = workspaceFolder ? await getGenerationForModelYear(modelYear, workspaceFolder.uri.fsPath) : null;
 
             // Create or update items based on whether we have a generation
             if (generation) {
@@ -251,7 +264,8 @@ export class TestExplorerProvider {
     ) {
         // Create or get the generation item
         const generationItemId = `generation-${generation.start_year}-${generation.end_year || 'present'}`;
-        let generationItem = this.testController.items.get(generationItemId);
+        const rootCollection = this.getRootCollection(uri);
+        let generationItem = rootCollection.get(generationItemId);
 
         if (!generationItem) {
             const endYearText = generation.end_year ? generation.end_year.toString() : 'Present';
@@ -261,7 +275,7 @@ export class TestExplorerProvider {
                 uri
             );
             generationItem.description = `${generation.start_year}-${endYearText}`;
-            this.testController.items.add(generationItem);
+            rootCollection.add(generationItem);
         }
 
         // Create or get the model year item under the generation
@@ -308,14 +322,15 @@ export class TestExplorerProvider {
         yamlContent: any
     ) {
         // Create or update the model year test item
-        let modelYearItem = this.testController.items.get(`model-year-${modelYear}`);
+        const rootCollection = this.getRootCollection(uri);
+        let modelYearItem = rootCollection.get(`model-year-${modelYear}`);
         if (!modelYearItem) {
             modelYearItem = this.testController.createTestItem(
                 `model-year-${modelYear}`,
                 `Model Year ${modelYear}`,
                 vscode.Uri.file(path.dirname(path.dirname(filePath)))
             );
-            this.testController.items.add(modelYearItem);
+            rootCollection.add(modelYearItem);
         }
 
         // Create or update the command test item
@@ -436,14 +451,19 @@ export class TestExplorerProvider {
      * @param request The test run request
      * @param token Cancellation token
      * @param isDebug Whether this is a debug run
+     * @param inProcess Whether to decode the test cases in-process instead of running Python
+     * @param coverage Whether to report the signals asserted by the test files that ran as coverage
      */
     private async runHandler(
         request: vscode.TestRunRequest,
         token: vscode.CancellationToken,
-        isDebug: boolean = false
+        isDebug: boolean = false,
+        inProcess: boolean = false,
+        coverage: boolean = false
     ): Promise<void> {
         const run = this.testController.createTestRun(request);
         const queue: vscode.TestItem[] = [];
+        const ranFiles: vscode.Uri[] = [];
 
         // If specific tests were selected, enqueue those
         if (request.include) {
@@ -469,13 +489,65 @@ export class TestExplorerProvider {
             }
 
             // This is a leaf node (actual test file), so run it
-            await this.runTestFile(test, run, isDebug);
+            if (test.uri) {
+                ranFiles.push(test.uri);
+            }
+            if (inProcess) {
+                await this.runTestFileInProcess(test, run);
+            } else {
+                await this.runTestFile(test, run, isDebug);
+            }
+        }
+
+        if (coverage && !token.isCancellationRequested) {
+            this.addSignalCoverage(run, ranFiles);
         }
 
         // Complete the run
         run.end();
     }
 
+    /**
+     * Adds the coverage of every signalset to a run: each command and signal is a statement,
+     * executed once for every test case among the given test files that asserts it
+     * @param run The test run
+     * @param testFiles The test files that ran
+     */
+    private addSignalCoverage(run: vscode.TestRun, testFiles: vscode.Uri[]): void {
+        const filesByFolder = new Map<vscode.WorkspaceFolder, string[]>();
+        for (const uri of testFiles) {
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+            if (workspaceFolder) {
+                filesByFolder.set(workspaceFolder, [...(filesByFolder.get(workspaceFolder) || []), uri.fsPath]);
+            }
+        }
+
+        for (const [workspaceFolder, files] of filesByFolder) {
+            for (const signalset of computeSignalCoverage(workspaceFolder.uri.fsPath, files)) {
+                let toRange: ReturnType<typeof createRangeMapper>;
+                try {
+                    toRange = createRangeMapper(fs.readFileSync(signalset.filePath, 'utf-8'));
+                } catch (error) {
+                    console.error(`Error reading ${signalset.filePath} for coverage:`, error);
+                    continue;
+                }
+
+                const details: vscode.FileCoverageDetail[] = [];
+                for (const command of signalset.commands) {
+                    // Marking the command's first line keeps its statement from overlapping its signals'
+                    details.push(new vscode.StatementCoverage(command.testCaseCount, new vscode.Position(command.line, 0)));
+                    for (const signal of command.signals) {
+                        details.push(new vscode.StatementCoverage(signal.testCaseCount, toRange(signal)));
+                    }
+                }
+
+                const fileCoverage = vscode.FileCoverage.fromDetails(vscode.Uri.file(signalset.filePath), details);
+                this.coverageDetails.set(fileCoverage, details);
+                run.addCoverage(fileCoverage);
+            }
+        }
+    }
+
     /**
      * Run all tests in a test file
      * @param test The test item representing the file
@@ -506,6 +578,74 @@ export class TestExplorerProvider {
             run.errored(test, new vscode.TestMessage(`Error: ${error}`));
         }
     }
+
+    /**
+     * Run all tests in a test file by decoding each response in-process
+     * @param test The test item representing the file
+     * @param run The test run
+     */
+    private async runTestFileInProcess(
+        test: vscode.TestItem,
+        run: vscode.TestRun
+    ): Promise<void> {
+        run.started(test);
+
+        const workspaceFolder = test.uri && vscode.workspace.getWorkspaceFolder(test.uri);
+        if (!test.uri || !workspaceFolder) {
+            run.errored(test, new vscode.TestMessage('Test file is not part of a workspace folder'));
+            return;
+        }
+
+        try {
+            // Use the document so unsaved edits to the test file are included
+            const document = await vscode.workspace.openTextDocument(test.uri);
+            const modelYear = parseInt(path.basename(path.dirname(path.dirname(test.uri.fsPath))), 10);
+            const commands = loadSignalsetCommands(
+                workspaceFolder.uri.fsPath,
+                isNaN(modelYear) ? undefined : modelYear
+            );
+
+            const startTime = Date.now();
+            const result = runTestFileContent(test.uri.fsPath, document.getText(), commands);
+            const duration = Date.now() - startTime;
+
+            if (result.error) {
+                run.errored(test, new vscode.TestMessage(result.error), duration);
+                return;
+            }
+
+            const messages: vscode.TestMessage[] = [];
+            for (const testCase of result.cases) {
+                for (const error of testCase.errors) {
+                    const message = new vscode.TestMessage(`Test case ${testCase.index + 1}: ${error}`);
+                    message.location = new vscode.Location(test.uri, new vscode.Position(testCase.line, 0));
+                    messages.push(message);
+                }
+
+                for (const mismatch of testCase.mismatches) {
+                    const message = vscode.TestMessage.diff(
+                        `Test case ${testCase.index + 1}: ${mismatch.message}`,
+                        JSON.stringify(mismatch.expected),
+                        mismatch.actual === undefined ? 'undefined' : JSON.stringify(mismatch.actual)
+                    );
+                    message.location = new vscode.Location(
+                        test.uri,
+                        new vscode.Position(mismatch.line, mismatch.column)
+                    );
+                    messages.push(message);
+                }
+            }
+
+            if (messages.length > 0) {
+                run.failed(test, messages, duration);
+            } else {
+                run.passed(test, duration);
+            }
+        } catch (error) {
+            console.error(`Error running tests in-process in ${test.id}:`, error);
+            run.errored(test, new vscode.TestMessage(`Error: ${error}`));
+        }
+    }
 }
 
 /**
@@ -0,0 +1,8 @@
+/**
+ * Model-year support matrix module
+ * Shows every command of a signalset against every model year with test cases
+ */
+
+export { createSupportMatrixProvider } from './provider';
+export { buildSupportMatrix, describeSupportCell, formatSupportMatrixCsv } from './matrixData';
+export type { SupportMatrix, SupportMatrixCell, SupportMatrixGeneration, SupportMatrixRow, SupportStatus } from './matrixData';
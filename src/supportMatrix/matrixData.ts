@@ -0,0 +1,227 @@
+/**
+ * VSCode-independent model-year support matrix of a vehicle repository
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { getGenerations } from '../utils/generationsCore';
+import { generateNormalizedCommandId } from '../utils/commandSupportUtils';
+import { loadSignalsetCommands } from '../utils/testCaseRunner';
+import { getCommandMatchKey, getTestFileCommandId } from '../utils/signalReferences';
+import { filterIncludesYear } from '../utils/modelYearFilter';
+
+/**
+ * What the tests of a model year say about a command
+ */
+export type SupportStatus = 'supported' | 'unsupported' | 'unknown';
+
+/**
+ * One command in one model year
+ */
+export interface SupportMatrixCell {
+  status: SupportStatus;
+  /** Set when the command's filter excludes the year or its dbgfilter includes it */
+  filteredBy?: 'filter' | 'dbgfilter';
+  /** The file that records the status: the year's test file or its command_support.yaml */
+  filePath?: string;
+  /** Zero-based line of the command's entry in filePath */
+  line?: number;
+}
+
+/**
+ * A command and its cells, one per model year of the matrix
+ */
+export interface SupportMatrixRow {
+  commandId: string;
+  cells: SupportMatrixCell[];
+}
+
+/**
+ * Consecutive model years of the matrix that belong to one generation
+ */
+export interface SupportMatrixGeneration {
+  name: string;
+  years: number[];
+}
+
+/**
+ * Every command of a repository's signalset against every model year with test cases
+ */
+export interface SupportMatrix {
+  years: number[];
+  generations: SupportMatrixGeneration[];
+  rows: SupportMatrixRow[];
+}
+
+/**
+ * The test files and command_support.yaml entries of one model year, by command match key
+ */
+interface YearEvidence {
+  testFiles: Map<string, string>;
+  supportFilePath?: string;
+  supported: Map<string, number>;
+  unsupported: Map<string, number>;
+}
+
+/**
+ * Gets a scalar as written, since IDs such as 7E8 or 22E001 would otherwise read as numbers
+ */
+function scalarSource(text: string, scalar: YAML.Scalar): string {
+  return scalar.range ? text.slice(scalar.range[0], scalar.range[1]).replace(/['"]/g, '') : String(scalar.value);
+}
+
+/**
+ * Reads the supported and unsupported entries of a command_support.yaml file
+ * @returns The zero-based line of each entry, by command match key
+ */
+function readCommandSupport(filePath: string): { supported: Map<string, number>, unsupported: Map<string, number> } {
+  const supported = new Map<string, number>();
+  const unsupported = new Map<string, number>();
+
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return { supported, unsupported };
+  }
+
+  const lineCounter = new YAML.LineCounter();
+  const yamlDoc = YAML.parseDocument(text, { lineCounter });
+
+  for (const [section, entries] of [['supported_commands_by_ecu', supported], ['unsupported_commands_by_ecu', unsupported]] as const) {
+    const byEcu = yamlDoc.get(section);
+    if (!YAML.isMap(byEcu)) {
+      continue;
+    }
+    for (const pair of byEcu.items) {
+      const ecu = YAML.isScalar(pair.key) ? scalarSource(text, pair.key) : '';
+      if (!YAML.isSeq(pair.value)) {
+        continue;
+      }
+      for (const item of pair.value.items) {
+        if (!YAML.isScalar(item) || !item.range) {
+          continue;
+        }
+        const commandId = scalarSource(text, item);
+        const matchKey = getCommandMatchKey(commandId.includes('.') ? commandId : `${ecu}.${commandId}`);
+        if (!entries.has(matchKey)) {
+          entries.set(matchKey, lineCounter.linePos(item.range[0]).line - 1);
+        }
+      }
+    }
+  }
+
+  return { supported, unsupported };
+}
+
+/**
+ * Reads the test files and command_support.yaml of a model year's test case directory
+ */
+function readYearEvidence(yearPath: string): YearEvidence {
+  const testFiles = new Map<string, string>();
+  const commandsDir = path.join(yearPath, 'commands');
+  if (fs.existsSync(commandsDir)) {
+    for (const file of fs.readdirSync(commandsDir).filter(file => /\.ya?ml$/.test(file)).sort()) {
+      testFiles.set(getCommandMatchKey(getTestFileCommandId(file)), path.join(commandsDir, file));
+    }
+  }
+
+  const supportFilePath = path.join(yearPath, 'command_support.yaml');
+  if (!fs.existsSync(supportFilePath)) {
+    return { testFiles, supported: new Map(), unsupported: new Map() };
+  }
+  return { testFiles, supportFilePath, ...readCommandSupport(supportFilePath) };
+}
+
+/**
+ * Works out a command's cell for one model year
+ */
+function getCell(command: any, year: number, evidence: YearEvidence): SupportMatrixCell {
+  const matchKey = getCommandMatchKey(generateNormalizedCommandId(command));
+  let cell: SupportMatrixCell;
+
+  const testFile = evidence.testFiles.get(matchKey);
+  if (testFile) {
+    cell = { status: 'supported', filePath: testFile, line: 0 };
+  } else if (evidence.supported.has(matchKey)) {
+    cell = { status: 'supported', filePath: evidence.supportFilePath, line: evidence.supported.get(matchKey) };
+  } else if (evidence.unsupported.has(matchKey)) {
+    cell = { status: 'unsupported', filePath: evidence.supportFilePath, line: evidence.unsupported.get(matchKey) };
+  } else {
+    cell = { status: 'unknown', filePath: evidence.supportFilePath, line: evidence.supportFilePath ? 0 : undefined };
+  }
+
+  if (command.filter && !filterIncludesYear(command.filter, year)) {
+    cell.filteredBy = 'filter';
+  } else if (filterIncludesYear(command.dbgfilter, year)) {
+    cell.filteredBy = 'dbgfilter';
+  }
+
+  return cell;
+}
+
+/**
+ * Builds the support matrix of a vehicle repository: the commands of its default signalset against
+ * the model years under tests/test_cases, with the years grouped by the generations in generations.yaml
+ * @param workspacePath The repository root
+ */
+export async function buildSupportMatrix(workspacePath: string): Promise<SupportMatrix> {
+  const testCasesPath = path.join(workspacePath, 'tests', 'test_cases');
+  const years = fs.existsSync(testCasesPath)
+    ? fs.readdirSync(testCasesPath).filter(dir => /^\d{4}$/.test(dir)).map(dir => parseInt(dir, 10)).sort((a, b) => a - b)
+    : [];
+  const evidence = years.map(year => readYearEvidence(path.join(testCasesPath, String(year))));
+
+  const generationsData = await getGenerations(workspacePath);
+  const generations: SupportMatrixGeneration[] = [];
+  for (const year of years) {
+    const generation = generationsData?.find(gen => year >= gen.start_year && (gen.end_year === null || year <= gen.end_year));
+    const name = generation?.name ?? (generationsData ? 'Other Years' : 'All Years');
+    const last = generations[generations.length - 1];
+    if (last?.name === name) {
+      last.years.push(year);
+    } else {
+      generations.push({ name, years: [year] });
+    }
+  }
+
+  const rows: SupportMatrixRow[] = [];
+  const seen = new Set<string>();
+  for (const command of loadSignalsetCommands(workspacePath)) {
+    if (!command?.hdr || !command?.cmd) {
+      continue;
+    }
+    const commandId = generateNormalizedCommandId(command);
+    if (seen.has(commandId)) {
+      continue;
+    }
+    seen.add(commandId);
+    rows.push({ commandId, cells: years.map((year, index) => getCell(command, year, evidence[index])) });
+  }
+
+  return { years, generations, rows };
+}
+
+/**
+ * Describes a cell in words, e.g. "unsupported" or "supported (filtered by dbgfilter)"
+ */
+export function describeSupportCell(cell: SupportMatrixCell): string {
+  return cell.filteredBy ? `${cell.status} (filtered by ${cell.filteredBy})` : cell.status;
+}
+
+/**
+ * Formats a support matrix as CSV: a row of generation names, a row of model years, then one row per command
+ */
+export function formatSupportMatrixCsv(matrix: SupportMatrix): string {
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const generationNames = matrix.generations.flatMap(generation => generation.years.map(() => generation.name));
+
+  const lines = [
+    ['Generation', ...generationNames],
+    ['Command', ...matrix.years.map(String)],
+    ...matrix.rows.map(row => [row.commandId, ...row.cells.map(describeSupportCell)])
+  ];
+  return lines.map(line => line.map(escape).join(',')).join('\n') + '\n';
+}
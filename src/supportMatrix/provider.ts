@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { buildSupportMatrix, formatSupportMatrixCsv, SupportMatrix } from './matrixData';
+import { getSupportMatrixContent } from './webviewContent';
+import { pickWorkspaceRoot } from '../utils/workspaceFolders';
+
+let matrixPanel: vscode.WebviewPanel | undefined;
+let currentMatrix: SupportMatrix | undefined;
+// The vehicle repository the matrix is built for
+let matrixRoot: string | undefined;
+
+/**
+ * Rebuilds the matrix and redraws the panel
+ */
+async function refreshMatrix(): Promise<void> {
+  if (!matrixPanel || !matrixRoot) {
+    return;
+  }
+  currentMatrix = await buildSupportMatrix(matrixRoot);
+  matrixPanel.webview.html = getSupportMatrixContent(currentMatrix);
+}
+
+/**
+ * Opens the file behind a cell at the command's entry
+ */
+async function openCell(rowIndex: number, columnIndex: number): Promise<void> {
+  const cell = currentMatrix?.rows[rowIndex]?.cells[columnIndex];
+  if (!cell?.filePath) {
+    return;
+  }
+  const document = await vscode.workspace.openTextDocument(cell.filePath);
+  const position = new vscode.Position(cell.line ?? 0, 0);
+  await vscode.window.showTextDocument(document, {
+    viewColumn: vscode.ViewColumn.One,
+    selection: new vscode.Range(position, position)
+  });
+}
+
+/**
+ * Asks where to save the matrix as CSV and writes it there
+ */
+async function exportCsv(): Promise<void> {
+  if (!currentMatrix || !matrixRoot) {
+    return;
+  }
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(vscode.Uri.file(matrixRoot), 'support-matrix.csv'),
+    filters: { 'CSV': ['csv'] }
+  });
+  if (!targetUri) {
+    return;
+  }
+  await vscode.workspace.fs.writeFile(targetUri, Buffer.from(formatSupportMatrixCsv(currentMatrix), 'utf-8'));
+  vscode.window.showInformationMessage(`Support matrix exported to ${vscode.workspace.asRelativePath(targetUri)}`);
+}
+
+/**
+ * Handle a message posted by the support matrix webview
+ */
+async function handleWebviewMessage(message: any): Promise<void> {
+  switch (message.command) {
+    case 'refresh':
+      await refreshMatrix();
+      break;
+    case 'openCell':
+      await openCell(message.row, message.column);
+      break;
+    case 'exportCsv':
+      await exportCsv();
+      break;
+  }
+}
+
+/**
+ * Creates the command that shows the model-year support matrix of every command
+ * @returns A disposable for the command and the panel
+ */
+export function createSupportMatrixProvider(): vscode.Disposable {
+  const command = vscode.commands.registerCommand('obdb.showSupportMatrix', async () => {
+    const workspaceRoot = await pickWorkspaceRoot();
+    if (!workspaceRoot) {
+      vscode.window.showErrorMessage('Open a vehicle repository to show its support matrix');
+      return;
+    }
+    matrixRoot = workspaceRoot;
+
+    if (matrixPanel) {
+      matrixPanel.reveal();
+    } else {
+      matrixPanel = vscode.window.createWebviewPanel(
+        'obdbSupportMatrix',
+        'Model-year support',
+        vscode.ViewColumn.Active,
+        { enableScripts: true, retainContextWhenHidden: true }
+      );
+      matrixPanel.webview.onDidReceiveMessage(message => {
+        handleWebviewMessage(message).catch(error => {
+          console.error('Error handling support matrix message:', error);
+          vscode.window.showErrorMessage(`Support matrix: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      });
+      matrixPanel.onDidDispose(() => {
+        matrixPanel = undefined;
+        currentMatrix = undefined;
+        matrixRoot = undefined;
+      });
+    }
+    matrixPanel.title = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+      ? `Model-year support (${path.basename(workspaceRoot)})`
+      : 'Model-year support';
+
+    await refreshMatrix();
+  });
+
+  return {
+    dispose: () => {
+      command.dispose();
+      matrixPanel?.dispose();
+    }
+  };
+}
@@ -0,0 +1,163 @@
+import { escapeHtml } from '../obdbWorkbench/utils';
+import { describeSupportCell, SupportMatrix, SupportMatrixCell } from './matrixData';
+
+const STATUS_SYMBOLS: { [status: string]: string } = {
+  supported: '✓',
+  unsupported: '✗',
+  unknown: '·'
+};
+
+/**
+ * Generate the HTML of one matrix cell
+ */
+function generateCellHtml(cell: SupportMatrixCell, rowIndex: number, columnIndex: number, year: number): string {
+  const classes = ['cell', cell.status];
+  if (cell.filteredBy) {
+    classes.push('filtered');
+  }
+  if (cell.filePath) {
+    classes.push('clickable');
+  }
+
+  return `<td class="${classes.join(' ')}" data-row="${rowIndex}" data-column="${columnIndex}" ` +
+    `title="${year}: ${escapeHtml(describeSupportCell(cell))}">` +
+    `${STATUS_SYMBOLS[cell.status]}${cell.filteredBy ? `<span class="filter-mark">${cell.filteredBy === 'filter' ? 'F' : 'D'}</span>` : ''}` +
+    '</td>';
+}
+
+/**
+ * Generate the support matrix table
+ */
+function generateMatrixHtml(matrix: SupportMatrix): string {
+  if (matrix.years.length === 0) {
+    return '<div class="empty">No model years found under tests/test_cases</div>';
+  }
+  if (matrix.rows.length === 0) {
+    return '<div class="empty">No commands found in signalsets/v3/default.json</div>';
+  }
+
+  let html = '<table class="matrix"><thead><tr><th class="command-header" rowspan="2">Command</th>';
+  for (const generation of matrix.generations) {
+    html += `<th class="generation" colspan="${generation.years.length}">${escapeHtml(generation.name)}</th>`;
+  }
+  html += '</tr><tr>';
+  for (const year of matrix.years) {
+    html += `<th class="year">${year}</th>`;
+  }
+  html += '</tr></thead><tbody>';
+
+  matrix.rows.forEach((row, rowIndex) => {
+    html += `<tr><th class="command">${escapeHtml(row.commandId)}</th>`;
+    row.cells.forEach((cell, columnIndex) => {
+      html += generateCellHtml(cell, rowIndex, columnIndex, matrix.years[columnIndex]);
+    });
+    html += '</tr>';
+  });
+
+  return html + '</tbody></table>';
+}
+
+/**
+ * Generate the support matrix webview HTML
+ */
+export function getSupportMatrixContent(matrix: SupportMatrix): string {
+  return '<!DOCTYPE html>' +
+    '<html lang="en">' +
+    '<head>' +
+    '<meta charset="UTF-8">' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0">' +
+    '<title>Model-year support</title>' +
+    '<style>' +
+    'body {' +
+    'padding: 16px;' +
+    'color: var(--vscode-foreground);' +
+    'font-family: var(--vscode-font-family);' +
+    'background-color: var(--vscode-editor-background);' +
+    '}' +
+    '.toolbar {' +
+    'display: flex;' +
+    'gap: 8px;' +
+    'align-items: center;' +
+    'margin-bottom: 12px;' +
+    '}' +
+    'button {' +
+    'color: var(--vscode-button-foreground);' +
+    'background-color: var(--vscode-button-background);' +
+    'border: none;' +
+    'padding: 4px 10px;' +
+    'cursor: pointer;' +
+    '}' +
+    'button:hover {' +
+    'background-color: var(--vscode-button-hoverBackground);' +
+    '}' +
+    '.legend {' +
+    'margin-left: auto;' +
+    'font-size: 0.85em;' +
+    'opacity: 0.8;' +
+    '}' +
+    '.matrix {' +
+    'border-collapse: collapse;' +
+    'font-family: var(--vscode-editor-font-family);' +
+    'font-size: 0.85em;' +
+    '}' +
+    '.matrix th, .matrix td {' +
+    'border: 1px solid var(--vscode-panel-border);' +
+    'padding: 2px 6px;' +
+    'text-align: center;' +
+    '}' +
+    '.matrix thead th {' +
+    'position: sticky;' +
+    'background-color: var(--vscode-editor-background);' +
+    'z-index: 1;' +
+    '}' +
+    '.matrix thead tr:first-child th { top: 0; }' +
+    '.matrix thead tr:nth-child(2) th { top: 1.6em; }' +
+    '.matrix th.command {' +
+    'position: sticky;' +
+    'left: 0;' +
+    'text-align: left;' +
+    'font-weight: normal;' +
+    'white-space: nowrap;' +
+    'background-color: var(--vscode-editor-background);' +
+    '}' +
+    '.cell.supported { background-color: rgba(80, 180, 80, 0.35); }' +
+    '.cell.unsupported { background-color: rgba(220, 80, 80, 0.35); }' +
+    '.cell.unknown { opacity: 0.5; }' +
+    '.cell.filtered {' +
+    'background-image: repeating-linear-gradient(45deg, transparent, transparent 3px, rgba(128, 128, 128, 0.35) 3px, rgba(128, 128, 128, 0.35) 5px);' +
+    '}' +
+    '.cell.clickable { cursor: pointer; }' +
+    '.cell.clickable:hover { outline: 1px solid var(--vscode-focusBorder); }' +
+    '.filter-mark {' +
+    'font-size: 0.75em;' +
+    'vertical-align: super;' +
+    'margin-left: 1px;' +
+    '}' +
+    '.empty {' +
+    'font-style: italic;' +
+    'opacity: 0.8;' +
+    '}' +
+    '</style>' +
+    '</head>' +
+    '<body>' +
+    '<div class="toolbar">' +
+    '<button id="refresh">Refresh</button>' +
+    '<button id="export-csv">Export CSV</button>' +
+    '<span class="legend">✓ supported · ✗ unsupported · · unknown · <sup>F</sup> excluded by filter · <sup>D</sup> in dbgfilter</span>' +
+    '</div>' +
+    generateMatrixHtml(matrix) +
+    '<script>' +
+    'const vscode = acquireVsCodeApi();' +
+    'document.getElementById("refresh").addEventListener("click", () => vscode.postMessage({ command: "refresh" }));' +
+    'document.getElementById("export-csv").addEventListener("click", () => vscode.postMessage({ command: "exportCsv" }));' +
+    'document.querySelectorAll(".cell.clickable").forEach(cell => {' +
+    '  cell.addEventListener("click", () => vscode.postMessage({' +
+    '    command: "openCell",' +
+    '    row: Number(cell.dataset.row),' +
+    '    column: Number(cell.dataset.column)' +
+    '  }));' +
+    '});' +
+    '</script>' +
+    '</body>' +
+    '</html>';
+}
@@ -27,4 +27,17 @@ export function numberToExcelColumn(bix: number): string {
  */
 export function bixToByte(bix: number): number {
   return Math.floor(bix / 8);
-}
\ No newline at end of file
+}
+
+/**
+ * Formats the bits a signal covers as byte letters with bit numbers, counting bits from 7 (most
+ * significant) down to 0 as the workbench's alphabetic view does (e.g. bix 12, len 12 is B3..C0)
+ * @param bix The signal's first bit
+ * @param len The signal's length in bits
+ * @returns The first and last bit, or just one when the signal is a single bit
+ */
+export function formatByteLetterRange(bix: number, len: number): string {
+  const formatBit = (bit: number) => `${numberToExcelColumn(bixToByte(bit) * 8)}${7 - (bit % 8)}`;
+  const lastBit = bix + Math.max(len, 1) - 1;
+  return lastBit === bix ? formatBit(bix) : `${formatBit(bix)}..${formatBit(lastBit)}`;
+}
@@ -82,6 +82,32 @@ export function filterToIDString(filter: Filter): string {
   return stringParts.join(';');
 }
 
+/**
+ * Parses a filter ID string as produced by filterToIDString
+ * @returns The filter, or undefined if the string is not a valid filter
+ */
+export function parseFilterIDString(idString: string): Filter | undefined {
+  const filter: Filter = {};
+
+  for (const part of idString.split(';').filter(part => part.length > 0)) {
+    const range = part.match(/^(\d*)-(\d*)$/);
+    if (range && (range[1] || range[2])) {
+      if (range[1]) {
+        filter.from = Number(range[1]);
+      }
+      if (range[2]) {
+        filter.to = Number(range[2]);
+      }
+    } else if (/^\d+$/.test(part)) {
+      filter.years = [...(filter.years || []), Number(part)];
+    } else {
+      return undefined;
+    }
+  }
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
 /**
  * Formats additional properties for the command ID
  */
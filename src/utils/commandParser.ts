@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as yaml from 'js-yaml';
+import * as YAML from 'yaml';
+import * as jsonc from 'jsonc-parser';
 import { Command, CommandPositionResult, Signal, Filter } from '../types';
 
 // Re-export VSCode-independent utilities for backward compatibility
@@ -17,12 +18,11 @@ export function isPositionInCommand(document: vscode.TextDocument, position: vsc
   try {
     // Parse the JSON document
     const content = document.getText();
-    let jsonDoc;
-
-    try {
-      jsonDoc = JSON.parse(content);
-    } catch (err) {
-      console.error("Error parsing JSON:", err);
+    // Signalsets may contain comments, such as obdb-lint-disable directives
+    const parseErrors: jsonc.ParseError[] = [];
+    const jsonDoc = jsonc.parse(content, parseErrors, { allowTrailingComma: true });
+    if (parseErrors.length > 0 || !jsonDoc || typeof jsonDoc !== 'object') {
+      console.error("Error parsing JSON:", parseErrors.map(error => jsonc.printParseErrorCode(error.error)).join(', '));
       return { isCommand: false };
     }
 
@@ -135,14 +135,28 @@ function normalizeSignals(signals: any[]): Signal[] {
   });
 }
 
+/**
+ * A sample response for a command, taken from the first test case of a model year
+ */
+export interface SampleCommandResponse {
+  modelYear: string;
+  response: string;
+  expectedValues?: Record<string, any>;
+  /** CAN identifier format of the response frames, '11bit' or '29bit' */
+  canIdFormat?: string;
+  /** Whether the response frames carry an extended address byte */
+  extendedAddressing?: boolean;
+}
+
 /**
  * Fetches sample responses for a command from test case files
  * @param commandId The command ID to search for (e.g. '7E0.22295A')
+ * @param rootPath The root of the vehicle repository whose test cases to search
  * @param cancellationToken Optional cancellation token to cancel the operation
  * @returns Array of objects containing model year and sample response data
  */
-export async function getSampleCommandResponses(commandId: string, cancellationToken?: vscode.CancellationToken): Promise<Array<{modelYear: string, response: string, expectedValues?: Record<string, any>}>> {
-  if (!commandId) return [];
+export async function getSampleCommandResponses(commandId: string, rootPath: string | undefined, cancellationToken?: vscode.CancellationToken): Promise<SampleCommandResponse[]> {
+  if (!commandId || !rootPath) return [];
 
   // Check cancellation before starting expensive I/O operations
   if (cancellationToken?.isCancellationRequested) {
@@ -150,10 +164,6 @@ export async function getSampleCommandResponses(commandId: string, cancellationT
   }
 
   try {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) return [];
-
-    const rootPath = workspaceFolders[0].uri.fsPath;
     const testCasesPath = path.join(rootPath, 'tests', 'test_cases');
 
     // Check if the test_cases directory exists
@@ -164,7 +174,7 @@ export async function getSampleCommandResponses(commandId: string, cancellationT
       throw new vscode.CancellationError();
     }
 
-    const samples: Array<{modelYear: string, response: string, expectedValues?: Record<string, any>}> = [];
+    const samples: SampleCommandResponse[] = [];
     const modelYearDirs = fs.readdirSync(testCasesPath)
       .filter(dir => /^\d{4}$/.test(dir))  // Only include directories that are 4 digit years
       .sort();  // Sort by year
@@ -187,15 +197,26 @@ export async function getSampleCommandResponses(commandId: string, cancellationT
         if (fs.existsSync(commandFile)) {
           try {
             const content = fs.readFileSync(commandFile, 'utf8');
-            const data = yaml.load(content) as any;
+            const yamlDoc = YAML.parseDocument(content);
+            const data = yamlDoc.toJSON();
 
             if (data && Array.isArray(data.test_cases) && data.test_cases.length > 0) {
               // Only take the first response from each model year
               const firstCase = data.test_cases[0];
+
+              // Unquoted responses such as 7E8056211005078 parse as numbers, so fall back to the source text
+              let response = firstCase.response;
+              const responseNode = yamlDoc.getIn(['test_cases', 0, 'response'], true) as YAML.Scalar | undefined;
+              if (responseNode?.range && typeof response !== 'string') {
+                response = content.slice(responseNode.range[0], responseNode.range[1]);
+              }
+
               samples.push({
                 modelYear: yearDir,
-                response: firstCase.response,
-                expectedValues: firstCase.expected_values
+                response: String(response ?? ''),
+                expectedValues: firstCase.expected_values,
+                canIdFormat: firstCase.can_id_format ?? data.can_id_format,
+                extendedAddressing: (firstCase.extended_addressing_enabled ?? data.extended_addressing_enabled) === true
               });
             }
           } catch (err) {
@@ -0,0 +1,179 @@
+/**
+ * VSCode-independent resolution of the signalset that applies to a model year
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { generateNormalizedCommandId } from './commandSupportUtils';
+import { filterIncludesYear } from './modelYearFilter';
+import { formatSignalset } from './signalsetFormatter';
+
+/**
+ * A command of an effective signalset and the file it comes from
+ */
+export interface EffectiveCommand {
+  command: any;
+  /** The signalset file that defines the command for this model year */
+  sourcePath: string;
+}
+
+/**
+ * The signalset that applies to a model year: default.json merged with the year-range files covering the year
+ */
+export interface EffectiveSignalset {
+  modelYear?: number;
+  /** The signalset files that were merged, default.json first */
+  sourcePaths: string[];
+  commands: EffectiveCommand[];
+  /** Commands left out because their filter excludes the model year */
+  excludedCommands: EffectiveCommand[];
+  signalGroups: any[];
+}
+
+/**
+ * Options for resolving an effective signalset
+ */
+export interface ResolveOptions {
+  /** Drop the commands and signals whose filter excludes the model year (default true) */
+  applyFilters?: boolean;
+}
+
+/**
+ * Gets the model years of a year-range signalset file such as 2015-2018.json
+ * @param filePath The signalset's path
+ * @returns The first and last year, or undefined for other files such as default.json
+ */
+export function getSignalsetYearRange(filePath: string): [number, number] | undefined {
+  const match = path.basename(filePath).match(/^(\d{4})-(\d{4})\.json$/);
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : undefined;
+}
+
+/**
+ * Finds the year-range signalset files (e.g. 2015-2018.json) in a directory that cover a model year
+ * @param signalsetDir The directory to search, usually signalsets/v3
+ * @param modelYear The model year
+ * @returns The files' paths in file name order, or an empty array if the directory cannot be read
+ */
+export function findYearRangeSignalsets(signalsetDir: string, modelYear: number): string[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(signalsetDir);
+  } catch {
+    return [];
+  }
+
+  return files
+    .filter(file => {
+      const range = getSignalsetYearRange(file);
+      return range !== undefined && modelYear >= range[0] && modelYear <= range[1];
+    })
+    .sort()
+    .map(file => path.join(signalsetDir, file));
+}
+
+/**
+ * Reads a signalset file
+ * @returns The parsed signalset, or undefined if the file cannot be read
+ */
+function readSignalset(filePath: string): any | undefined {
+  try {
+    const signalset = jsonc.parse(fs.readFileSync(filePath, 'utf-8'));
+    return signalset && typeof signalset === 'object' ? signalset : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the signalset that applies to a model year. Commands of the year-range files covering
+ * the year replace the same command in default.json (the earliest file wins when several define it),
+ * and commands and signals whose filter excludes the year are dropped.
+ * @param workspacePath The repository root
+ * @param modelYear The model year, or undefined to only resolve default.json
+ * @param options Resolution options
+ * @returns The effective signalset, with commands in default.json order followed by those only the range files define
+ */
+export function resolveEffectiveSignalset(
+  workspacePath: string,
+  modelYear?: number,
+  options: ResolveOptions = {}
+): EffectiveSignalset {
+  const signalsetDir = path.join(workspacePath, 'signalsets', 'v3');
+  const defaultPath = path.join(signalsetDir, 'default.json');
+  const rangePaths = modelYear !== undefined ? findYearRangeSignalsets(signalsetDir, modelYear) : [];
+
+  const result: EffectiveSignalset = { modelYear, sourcePaths: [], commands: [], excludedCommands: [], signalGroups: [] };
+  const signalsets = [defaultPath, ...rangePaths]
+    .map(filePath => ({ filePath, signalset: readSignalset(filePath) }))
+    .filter(({ signalset }) => signalset !== undefined);
+  result.sourcePaths = signalsets.map(({ filePath }) => filePath);
+
+  const commands = new Map<string, EffectiveCommand>();
+  const groups = new Map<string, any>();
+  for (const { filePath, signalset } of signalsets) {
+    const isRangeFile = filePath !== defaultPath;
+    const seenInFile = new Set<string>();
+    for (const command of Array.isArray(signalset.commands) ? signalset.commands : []) {
+      const commandId = generateNormalizedCommandId(command);
+      const existing = commands.get(commandId);
+      if (existing && (seenInFile.has(commandId) || (isRangeFile && existing.sourcePath !== defaultPath))) {
+        continue;
+      }
+      seenInFile.add(commandId);
+      commands.set(commandId, { command, sourcePath: filePath });
+    }
+    for (const group of Array.isArray(signalset.signalGroups) ? signalset.signalGroups : []) {
+      const key = typeof group?.id === 'string' ? group.id : `#${groups.size}`;
+      if (!groups.has(key) || isRangeFile) {
+        groups.set(key, group);
+      }
+    }
+  }
+  result.signalGroups = [...groups.values()];
+
+  const applyFilters = options.applyFilters !== false && modelYear !== undefined;
+  for (const effective of commands.values()) {
+    const { command } = effective;
+    if (!applyFilters) {
+      result.commands.push(effective);
+    } else if (command?.filter && !filterIncludesYear(command.filter, modelYear!)) {
+      result.excludedCommands.push(effective);
+    } else if (Array.isArray(command?.signals) && command.signals.some((signal: any) => signal?.filter)) {
+      const signals = command.signals.filter((signal: any) => !signal?.filter || filterIncludesYear(signal.filter, modelYear!));
+      result.commands.push({ ...effective, command: { ...command, signals } });
+    } else {
+      result.commands.push(effective);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Renders an effective signalset as a formatted signalset document, with a comment before each
+ * command that a year-range file contributes
+ * @param effective The effective signalset
+ * @returns The document's text
+ */
+export function formatEffectiveSignalset(effective: EffectiveSignalset): string {
+  const defaultPath = effective.sourcePaths.find(filePath => getSignalsetYearRange(filePath) === undefined);
+  const commands = effective.commands.map(({ command, sourcePath }) =>
+    (sourcePath !== defaultPath ? `// From ${path.basename(sourcePath)}\n` : '') + JSON.stringify(command));
+
+  const parts = [`"commands": [\n${commands.join(',\n')}\n]`];
+  if (effective.signalGroups.length > 0) {
+    parts.push(`"signalGroups": ${JSON.stringify(effective.signalGroups)}`);
+  }
+  const text = `{\n${parts.join(',\n')}\n}\n`;
+
+  const sources = effective.sourcePaths.map(filePath => path.basename(filePath)).join(' + ') || 'no signalset files';
+  const header = effective.modelYear !== undefined
+    ? `// Effective signalset for model year ${effective.modelYear}: ${sources}`
+    : `// Effective signalset: ${sources}`;
+  const excluded = effective.excludedCommands.length > 0
+    ? `\n// Excluded by filter: ${effective.excludedCommands.map(({ command }) => generateNormalizedCommandId(command)).join(', ')}`
+    : '';
+  return `${header}${excluded}\n${formatSignalset(text) ?? text}`;
+}
@@ -0,0 +1,193 @@
+/**
+ * VSCode-independent reporters for fleet scans
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as path from 'path';
+import { escapeHtml } from '../obdbWorkbench/utils';
+import { countVehicleProblems, FleetReport, SignalDefinition, VehicleScanResult } from './fleetScan';
+
+/**
+ * Formats a percentage of a total, or n/a when there is nothing to count
+ */
+function percent(part: number, total: number): string {
+  return total > 0 ? `${(100 * part / total).toFixed(1)}%` : 'n/a';
+}
+
+/**
+ * Gets a vehicle's repository path relative to the scanned directory, with forward slashes
+ */
+function relativeRepositoryPath(report: FleetReport, vehicle: VehicleScanResult): string {
+  return (path.relative(report.scannedPath, vehicle.repositoryPath) || '.').replace(/\\/g, '/');
+}
+
+/**
+ * Formats a fleet report as JSON. Each vehicle's signal definitions are left out; the
+ * inconsistencies found among them are reported instead.
+ * @param report The fleet report
+ */
+export function formatFleetJson(report: FleetReport): string {
+  const json = {
+    scannedPath: report.scannedPath,
+    generatedAt: report.generatedAt,
+    vehicles: report.vehicles.map(vehicle => ({
+      vehicle: vehicle.vehicle,
+      make: vehicle.make,
+      repository: relativeRepositoryPath(report, vehicle),
+      problems: countVehicleProblems(vehicle),
+      lint: vehicle.lint,
+      tests: {
+        files: vehicle.tests.files,
+        tests: vehicle.tests.tests,
+        passed: vehicle.tests.passed,
+        failed: vehicle.tests.failed,
+        errors: vehicle.tests.errors
+      },
+      coverage: vehicle.coverage,
+      errors: vehicle.errors
+    })),
+    inconsistentSignals: report.inconsistentSignals,
+    topLintRules: report.topLintRules
+  };
+  return JSON.stringify(json, null, 2) + '\n';
+}
+
+/**
+ * Describes a signal definition for the inconsistent signals table
+ */
+function describeDefinition(definition: SignalDefinition): string {
+  return [
+    definition.name !== undefined ? `name: ${definition.name}` : undefined,
+    definition.unit !== undefined ? `unit: ${definition.unit}` : undefined,
+    definition.path !== undefined ? `path: ${definition.path}` : undefined,
+    definition.suggestedMetric !== undefined ? `suggestedMetric: ${definition.suggestedMetric}` : undefined
+  ].filter(part => part !== undefined).join(', ') || 'no name, unit or path';
+}
+
+/**
+ * Generate the per-vehicle table, vehicles with the most problems first
+ */
+function generateVehiclesHtml(report: FleetReport): string {
+  if (report.vehicles.length === 0) {
+    return '<p class="empty">No vehicle repositories found</p>';
+  }
+
+  const vehicles = [...report.vehicles].sort((a, b) =>
+    countVehicleProblems(b) - countVehicleProblems(a) || a.vehicle.localeCompare(b.vehicle));
+
+  let html = '<table><thead><tr>' +
+    '<th>Vehicle</th><th>Make</th><th>Problems</th><th>Lint errors</th><th>Lint warnings</th>' +
+    '<th>Failed tests</th><th>Broken test files</th><th>Signals tested</th>' +
+    '</tr></thead><tbody>';
+  for (const vehicle of vehicles) {
+    const problems = countVehicleProblems(vehicle);
+    const errors = vehicle.errors.length > 0 ? ` title="${escapeHtml(vehicle.errors.join('\n'))}"` : '';
+    html += `<tr class="${problems > 0 ? 'problem' : 'clean'}">` +
+      `<th${errors}>${escapeHtml(vehicle.vehicle)}${vehicle.errors.length > 0 ? ' ⚠' : ''}</th>` +
+      `<td>${escapeHtml(vehicle.make)}</td>` +
+      `<td class="number">${problems}</td>` +
+      `<td class="number">${vehicle.lint.errors}</td>` +
+      `<td class="number">${vehicle.lint.warnings}</td>` +
+      `<td class="number">${vehicle.tests.failed}/${vehicle.tests.tests}</td>` +
+      `<td class="number">${vehicle.tests.errors}</td>` +
+      `<td class="number">${vehicle.coverage.testedSignals}/${vehicle.coverage.signals} (${percent(vehicle.coverage.testedSignals, vehicle.coverage.signals)})</td>` +
+      '</tr>';
+  }
+  return html + '</tbody></table>';
+}
+
+/**
+ * Generate the table of signal IDs that vehicles of the same make define differently
+ */
+function generateInconsistentSignalsHtml(report: FleetReport): string {
+  if (report.inconsistentSignals.length === 0) {
+    return '<p class="empty">Every signal ID is defined the same way by all vehicles of its make</p>';
+  }
+
+  let html = '<table><thead><tr><th>Make</th><th>Signal ID</th><th>Differs in</th><th>Definitions</th></tr></thead><tbody>';
+  for (const signal of report.inconsistentSignals) {
+    const variants = signal.variants.map(variant =>
+      `<li>${escapeHtml(describeDefinition(variant.definition))} <span class="vehicles">(${escapeHtml(variant.vehicles.join(', '))})</span></li>`);
+    html += '<tr>' +
+      `<td>${escapeHtml(signal.make)}</td>` +
+      `<th>${escapeHtml(signal.signalId)}</th>` +
+      `<td>${escapeHtml(signal.properties.join(', '))}</td>` +
+      `<td><ul>${variants.join('')}</ul></td>` +
+      '</tr>';
+  }
+  return html + '</tbody></table>';
+}
+
+/**
+ * Generate the table of the lint rules that fired most often
+ */
+function generateTopLintRulesHtml(report: FleetReport): string {
+  if (report.topLintRules.length === 0) {
+    return '<p class="empty">No lint results</p>';
+  }
+
+  let html = '<table><thead><tr><th>Rule</th><th>Severity</th><th>Results</th><th>Vehicles</th></tr></thead><tbody>';
+  for (const rule of report.topLintRules) {
+    html += '<tr>' +
+      `<th>${escapeHtml(rule.ruleId)}</th>` +
+      `<td>${escapeHtml(rule.severity)}</td>` +
+      `<td class="number">${rule.results}</td>` +
+      `<td class="number">${rule.vehicles}/${report.vehicles.length}</td>` +
+      '</tr>';
+  }
+  return html + '</tbody></table>';
+}
+
+/**
+ * Formats a fleet report as a self-contained static HTML page
+ * @param report The fleet report
+ */
+export function formatFleetHtml(report: FleetReport): string {
+  const withProblems = report.vehicles.filter(vehicle => countVehicleProblems(vehicle) > 0).length;
+
+  return '<!DOCTYPE html>' +
+    '<html lang="en">' +
+    '<head>' +
+    '<meta charset="UTF-8">' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0">' +
+    '<title>OBDb fleet scan</title>' +
+    '<style>' +
+    'body {' +
+    'margin: 24px;' +
+    'font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;' +
+    'font-size: 14px;' +
+    'color: #1f2328;' +
+    '}' +
+    'h1 { font-size: 1.6em; margin-bottom: 4px; }' +
+    'h2 { font-size: 1.2em; margin-top: 32px; }' +
+    '.meta { color: #656d76; margin-top: 0; }' +
+    'table { border-collapse: collapse; }' +
+    'th, td {' +
+    'border: 1px solid #d0d7de;' +
+    'padding: 4px 8px;' +
+    'text-align: left;' +
+    'vertical-align: top;' +
+    '}' +
+    'thead th { background-color: #f6f8fa; }' +
+    'tbody th { font-weight: 600; white-space: nowrap; }' +
+    'td.number { text-align: right; font-variant-numeric: tabular-nums; }' +
+    'tr.problem td.number:nth-child(3) { color: #cf222e; font-weight: 600; }' +
+    'tr.clean td.number:nth-child(3) { color: #1a7f37; }' +
+    'ul { margin: 0; padding-left: 18px; }' +
+    '.vehicles { color: #656d76; }' +
+    '.empty { font-style: italic; color: #656d76; }' +
+    '</style>' +
+    '</head>' +
+    '<body>' +
+    '<h1>OBDb fleet scan</h1>' +
+    `<p class="meta">${report.vehicles.length} vehicle(s) in ${escapeHtml(report.scannedPath)}, ` +
+    `${withProblems} with problems · ${escapeHtml(report.generatedAt)}</p>` +
+    '<h2>Vehicles</h2>' +
+    generateVehiclesHtml(report) +
+    '<h2>Signal IDs used inconsistently within a make</h2>' +
+    generateInconsistentSignalsHtml(report) +
+    '<h2>Most common lint failures</h2>' +
+    generateTopLintRulesHtml(report) +
+    '</body>' +
+    '</html>\n';
+}
@@ -0,0 +1,322 @@
+/**
+ * VSCode-independent scan of many vehicle repositories at once
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { SignalLinter } from '../linter/signalLinter';
+import { RuleRegistry } from '../linter/ruleRegistry';
+import { LintSeverity } from '../linter/rules/rule';
+import { loadLinterConfig } from '../linter/linterConfig';
+import { loadLintContext } from '../linter/lintContext';
+import { findTestFiles, runTestFile } from './testCaseRunner';
+import { summarizeTestResults, TestRunSummary } from './testReporters';
+import { computeSignalCoverage, CoverageSummary, summarizeCoverage } from './signalCoverage';
+
+/**
+ * The part of a signal's definition that should agree across vehicles of the same make
+ */
+export interface SignalDefinition {
+  name?: string;
+  unit?: string;
+  path?: string;
+  suggestedMetric?: string;
+}
+
+/**
+ * Lint, test and coverage results of one vehicle repository
+ */
+export interface VehicleScanResult {
+  /** The repository's directory name, e.g. Toyota-RAV4 */
+  vehicle: string;
+  make: string;
+  repositoryPath: string;
+  lint: {
+    errors: number;
+    warnings: number;
+    /** Information and hint results */
+    notes: number;
+    /** Result count per rule ID */
+    rules: { [ruleId: string]: number };
+  };
+  tests: TestRunSummary;
+  coverage: CoverageSummary;
+  /** The definition of every signal ID in the repository's signalsets, first definition wins */
+  signals: { [signalId: string]: SignalDefinition };
+  /** Set when a step of the scan failed outright */
+  errors: string[];
+}
+
+/**
+ * A signal ID whose definition differs between vehicles of the same make
+ */
+export interface InconsistentSignal {
+  make: string;
+  signalId: string;
+  /** The properties that differ, e.g. unit */
+  properties: (keyof SignalDefinition)[];
+  /** Each distinct definition and the vehicles that use it */
+  variants: { definition: SignalDefinition; vehicles: string[] }[];
+}
+
+/**
+ * How often a lint rule fired across the fleet
+ */
+export interface LintRuleCount {
+  ruleId: string;
+  /** The rule's default severity; repositories may configure it differently */
+  severity: LintSeverity;
+  results: number;
+  /** How many vehicles the rule fired in */
+  vehicles: number;
+}
+
+/**
+ * The aggregated results of a fleet scan
+ */
+export interface FleetReport {
+  scannedPath: string;
+  generatedAt: string;
+  vehicles: VehicleScanResult[];
+  inconsistentSignals: InconsistentSignal[];
+  topLintRules: LintRuleCount[];
+}
+
+const SIGNAL_DEFINITION_PROPERTIES: (keyof SignalDefinition)[] = ['name', 'unit', 'path', 'suggestedMetric'];
+
+/**
+ * Finds the vehicle repositories under a directory: every directory containing signalsets/v3/default.json.
+ * Hidden directories and node_modules are skipped, and a repository's own subdirectories are not searched.
+ * @param rootPath The directory to search
+ * @param maxDepth How many directory levels below rootPath to search
+ * @returns The repositories' paths, sorted by repository name
+ */
+export function findVehicleRepositories(rootPath: string, maxDepth: number = 3): string[] {
+  const repositories: string[] = [];
+
+  const visit = (directory: string, depth: number) => {
+    if (fs.existsSync(path.join(directory, 'signalsets', 'v3', 'default.json'))) {
+      repositories.push(directory);
+      return;
+    }
+    if (depth >= maxDepth) {
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+        visit(path.join(directory, entry.name), depth + 1);
+      }
+    }
+  };
+
+  visit(path.resolve(rootPath), 0);
+  return repositories.sort((a, b) => path.basename(a).localeCompare(path.basename(b)) || a.localeCompare(b));
+}
+
+/**
+ * Gets a vehicle's make from its repository name, which OBDb spells Make-Model (e.g. Toyota-RAV4)
+ */
+export function getVehicleMake(repositoryPath: string): string {
+  return path.basename(repositoryPath).split('-')[0];
+}
+
+/**
+ * Lists the signalset files of a repository, default.json and the year-range files
+ */
+function findSignalsetFiles(repositoryPath: string): string[] {
+  const signalsetDir = path.join(repositoryPath, 'signalsets', 'v3');
+  return fs.readdirSync(signalsetDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => path.join(signalsetDir, file));
+}
+
+/**
+ * Collects the definition of every signal ID in a set of signalset files
+ */
+function collectSignalDefinitions(signalsetFiles: string[]): { [signalId: string]: SignalDefinition } {
+  const signals: { [signalId: string]: SignalDefinition } = {};
+  for (const filePath of signalsetFiles) {
+    const signalset = jsonc.parse(fs.readFileSync(filePath, 'utf-8'));
+    for (const command of Array.isArray(signalset?.commands) ? signalset.commands : []) {
+      for (const signal of Array.isArray(command?.signals) ? command.signals : []) {
+        if (typeof signal?.id !== 'string' || signals[signal.id]) {
+          continue;
+        }
+        signals[signal.id] = {
+          name: signal.name,
+          unit: signal.fmt?.unit,
+          path: signal.path,
+          suggestedMetric: signal.suggestedMetric
+        };
+      }
+    }
+  }
+  return signals;
+}
+
+/**
+ * Lints, tests and measures the coverage of one vehicle repository. The repository's linter
+ * configuration is applied to the shared rule registry before its signalsets are linted.
+ * @param repositoryPath The repository root
+ * @returns The scan results; a step that fails is recorded in errors rather than thrown
+ */
+export async function scanVehicleRepository(repositoryPath: string): Promise<VehicleScanResult> {
+  const result: VehicleScanResult = {
+    vehicle: path.basename(repositoryPath),
+    make: getVehicleMake(repositoryPath),
+    repositoryPath,
+    lint: { errors: 0, warnings: 0, notes: 0, rules: {} },
+    tests: summarizeTestResults([]),
+    coverage: { signals: 0, testedSignals: 0, commands: 0, testedCommands: 0 },
+    signals: {},
+    errors: []
+  };
+  const describe = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+  let signalsetFiles: string[] = [];
+  try {
+    signalsetFiles = findSignalsetFiles(repositoryPath);
+    result.signals = collectSignalDefinitions(signalsetFiles);
+  } catch (error) {
+    result.errors.push(`Could not read the signalsets: ${describe(error)}`);
+  }
+
+  try {
+    const registry = RuleRegistry.getInstance();
+    await registry.whenReady();
+    registry.configure(loadLinterConfig(repositoryPath));
+    const linter = new SignalLinter();
+    for (const filePath of signalsetFiles) {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      for (const lintResult of linter.lintText(content, await loadLintContext(filePath, repositoryPath))) {
+        const severity = registry.getRuleConfig(lintResult.ruleId)?.severity ?? LintSeverity.Warning;
+        if (severity === LintSeverity.Error) {
+          result.lint.errors++;
+        } else if (severity === LintSeverity.Warning) {
+          result.lint.warnings++;
+        } else {
+          result.lint.notes++;
+        }
+        result.lint.rules[lintResult.ruleId] = (result.lint.rules[lintResult.ruleId] || 0) + 1;
+      }
+    }
+  } catch (error) {
+    result.errors.push(`Lint failed: ${describe(error)}`);
+  }
+
+  try {
+    result.tests = summarizeTestResults(findTestFiles(repositoryPath).map(file => runTestFile(file, repositoryPath)));
+  } catch (error) {
+    result.errors.push(`Tests failed to run: ${describe(error)}`);
+  }
+
+  try {
+    result.coverage = summarizeCoverage(computeSignalCoverage(repositoryPath));
+  } catch (error) {
+    result.errors.push(`Coverage failed: ${describe(error)}`);
+  }
+
+  return result;
+}
+
+/**
+ * Counts the problems a vehicle scan found: lint errors and warnings, failed test cases,
+ * test files that could not be run and failed scan steps
+ */
+export function countVehicleProblems(vehicle: VehicleScanResult): number {
+  return vehicle.lint.errors + vehicle.lint.warnings + vehicle.tests.failed + vehicle.tests.errors + vehicle.errors.length;
+}
+
+/**
+ * Finds the signal IDs that vehicles of the same make define differently
+ * @param vehicles The vehicle scan results
+ * @returns The inconsistent signals, sorted by make and signal ID
+ */
+export function findInconsistentSignals(vehicles: VehicleScanResult[]): InconsistentSignal[] {
+  // make -> signal ID -> serialized definition -> variant
+  const byMake = new Map<string, Map<string, Map<string, { definition: SignalDefinition; vehicles: string[] }>>>();
+
+  for (const vehicle of vehicles) {
+    if (!byMake.has(vehicle.make)) {
+      byMake.set(vehicle.make, new Map());
+    }
+    const signals = byMake.get(vehicle.make)!;
+    for (const [signalId, definition] of Object.entries(vehicle.signals)) {
+      if (!signals.has(signalId)) {
+        signals.set(signalId, new Map());
+      }
+      const variants = signals.get(signalId)!;
+      const key = JSON.stringify(SIGNAL_DEFINITION_PROPERTIES.map(property => definition[property] ?? null));
+      if (!variants.has(key)) {
+        variants.set(key, { definition, vehicles: [] });
+      }
+      variants.get(key)!.vehicles.push(vehicle.vehicle);
+    }
+  }
+
+  const inconsistent: InconsistentSignal[] = [];
+  for (const [make, signals] of byMake) {
+    for (const [signalId, variants] of signals) {
+      if (variants.size < 2) {
+        continue;
+      }
+      const definitions = [...variants.values()];
+      const properties = SIGNAL_DEFINITION_PROPERTIES.filter(property =>
+        new Set(definitions.map(variant => variant.definition[property] ?? null)).size > 1);
+      inconsistent.push({ make, signalId, properties, variants: definitions.sort((a, b) => b.vehicles.length - a.vehicles.length) });
+    }
+  }
+
+  return inconsistent.sort((a, b) => a.make.localeCompare(b.make) || a.signalId.localeCompare(b.signalId));
+}
+
+/**
+ * Ranks the lint rules by how many results they produced across the fleet
+ * @param vehicles The vehicle scan results
+ * @param limit How many rules to return
+ */
+export function findTopLintRules(vehicles: VehicleScanResult[], limit: number = 10): LintRuleCount[] {
+  const counts = new Map<string, LintRuleCount>();
+  const registry = RuleRegistry.getInstance();
+
+  for (const vehicle of vehicles) {
+    for (const [ruleId, results] of Object.entries(vehicle.lint.rules)) {
+      if (!counts.has(ruleId)) {
+        const severity = registry.getRuleById(ruleId)?.getConfig().severity ?? LintSeverity.Warning;
+        counts.set(ruleId, { ruleId, severity, results: 0, vehicles: 0 });
+      }
+      const count = counts.get(ruleId)!;
+      count.results += results;
+      count.vehicles++;
+    }
+  }
+
+  return [...counts.values()]
+    .sort((a, b) => b.results - a.results || b.vehicles - a.vehicles || a.ruleId.localeCompare(b.ruleId))
+    .slice(0, limit);
+}
+
+/**
+ * Aggregates the scans of many vehicle repositories into one report
+ * @param scannedPath The directory that was scanned
+ * @param vehicles The vehicle scan results
+ */
+export function buildFleetReport(scannedPath: string, vehicles: VehicleScanResult[]): FleetReport {
+  return {
+    scannedPath,
+    generatedAt: new Date().toISOString(),
+    vehicles,
+    inconsistentSignals: findInconsistentSignals(vehicles),
+    topLintRules: findTopLintRules(vehicles)
+  };
+}
@@ -1,4 +1,4 @@
-import * as vscode from 'vscode';
+import { getActiveWorkspaceRoot } from './workspaceFolders';
 import {
     Generation,
     GenerationsConfig,
@@ -13,15 +13,15 @@ export { Generation, GenerationsConfig, formatYearsAsRanges } from './generation
 
 /**
  * Get all the generations from the generations.yaml file
- * @param workspacePath The workspace folder path. If not provided, uses VSCode workspace folders
+ * @param workspacePath The workspace folder path. If not provided, uses the active editor's workspace folder
  * @returns Array of generations or null if file doesn't exist or is invalid
  */
 export async function getGenerations(workspacePath?: string): Promise<Generation[] | null> {
     let targetPath: string | null = null;
     if (workspacePath) {
         targetPath = workspacePath;
-    } else if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-        targetPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
+    } else {
+        targetPath = getActiveWorkspaceRoot() ?? null;
     }
 
     if (!targetPath) {
@@ -41,8 +41,8 @@ export async function getGenerationForModelYear(modelYear: string, workspacePath
     let targetPath: string | null = null;
     if (workspacePath) {
         targetPath = workspacePath;
-    } else if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-        targetPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
+    } else {
+        targetPath = getActiveWorkspaceRoot() ?? null;
     }
 
     if (!targetPath) {
@@ -62,8 +62,8 @@ export async function groupModelYearsByGeneration(modelYears: string[], workspac
     let targetPath: string | null = null;
     if (workspacePath) {
         targetPath = workspacePath;
-    } else if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-        targetPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
+    } else {
+        targetPath = getActiveWorkspaceRoot() ?? null;
     }
 
     if (!targetPath) {
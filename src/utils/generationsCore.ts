@@ -43,9 +43,14 @@ export class GenerationSet {
     return Math.min(...this.generations.map(g => g.start_year));
   }
 
+  /**
+   * The last model year of any generation, or undefined when a generation is still in production
+   */
   get lastYear(): number | undefined {
-    const lastGen = this.generations[this.generations.length - 1];
-    return lastGen.end_year ?? undefined;
+    if (this.generations.length === 0 || this.generations.some(gen => gen.end_year === null || gen.end_year === undefined)) {
+      return undefined;
+    }
+    return Math.max(...this.generations.map(gen => gen.end_year as number));
   }
 }
 
@@ -0,0 +1,227 @@
+/**
+ * VSCode-independent validation of generations.yaml files
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as YAML from 'yaml';
+
+/**
+ * A field of a generation entry
+ */
+export interface GenerationField {
+  key: string;
+  description: string;
+  required: boolean;
+  /** Snippet inserted after the colon */
+  valueSnippet: string;
+}
+
+/**
+ * The fields of a generation entry, in the order generations.yaml files write them
+ */
+export const GENERATION_FIELDS: GenerationField[] = [
+  { key: 'name', description: 'Name of the generation, e.g. "Mk7"', required: true, valueSnippet: '$1' },
+  { key: 'start_year', description: 'First model year of the generation', required: true, valueSnippet: '$1' },
+  { key: 'end_year', description: 'Last model year of the generation, or null while it is still in production', required: true, valueSnippet: '${1:null}' },
+  { key: 'description', description: 'Notes on what changed in this generation', required: false, valueSnippet: '$1' }
+];
+
+/**
+ * A generation entry in a generations.yaml file, with the spans of its parts
+ */
+export interface GenerationEntry {
+  index: number;
+  /** The entry as parsed; fields may be missing or of the wrong type */
+  value: any;
+  offset: number;
+  length: number;
+  /** Span of each key's value, or of the key when the value is empty */
+  fieldSpans: Map<string, { offset: number, length: number }>;
+}
+
+/**
+ * A problem found in a generations.yaml file
+ */
+export interface GenerationsProblem {
+  message: string;
+  severity: 'error' | 'warning';
+  offset: number;
+  length: number;
+}
+
+/**
+ * Reads the entries of a generations.yaml file's generations list
+ * @param text The file's text
+ * @returns The entries, or undefined when the file has no generations list
+ */
+export function findGenerationEntries(text: string): GenerationEntry[] | undefined {
+  const generations = YAML.parseDocument(text).get('generations', true);
+  if (!YAML.isSeq(generations)) {
+    return undefined;
+  }
+
+  return generations.items.map((item, index) => {
+    const range = YAML.isNode(item) && item.range ? item.range : [0, 0];
+    const fieldSpans = new Map<string, { offset: number, length: number }>();
+    if (YAML.isMap(item)) {
+      for (const pair of item.items) {
+        const key = YAML.isScalar(pair.key) ? String(pair.key.value) : undefined;
+        const hasValue = YAML.isNode(pair.value) && pair.value.range && pair.value.range[1] > pair.value.range[0];
+        const node = (hasValue ? pair.value : pair.key) as YAML.Node | null;
+        if (key !== undefined && node?.range) {
+          fieldSpans.set(key, { offset: node.range[0], length: node.range[1] - node.range[0] });
+        }
+      }
+    }
+    return {
+      index,
+      value: YAML.isNode(item) ? item.toJSON() : item,
+      offset: range[0],
+      length: range[1] - range[0],
+      fieldSpans
+    };
+  });
+}
+
+/**
+ * Gets the span of a field's value, falling back to the whole entry when the field is missing
+ */
+function fieldSpan(entry: GenerationEntry, key?: string): { offset: number, length: number } {
+  return (key !== undefined && entry.fieldSpans.get(key)) || { offset: entry.offset, length: entry.length };
+}
+
+/**
+ * Checks the fields of one generation entry
+ */
+function validateEntry(entry: GenerationEntry, problems: GenerationsProblem[]): void {
+  const entrySpan = fieldSpan(entry);
+  const spanOf = (key: string) => fieldSpan(entry, key);
+  const value = entry.value;
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    problems.push({ message: 'A generation must be a mapping with name, start_year and end_year', severity: 'error', ...entrySpan });
+    return;
+  }
+
+  for (const field of GENERATION_FIELDS) {
+    if (field.required && !(field.key in value)) {
+      const hint = field.key === 'end_year' ? '; use null for a generation still in production' : '';
+      problems.push({ message: `Generation is missing ${field.key}${hint}`, severity: field.key === 'end_year' ? 'warning' : 'error', ...entrySpan });
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (!GENERATION_FIELDS.some(field => field.key === key)) {
+      problems.push({ message: `Unknown generation field '${key}'`, severity: 'warning', ...spanOf(key) });
+    }
+  }
+
+  if ('name' in value && (typeof value.name !== 'string' || value.name.trim() === '')) {
+    problems.push({ message: 'name must be a non-empty string', severity: 'error', ...spanOf('name') });
+  }
+  if ('start_year' in value && !Number.isInteger(value.start_year)) {
+    problems.push({ message: 'start_year must be a model year', severity: 'error', ...spanOf('start_year') });
+  }
+  if ('end_year' in value && value.end_year !== null && !Number.isInteger(value.end_year)) {
+    problems.push({ message: 'end_year must be a model year or null', severity: 'error', ...spanOf('end_year') });
+  }
+  if ('description' in value && value.description !== null && typeof value.description !== 'string') {
+    problems.push({ message: 'description must be a string', severity: 'warning', ...spanOf('description') });
+  }
+
+  if (Number.isInteger(value.start_year) && Number.isInteger(value.end_year) && value.end_year < value.start_year) {
+    problems.push({
+      message: `end_year ${value.end_year} is before start_year ${value.start_year}`,
+      severity: 'error',
+      ...spanOf('end_year')
+    });
+  }
+}
+
+/**
+ * Validates a generations.yaml file: the fields of each generation, and that the generations'
+ * year ranges neither overlap nor leave gaps, with at most one generation still in production
+ * @param text The file's text
+ * @returns The problems found, in no particular order
+ */
+export function validateGenerations(text: string): GenerationsProblem[] {
+  const yamlDoc = YAML.parseDocument(text);
+  if (yamlDoc.errors.length > 0) {
+    return yamlDoc.errors.map(error => ({
+      message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      severity: 'error',
+      offset: error.pos[0],
+      length: Math.max(1, error.pos[1] - error.pos[0])
+    }));
+  }
+
+  const entries = findGenerationEntries(text);
+  if (!entries) {
+    return [{ message: 'generations.yaml must contain a generations list', severity: 'error', offset: 0, length: Math.min(text.length, 1) }];
+  }
+
+  const problems: GenerationsProblem[] = [];
+  entries.forEach(entry => validateEntry(entry, problems));
+
+  // Ranges are only compared between entries whose years are valid
+  const ranges = entries
+    .filter(entry => Number.isInteger(entry.value?.start_year) &&
+      (entry.value.end_year === null || !('end_year' in entry.value) ||
+        (Number.isInteger(entry.value.end_year) && entry.value.end_year >= entry.value.start_year)))
+    .map(entry => ({
+      entry,
+      name: typeof entry.value.name === 'string' ? entry.value.name : `#${entry.index + 1}`,
+      start: entry.value.start_year as number,
+      end: Number.isInteger(entry.value.end_year) ? entry.value.end_year as number : Infinity
+    }))
+    .sort((a, b) => a.start - b.start || a.entry.index - b.entry.index);
+
+  const openEnded = ranges.filter(range => range.end === Infinity);
+  if (openEnded.length > 1) {
+    for (const range of openEnded) {
+      const others = openEnded.filter(other => other !== range).map(other => `'${other.name}'`).join(', ');
+      problems.push({
+        message: `Only one generation can have end_year: null, but ${others} also ${openEnded.length > 2 ? 'do' : 'does'}`,
+        severity: 'error',
+        ...fieldSpan(range.entry, 'end_year')
+      });
+    }
+  }
+
+  for (let i = 1; i < ranges.length; i++) {
+    const current = ranges[i];
+    const span = fieldSpan(current.entry, 'start_year');
+
+    // Sorted by start year, so overlaps are found among the generations that start earlier
+    const overlapping = ranges.slice(0, i).filter(earlier => earlier.end >= current.start);
+    for (const earlier of overlapping) {
+      const end = Math.min(earlier.end, current.end);
+      const years = end === current.start ? `${current.start}` : end === Infinity ? `${current.start} onwards` : `${current.start}-${end}`;
+      problems.push({ message: `Generation '${current.name}' overlaps '${earlier.name}' in ${years}`, severity: 'error', ...span });
+    }
+
+    const previous = ranges.slice(0, i).reduce((latest, earlier) => earlier.end > latest.end ? earlier : latest);
+    if (overlapping.length === 0 && previous.end + 1 < current.start) {
+      const gap = previous.end + 1 === current.start - 1 ? `${previous.end + 1}` : `${previous.end + 1}-${current.start - 1}`;
+      problems.push({
+        message: `No generation covers ${gap} between '${previous.name}' and '${current.name}'`,
+        severity: 'warning',
+        ...span
+      });
+    }
+  }
+
+  const names = new Map<string, number>();
+  for (const entry of entries) {
+    const name = entry.value?.name;
+    if (typeof name === 'string') {
+      names.set(name, (names.get(name) || 0) + 1);
+    }
+  }
+  for (const entry of entries) {
+    if ((names.get(entry.value?.name) || 0) > 1) {
+      problems.push({ message: `Generation name '${entry.value.name}' is used more than once`, severity: 'warning', ...fieldSpan(entry, 'name') });
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,36 @@
+/**
+ * VSCode-independent evaluation of command filter and dbgfilter objects
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+/**
+ * A command's filter or dbgfilter
+ */
+export interface ModelYearFilter {
+  from?: number;
+  to?: number;
+  years?: number[];
+}
+
+/**
+ * Checks whether a filter covers a model year. When `from` is before `to` the two bound a range;
+ * otherwise each is open-ended (up to `to`, from `from`). The listed `years` are always covered.
+ * @param filter The filter; a missing filter covers no years
+ * @param year The model year
+ */
+export function filterIncludesYear(filter: ModelYearFilter | undefined, year: number): boolean {
+  if (!filter || typeof filter !== 'object') {
+    return false;
+  }
+
+  if (Array.isArray(filter.years) && filter.years.includes(year)) {
+    return true;
+  }
+
+  const hasFrom = typeof filter.from === 'number';
+  const hasTo = typeof filter.to === 'number';
+  if (hasFrom && hasTo && filter.from! < filter.to!) {
+    return year >= filter.from! && year <= filter.to!;
+  }
+  return (hasFrom && year >= filter.from!) || (hasTo && year <= filter.to!);
+}
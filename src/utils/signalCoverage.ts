@@ -0,0 +1,270 @@
+/**
+ * VSCode-independent signal-level test coverage of a vehicle repository
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import * as jsonc from 'jsonc-parser';
+import { generateNormalizedCommandId } from './commandSupportUtils';
+import { getSignalsetYearRange } from './effectiveSignalset';
+import { getCommandMatchKey, getTestFileCommandId } from './signalReferences';
+import { findTestFiles, getModelYearFromTestPath } from './testCaseRunner';
+
+/**
+ * How many test cases assert a signal, and in which model years
+ */
+export interface SignalCoverage {
+  signalId: string;
+  /** Span of the signal's ID in the signalset */
+  offset: number;
+  length: number;
+  /** Zero-based line of the signal's ID */
+  line: number;
+  testCaseCount: number;
+  years: string[];
+}
+
+/**
+ * How many test cases exercise a command, and the coverage of its signals
+ */
+export interface CommandCoverage {
+  commandId: string;
+  /** Span of the command object in the signalset */
+  offset: number;
+  length: number;
+  /** Zero-based line where the command starts */
+  line: number;
+  testCaseCount: number;
+  years: string[];
+  signals: SignalCoverage[];
+}
+
+/**
+ * The coverage of every command in a signalset file
+ */
+export interface SignalsetCoverage {
+  filePath: string;
+  commands: CommandCoverage[];
+}
+
+/**
+ * Totals of a coverage report
+ */
+export interface CoverageSummary {
+  signals: number;
+  testedSignals: number;
+  commands: number;
+  testedCommands: number;
+}
+
+/**
+ * The test cases of one command in one model year, and how often each signal is asserted
+ */
+interface YearTests {
+  testCaseCount: number;
+  signalCounts: Map<string, number>;
+}
+
+/**
+ * Reads the test files, grouping their test cases by command match key and model year
+ */
+function readTestEvidence(testFiles: string[]): Map<string, Map<string, YearTests>> {
+  const evidence = new Map<string, Map<string, YearTests>>();
+
+  for (const filePath of testFiles) {
+    const modelYear = getModelYearFromTestPath(filePath);
+    let content: any;
+    try {
+      content = YAML.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      continue;
+    }
+    if (!modelYear || !Array.isArray(content?.test_cases)) {
+      continue;
+    }
+
+    const commandId = typeof content.command_id === 'string' ? content.command_id : getTestFileCommandId(filePath);
+    const matchKey = getCommandMatchKey(commandId);
+    if (!evidence.has(matchKey)) {
+      evidence.set(matchKey, new Map());
+    }
+    const byYear = evidence.get(matchKey)!;
+    if (!byYear.has(modelYear)) {
+      byYear.set(modelYear, { testCaseCount: 0, signalCounts: new Map() });
+    }
+    const yearTests = byYear.get(modelYear)!;
+
+    for (const testCase of content.test_cases) {
+      yearTests.testCaseCount++;
+      for (const signalId of Object.keys(testCase?.expected_values || {})) {
+        yearTests.signalCounts.set(signalId, (yearTests.signalCounts.get(signalId) || 0) + 1);
+      }
+    }
+  }
+
+  return evidence;
+}
+
+/**
+ * Computes the test coverage of every signal in a repository's signalsets. A test case covers a
+ * signal when it lists the signal in its expected_values; tests of a model year count towards the
+ * year-range signalset covering it, or towards default.json when no range file defines the command.
+ * @param workspacePath The repository root
+ * @param testFiles The test files to take into account, defaults to every test file in the repository
+ * @returns The coverage of each signalset file, in file name order
+ */
+export function computeSignalCoverage(workspacePath: string, testFiles?: string[]): SignalsetCoverage[] {
+  const signalsetDir = path.join(workspacePath, 'signalsets', 'v3');
+  if (!fs.existsSync(signalsetDir)) {
+    return [];
+  }
+
+  const evidence = readTestEvidence(testFiles ?? findTestFiles(workspacePath));
+  const signalsets = fs.readdirSync(signalsetDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const filePath = path.join(signalsetDir, file);
+      let text = '';
+      try {
+        text = fs.readFileSync(filePath, 'utf-8');
+      } catch {
+        // Unreadable files are reported without commands
+      }
+      return { filePath, text, range: getSignalsetYearRange(filePath), root: jsonc.parseTree(text) };
+    });
+
+  // Years in which a range file takes over a command from default.json
+  const overriddenYears = new Map<string, [number, number][]>();
+  for (const signalset of signalsets) {
+    const commands = signalset.range && signalset.root && jsonc.findNodeAtLocation(signalset.root, ['commands']);
+    for (const command of commands?.children || []) {
+      const value = jsonc.getNodeValue(command);
+      if (value?.hdr && value?.cmd) {
+        const matchKey = getCommandMatchKey(generateNormalizedCommandId(value));
+        overriddenYears.set(matchKey, [...(overriddenYears.get(matchKey) || []), signalset.range!]);
+      }
+    }
+  }
+
+  return signalsets.map(signalset => {
+    const lineStarts = [0];
+    for (let i = 0; i < signalset.text.length; i++) {
+      if (signalset.text[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+    const lineAt = (offset: number) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return low;
+    };
+
+    const commands: CommandCoverage[] = [];
+    const commandNodes = signalset.root && jsonc.findNodeAtLocation(signalset.root, ['commands']);
+    for (const commandNode of commandNodes?.children || []) {
+      const value = jsonc.getNodeValue(commandNode);
+      if (!value?.hdr || !value?.cmd) {
+        continue;
+      }
+      const commandId = generateNormalizedCommandId(value);
+      const matchKey = getCommandMatchKey(commandId);
+
+      const yearTests = [...(evidence.get(matchKey) || new Map<string, YearTests>())]
+        .filter(([year]) => {
+          const modelYear = parseInt(year, 10);
+          const covers = (range: [number, number]) => modelYear >= range[0] && modelYear <= range[1];
+          return signalset.range ? covers(signalset.range) : !(overriddenYears.get(matchKey) || []).some(covers);
+        })
+        .sort(([a], [b]) => a.localeCompare(b));
+
+      const signals: SignalCoverage[] = [];
+      for (const signalNode of jsonc.findNodeAtLocation(commandNode, ['signals'])?.children || []) {
+        const idNode = jsonc.findNodeAtLocation(signalNode, ['id']);
+        if (idNode?.type !== 'string') {
+          continue;
+        }
+        const asserting = yearTests.filter(([, tests]) => tests.signalCounts.has(idNode.value));
+        signals.push({
+          signalId: idNode.value,
+          offset: idNode.offset + 1,
+          length: idNode.length - 2,
+          line: lineAt(idNode.offset),
+          testCaseCount: asserting.reduce((sum, [, tests]) => sum + tests.signalCounts.get(idNode.value)!, 0),
+          years: asserting.map(([year]) => year)
+        });
+      }
+
+      commands.push({
+        commandId,
+        offset: commandNode.offset,
+        length: commandNode.length,
+        line: lineAt(commandNode.offset),
+        testCaseCount: yearTests.reduce((sum, [, tests]) => sum + tests.testCaseCount, 0),
+        years: yearTests.map(([year]) => year),
+        signals
+      });
+    }
+
+    return { filePath: signalset.filePath, commands };
+  });
+}
+
+/**
+ * Counts the signals and commands of a coverage report, and how many of them are tested
+ */
+export function summarizeCoverage(coverage: SignalsetCoverage[]): CoverageSummary {
+  const summary: CoverageSummary = { signals: 0, testedSignals: 0, commands: 0, testedCommands: 0 };
+  for (const signalset of coverage) {
+    for (const command of signalset.commands) {
+      summary.commands++;
+      if (command.testCaseCount > 0) {
+        summary.testedCommands++;
+      }
+      for (const signal of command.signals) {
+        summary.signals++;
+        if (signal.testCaseCount > 0) {
+          summary.testedSignals++;
+        }
+      }
+    }
+  }
+  return summary;
+}
+
+/**
+ * Formats a coverage report as JSON, with paths relative to the repository
+ * @param coverage The coverage of each signalset
+ * @param workspacePath The repository root
+ */
+export function formatCoverageJson(coverage: SignalsetCoverage[], workspacePath: string): string {
+  const report = {
+    summary: summarizeCoverage(coverage),
+    signalsets: coverage.map(signalset => ({
+      file: path.relative(workspacePath, signalset.filePath).replace(/\\/g, '/'),
+      commands: signalset.commands.map(command => ({
+        commandId: command.commandId,
+        line: command.line + 1,
+        testCases: command.testCaseCount,
+        years: command.years,
+        signals: command.signals.map(signal => ({
+          signalId: signal.signalId,
+          line: signal.line + 1,
+          testCases: signal.testCaseCount,
+          years: signal.years
+        }))
+      }))
+    }))
+  };
+  return JSON.stringify(report, null, 2) + '\n';
+}
@@ -0,0 +1,381 @@
+/**
+ * VSCode-independent signal decoding engine
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+/**
+ * Format of a signal as stored in the `fmt` key of a signalset signal
+ */
+export interface SignalFormat {
+  bix?: number;
+  len: number;
+  sign?: boolean;
+  mul?: number;
+  div?: number;
+  add?: number;
+  min?: number;
+  max?: number;
+  unit?: string;
+  map?: { [rawValue: string]: any };
+}
+
+/**
+ * Minimal shape of a signalset signal needed for decoding
+ */
+export interface DecodableSignal {
+  id: string;
+  fmt: SignalFormat;
+}
+
+/**
+ * Minimal shape of a signalset command needed for decoding
+ */
+export interface DecodableCommand {
+  hdr?: string;
+  rax?: string;
+  eax?: string;
+  cmd: { [service: string]: string } | string;
+  signals?: DecodableSignal[];
+}
+
+/**
+ * Options describing how a response was captured
+ */
+export interface DecoderOptions {
+  /** CAN identifier format of the response frames, '11bit' (default) or '29bit' */
+  canIdFormat?: string;
+  /** Whether every frame carries an extended address byte before the PCI byte */
+  extendedAddressing?: boolean;
+}
+
+export type DecodedValue = number | string | null;
+
+/**
+ * Result of decoding a response against a command
+ */
+export interface DecodeResult {
+  /** Decoded value per signal ID */
+  values: { [signalId: string]: DecodedValue };
+  /** Response data following the service/PID echo */
+  payload: number[];
+  /** CAN identifier of the ECU the payload was taken from */
+  ecu?: string;
+  /** Problems that prevented some or all signals from being decoded */
+  errors: string[];
+}
+
+/**
+ * Parses a hex string into bytes, ignoring whitespace
+ * @param hex The hex string
+ * @returns The bytes, or null if the string is not valid hex
+ */
+export function hexToBytes(hex: string): number[] | null {
+  const cleaned = hex.replace(/\s+/g, '');
+  if (cleaned.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(cleaned)) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < cleaned.length; i += 2) {
+    bytes.push(parseInt(cleaned.substring(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+/**
+ * Splits a multi-line response into CAN frames and reassembles the ISO-TP
+ * messages sent by each ECU
+ * @param response The raw response, one CAN frame per line
+ * @param options How the response was captured
+ * @returns Map of CAN identifier to reassembled message bytes, in order of first appearance
+ */
+export function parseResponseFrames(response: string, options: DecoderOptions = {}): Map<string, number[]> {
+  const idLength = options.canIdFormat === '29bit' ? 8 : 3;
+  const messages = new Map<string, { data: number[]; expectedLength: number }>();
+
+  for (const rawLine of response.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+/g, '').toUpperCase();
+    if (line.length <= idLength) {
+      continue;
+    }
+
+    const canId = line.substring(0, idLength);
+    let bytes = hexToBytes(line.substring(idLength));
+    if (!bytes || bytes.length === 0) {
+      continue;
+    }
+
+    if (options.extendedAddressing) {
+      bytes = bytes.slice(1);
+    }
+    if (bytes.length === 0) {
+      continue;
+    }
+
+    const frameType = bytes[0] >> 4;
+    const message = messages.get(canId);
+
+    if (frameType === 0x0) {
+      // Single frame: keep only the first complete message per ECU
+      if (message) {
+        continue;
+      }
+      const length = bytes[0] & 0x0F;
+      messages.set(canId, { data: bytes.slice(1, 1 + length), expectedLength: length });
+    } else if (frameType === 0x1) {
+      if (message) {
+        continue;
+      }
+      const length = ((bytes[0] & 0x0F) << 8) | (bytes[1] ?? 0);
+      messages.set(canId, { data: bytes.slice(2), expectedLength: length });
+    } else if (frameType === 0x2) {
+      if (message && message.data.length < message.expectedLength) {
+        message.data.push(...bytes.slice(1));
+      }
+    }
+  }
+
+  const result = new Map<string, number[]>();
+  for (const [canId, message] of messages) {
+    result.set(canId, message.data.slice(0, message.expectedLength));
+  }
+  return result;
+}
+
+/**
+ * Gets the bytes a positive response echoes back for a command
+ * (the service ID + 0x40 followed by the parameter bytes)
+ * @param cmd The command's `cmd` value
+ * @returns The expected echo bytes
+ */
+export function getResponseEcho(cmd: DecodableCommand['cmd']): number[] {
+  let request: number[] | null;
+  if (typeof cmd === 'object') {
+    const service = Object.keys(cmd)[0];
+    request = hexToBytes(`${service}${cmd[service]}`);
+  } else {
+    request = hexToBytes(String(cmd));
+  }
+
+  if (!request || request.length === 0) {
+    return [];
+  }
+  return [request[0] + 0x40, ...request.slice(1)];
+}
+
+/**
+ * Determines the CAN identifier an ECU answers a command on
+ * @param command The signalset command
+ * @returns The identifier, or null if it cannot be determined
+ */
+export function getResponseCanId(command: { hdr?: string, rax?: string }): { id: number, extended: boolean } | null {
+  const hdr = String(command.hdr ?? '7E0').toUpperCase();
+  const rax = command.rax !== undefined ? String(command.rax).toUpperCase() : undefined;
+  const physical29Bit = hdr.match(/^18DA([0-9A-F]{2})([0-9A-F]{2})$/);
+
+  if (rax !== undefined) {
+    if (/^[0-9A-F]{8}$/.test(rax)) {
+      return { id: parseInt(rax, 16), extended: true };
+    }
+    if (physical29Bit && /^[0-9A-F]{2}$/.test(rax)) {
+      return { id: parseInt(`18DA${physical29Bit[2]}${rax}`, 16), extended: true };
+    }
+    if (/^[0-9A-F]{3}$/.test(hdr) && /^[0-9A-F]{1,3}$/.test(rax)) {
+      return { id: parseInt(rax, 16), extended: false };
+    }
+    return null;
+  }
+
+  if (hdr === '7DF') {
+    // Functional (broadcast) requests are answered by every ECU that supports them
+    return null;
+  }
+  if (/^[0-9A-F]{3}$/.test(hdr)) {
+    // 11-bit diagnostic responses come from the request ID + 8
+    const id = parseInt(hdr, 16) + 8;
+    return id <= 0x7FF ? { id, extended: false } : null;
+  }
+  if (physical29Bit) {
+    // 29-bit physical responses swap the target and source addresses
+    return { id: parseInt(`18DA${physical29Bit[2]}${physical29Bit[1]}`, 16), extended: true };
+  }
+  return null;
+}
+
+/**
+ * Extracts an unsigned integer from a byte array using big-endian bit numbering,
+ * where bit 0 is the most significant bit of the first byte
+ * @param bytes The bytes to read from
+ * @param bix The index of the first bit
+ * @param len The number of bits
+ * @returns The raw value, or null if the bits are outside the data
+ */
+export function extractBits(bytes: number[], bix: number, len: number): number | null {
+  if (len <= 0 || bix < 0 || bix + len > bytes.length * 8) {
+    return null;
+  }
+
+  // Arithmetic rather than bitwise operators so values wider than 32 bits survive
+  let value = 0;
+  for (let bit = bix; bit < bix + len; bit++) {
+    const byte = bytes[Math.floor(bit / 8)];
+    const bitValue = (byte >> (7 - (bit % 8))) & 1;
+    value = value * 2 + bitValue;
+  }
+  return value;
+}
+
+/**
+ * Decodes a single signal from a response payload
+ * @param fmt The signal's format
+ * @param payload Response data following the service/PID echo
+ * @returns The decoded value, or null if it could not be decoded
+ */
+export function decodeSignalValue(fmt: SignalFormat, payload: number[]): DecodedValue {
+  const bix = fmt.bix ?? 0;
+  const len = fmt.len;
+
+  if (fmt.unit === 'ascii') {
+    if (bix + len > payload.length * 8) {
+      return null;
+    }
+    const bytes = payload.slice(Math.floor(bix / 8), Math.ceil((bix + len) / 8));
+    return String.fromCharCode(...bytes).replace(/\0+$/, '').trim();
+  }
+
+  let raw = extractBits(payload, bix, len);
+  if (raw === null) {
+    return null;
+  }
+
+  if (fmt.sign && raw >= Math.pow(2, len - 1)) {
+    raw -= Math.pow(2, len);
+  }
+
+  if (fmt.map) {
+    const mapped = fmt.map[String(raw)];
+    if (mapped === undefined) {
+      return null;
+    }
+    // Map entries are either plain values or { description, value } objects
+    return (mapped !== null && typeof mapped === 'object' && 'value' in mapped) ? mapped.value : mapped;
+  }
+
+  let value = raw * (fmt.mul ?? 1) / (fmt.div ?? 1) + (fmt.add ?? 0);
+  if (fmt.min !== undefined && value < fmt.min) {
+    value = fmt.min;
+  }
+  if (fmt.max !== undefined && value > fmt.max) {
+    value = fmt.max;
+  }
+
+  // Drop floating point noise such as 0.30000000000000004
+  return parseFloat(value.toPrecision(12));
+}
+
+/**
+ * Explains why decodeSignalValue returned null for a signal
+ */
+function describeDecodeFailure(fmt: SignalFormat, payload: number[]): string {
+  const bix = fmt.bix ?? 0;
+  if (bix + fmt.len > payload.length * 8) {
+    return `bits ${bix}-${bix + fmt.len - 1} are beyond the ${payload.length} byte(s) of data`;
+  }
+  return `raw value ${extractBits(payload, bix, fmt.len)} is not in the map`;
+}
+
+/**
+ * Locates the ECU response for a command and strips the service/PID echo
+ * @param command The signalset command
+ * @param response The raw response, one CAN frame per line
+ * @param options How the response was captured
+ * @returns The payload and the ECU it came from, or an error message
+ */
+export function extractCommandPayload(
+  command: DecodableCommand,
+  response: string,
+  options: DecoderOptions = {}
+): { payload: number[]; ecu: string } | { error: string } {
+  const messages = parseResponseFrames(response, options);
+  if (messages.size === 0) {
+    return { error: 'Response does not contain any CAN frames' };
+  }
+
+  let ecu: string | undefined;
+  if (command.rax) {
+    const rax = command.rax.toUpperCase();
+    ecu = [...messages.keys()].find(id => id === rax || id.endsWith(rax));
+    if (!ecu && messages.size === 1) {
+      ecu = [...messages.keys()][0];
+    }
+    if (!ecu) {
+      return { error: `No response from ECU ${rax} (responses from ${[...messages.keys()].join(', ')})` };
+    }
+  } else if (messages.size === 1) {
+    ecu = [...messages.keys()][0];
+  } else {
+    // Several ECUs answered; only the one the request is addressed to counts
+    const response = getResponseCanId(command);
+    const responseId = response?.id.toString(16).toUpperCase().padStart(response.extended ? 8 : 3, '0');
+    ecu = [...messages.keys()].find(id => id === responseId);
+    if (!ecu) {
+      const responders = [...messages.keys()].join(', ');
+      return {
+        error: responseId
+          ? `No response from ECU ${responseId} (responses from ${responders})`
+          : `Cannot tell which of the responding ECUs (${responders}) answers hdr ${command.hdr ?? '7E0'}; add rax`
+      };
+    }
+  }
+
+  const data = messages.get(ecu)!;
+  if (data[0] === 0x7F) {
+    const nrc = (data[2] ?? 0).toString(16).toUpperCase().padStart(2, '0');
+    return { error: `ECU ${ecu} returned a negative response (NRC 0x${nrc})` };
+  }
+
+  const echo = getResponseEcho(command.cmd);
+  for (let i = 0; i < echo.length; i++) {
+    if (data[i] !== echo[i]) {
+      const expected = echo.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join('');
+      const actual = data.slice(0, echo.length).map(b => b.toString(16).toUpperCase().padStart(2, '0')).join('');
+      return { error: `Response from ECU ${ecu} starts with ${actual}, expected ${expected}` };
+    }
+  }
+
+  return { payload: data.slice(echo.length), ecu };
+}
+
+/**
+ * Decodes every signal of a command from a response
+ * @param command The signalset command
+ * @param response The raw response, one CAN frame per line
+ * @param options How the response was captured
+ * @returns The decoded values keyed by signal ID
+ */
+export function decodeCommandResponse(
+  command: DecodableCommand,
+  response: string,
+  options: DecoderOptions = {}
+): DecodeResult {
+  const extracted = extractCommandPayload(command, response, options);
+  if ('error' in extracted) {
+    return { values: {}, payload: [], errors: [extracted.error] };
+  }
+
+  const result: DecodeResult = { values: {}, payload: extracted.payload, ecu: extracted.ecu, errors: [] };
+  for (const signal of command.signals || []) {
+    if (!signal.fmt || typeof signal.fmt.len !== 'number') {
+      result.errors.push(`Signal ${signal.id} has no fmt.len`);
+      continue;
+    }
+
+    const value = decodeSignalValue(signal.fmt, extracted.payload);
+    if (value === null) {
+      result.errors.push(`Signal ${signal.id} could not be decoded (${describeDecodeFailure(signal.fmt, extracted.payload)})`);
+    }
+    result.values[signal.id] = value;
+  }
+
+  return result;
+}
@@ -0,0 +1,51 @@
+/**
+ * VSCode-independent helpers for a signal's fmt formula
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+/**
+ * Calculate the minimum and maximum value ranges for a signal based on the formula
+ * @param signal The signal to calculate ranges for
+ * @returns An object containing min and max values or undefined if formula parameters are not available
+ */
+export function calculateFormulaRange(signal: any): { min: number, max: number } | undefined {
+  // Extract formula parameters (mul, div, add) from the signal's fmt property
+  if (!signal.fmt) {
+    return undefined;
+  }
+
+  const mul = signal.fmt.mul || 1;
+  const div = signal.fmt.div || 1;
+  const add = signal.fmt.add || 0;
+  const len = signal.fmt.len;
+  const isSigned = signal.fmt.sign === true;
+
+  // If no length specified, we can't calculate the range
+  if (typeof len !== 'number') {
+    return undefined;
+  }
+
+  // Calculate the min and max possible raw values based on bit length
+  let minRawValue: number;
+  let maxRawValue: number;
+
+  if (isSigned) {
+    // For signed values, min is -2^(len-1) and max is 2^(len-1)-1
+    minRawValue = -Math.pow(2, len - 1);
+    maxRawValue = Math.pow(2, len - 1) - 1;
+  } else {
+    // For unsigned values, min is 0 and max is 2^len-1
+    minRawValue = 0;
+    maxRawValue = Math.pow(2, len) - 1;
+  }
+
+  // Calculate the range using the formula: x = v * mul / div + add
+  const minPossibleValue = (minRawValue * mul / div) + add;
+  const maxPossibleValue = (maxRawValue * mul / div) + add;
+
+  // Return the range, rounded to 6 decimal places for display
+  return {
+    min: Number(minPossibleValue.toFixed(6)),
+    max: Number(maxPossibleValue.toFixed(6))
+  };
+}
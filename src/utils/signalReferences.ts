@@ -0,0 +1,295 @@
+/**
+ * VSCode-independent lookup of signal and command IDs in signalsets and test case files
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import * as YAML from 'yaml';
+import { generateNormalizedCommandId, normalizeCommandId } from './commandSupportUtils';
+
+/**
+ * A signal ID occurrence; the span covers the ID itself, without quotes
+ */
+export interface SignalIdSpan {
+  signalId: string;
+  offset: number;
+  length: number;
+}
+
+/**
+ * A command occurrence: a signalset command object, a test's command_id, or a command_support.yaml entry
+ */
+export interface CommandSpan {
+  commandId: string;
+  offset: number;
+  length: number;
+}
+
+/**
+ * A signal group from a signalset's signalGroups array
+ */
+export interface SignalGroupInfo {
+  id: string;
+  matchingRegex?: string;
+  /** Span of the group's ID */
+  span: SignalIdSpan;
+}
+
+/**
+ * Checks whether a path is a signalset under signalsets/v3
+ */
+export function isSignalsetPath(filePath: string): boolean {
+  return /signalsets[\\/]v3[\\/][^\\/]+\.json$/.test(filePath);
+}
+
+/**
+ * Checks whether a path is a test case file under tests/test_cases/<year>/commands
+ */
+export function isTestCasePath(filePath: string): boolean {
+  return /tests[\\/]test_cases[\\/]\d{4}[\\/]commands[\\/][^\\/]+\.ya?ml$/.test(filePath);
+}
+
+/**
+ * Checks whether a path is a command_support.yaml file under tests/test_cases/<year>
+ */
+export function isCommandSupportPath(filePath: string): boolean {
+  return /tests[\\/]test_cases[\\/]\d{4}[\\/]command_support\.ya?ml$/.test(filePath);
+}
+
+/**
+ * Reduces a command ID to its header and service/parameter, the parts test files and
+ * command_support.yaml entries are matched on (e.g. '7E0.7E8.221234' becomes '7E0.221234')
+ */
+export function getCommandMatchKey(commandId: string): string {
+  const parts = normalizeCommandId(commandId).split('.');
+  return `${parts[0]}.${parts[parts.length - 1]}`;
+}
+
+/**
+ * Gets the command ID a test case file is named after
+ */
+export function getTestFileCommandId(filePath: string): string {
+  return normalizeCommandId(path.basename(filePath).replace(/\.(yaml|yml)$/, ''));
+}
+
+/**
+ * Gets the span of a JSON string node's contents
+ */
+function stringNodeSpan(node: jsonc.Node): SignalIdSpan {
+  return { signalId: node.value, offset: node.offset + 1, length: node.length - 2 };
+}
+
+/**
+ * Finds the IDs of the signals defined by a signalset's commands
+ * @param text The signalset text
+ * @param signalId Only return occurrences of this ID
+ * @returns The spans of the signal IDs, in document order
+ */
+export function findSignalIdSpans(text: string, signalId?: string): SignalIdSpan[] {
+  const root = jsonc.parseTree(text);
+  const commands = root && jsonc.findNodeAtLocation(root, ['commands']);
+  const spans: SignalIdSpan[] = [];
+
+  for (const command of commands?.children || []) {
+    const signals = jsonc.findNodeAtLocation(command, ['signals']);
+    for (const signal of signals?.children || []) {
+      const idNode = jsonc.findNodeAtLocation(signal, ['id']);
+      if (idNode?.type === 'string' && (signalId === undefined || idNode.value === signalId)) {
+        spans.push(stringNodeSpan(idNode));
+      }
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Finds a signalset's signal groups
+ * @param text The signalset text
+ */
+export function findSignalGroups(text: string): SignalGroupInfo[] {
+  const root = jsonc.parseTree(text);
+  const signalGroups = root && jsonc.findNodeAtLocation(root, ['signalGroups']);
+  const groups: SignalGroupInfo[] = [];
+
+  for (const group of signalGroups?.children || []) {
+    const idNode = jsonc.findNodeAtLocation(group, ['id']);
+    if (idNode?.type !== 'string') {
+      continue;
+    }
+    const regexNode = jsonc.findNodeAtLocation(group, ['matchingRegex']);
+    groups.push({
+      id: idNode.value,
+      matchingRegex: regexNode?.type === 'string' ? regexNode.value : undefined,
+      span: stringNodeSpan(idNode)
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * Checks whether a signal group's matchingRegex matches a signal ID
+ * @returns False when the regex is missing or invalid
+ */
+export function signalGroupMatches(group: SignalGroupInfo, signalId: string): boolean {
+  if (!group.matchingRegex) {
+    return false;
+  }
+  try {
+    return new RegExp(group.matchingRegex).test(signalId);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds the expected_values keys of a test case file
+ * @param text The YAML text
+ * @param signalId Only return occurrences of this ID
+ * @returns The spans of the keys, in document order
+ */
+export function findExpectedValueSpans(text: string, signalId?: string): SignalIdSpan[] {
+  // Nothing to parse when the ID doesn't appear in the file at all
+  if (signalId !== undefined && !text.includes(signalId)) {
+    return [];
+  }
+
+  const yamlDoc = YAML.parseDocument(text);
+  const testCases = yamlDoc.get('test_cases');
+  const spans: SignalIdSpan[] = [];
+  if (!YAML.isSeq(testCases)) {
+    return spans;
+  }
+
+  for (const testCase of testCases.items) {
+    const expectedValues = YAML.isMap(testCase) ? testCase.get('expected_values') : undefined;
+    if (!YAML.isMap(expectedValues)) {
+      continue;
+    }
+    for (const pair of expectedValues.items) {
+      const key = pair.key;
+      if (!YAML.isScalar(key) || !key.range || (signalId !== undefined && String(key.value) !== signalId)) {
+        continue;
+      }
+      const quoted = key.type === YAML.Scalar.QUOTE_DOUBLE || key.type === YAML.Scalar.QUOTE_SINGLE;
+      spans.push({
+        signalId: String(key.value),
+        offset: key.range[0] + (quoted ? 1 : 0),
+        length: key.range[1] - key.range[0] - (quoted ? 2 : 0)
+      });
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Finds the signal ID at an offset in a signalset or test case file
+ * @param text The file's text
+ * @param offset The offset to look at
+ * @param isTestCase Whether the text is a test case YAML file rather than a signalset
+ * @returns The signal ID's span, or undefined if the offset is not on a signal ID
+ */
+export function getSignalIdAtOffset(text: string, offset: number, isTestCase: boolean): SignalIdSpan | undefined {
+  const spans = isTestCase ? findExpectedValueSpans(text) : findSignalIdSpans(text);
+  return spans.find(span => offset >= span.offset && offset <= span.offset + span.length);
+}
+
+/**
+ * Finds the commands of a signalset
+ * @param text The signalset text
+ * @param matchKey Only return commands with this match key (see getCommandMatchKey)
+ * @returns The spans of the command objects, in document order
+ */
+export function findCommandSpans(text: string, matchKey?: string): CommandSpan[] {
+  const root = jsonc.parseTree(text);
+  const commands = root && jsonc.findNodeAtLocation(root, ['commands']);
+  const spans: CommandSpan[] = [];
+
+  for (const command of commands?.children || []) {
+    const value = jsonc.getNodeValue(command);
+    if (!value?.hdr || !value?.cmd) {
+      continue;
+    }
+    const commandId = generateNormalizedCommandId(value);
+    if (matchKey === undefined || getCommandMatchKey(commandId) === matchKey) {
+      spans.push({ commandId, offset: command.offset, length: command.length });
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Finds the command_id of a test case file
+ * @param text The YAML text
+ * @returns The span of the command_id value, or undefined if the file has none
+ */
+export function findTestCommandIdSpan(text: string): CommandSpan | undefined {
+  const node = YAML.parseDocument(text).get('command_id', true);
+  if (!YAML.isScalar(node) || !node.range) {
+    return undefined;
+  }
+  return { commandId: String(node.value), offset: node.range[0], length: node.range[1] - node.range[0] };
+}
+
+/**
+ * Finds the entries of a command_support.yaml file
+ * @param text The YAML text
+ * @param matchKey Only return entries with this match key (see getCommandMatchKey)
+ * @returns The spans of the supported and unsupported command entries, in document order
+ */
+export function findCommandSupportSpans(text: string, matchKey?: string): CommandSpan[] {
+  const yamlDoc = YAML.parseDocument(text);
+  const spans: CommandSpan[] = [];
+
+  for (const section of ['supported_commands_by_ecu', 'unsupported_commands_by_ecu']) {
+    const byEcu = yamlDoc.get(section);
+    if (!YAML.isMap(byEcu)) {
+      continue;
+    }
+    for (const pair of byEcu.items) {
+      // ECU keys such as 7E8 read as numbers, so take the key from the source text
+      const ecu = YAML.isScalar(pair.key) && pair.key.range ? text.slice(pair.key.range[0], pair.key.range[1]).replace(/['"]/g, '') : '';
+      if (!YAML.isSeq(pair.value)) {
+        continue;
+      }
+      for (const item of pair.value.items) {
+        if (!YAML.isScalar(item) || !item.range) {
+          continue;
+        }
+        const commandId = String(item.value);
+        const matches = matchKey === undefined ||
+          getCommandMatchKey(commandId) === matchKey ||
+          (!commandId.includes('.') && getCommandMatchKey(`${ecu}.${commandId}`) === matchKey);
+        if (matches) {
+          spans.push({ commandId, offset: item.range[0], length: item.range[1] - item.range[0] });
+        }
+      }
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Finds the command at an offset in a signalset, test case, or command_support.yaml file
+ * @param text The file's text
+ * @param offset The offset to look at
+ * @param filePath The file's path, which determines how it is read
+ * @returns The command's span, or undefined if the offset is not on a command
+ */
+export function getCommandAtOffset(text: string, offset: number, filePath: string): CommandSpan | undefined {
+  let spans: CommandSpan[];
+  if (isTestCasePath(filePath)) {
+    const span = findTestCommandIdSpan(text);
+    spans = span ? [span] : [];
+  } else if (isCommandSupportPath(filePath)) {
+    spans = findCommandSupportSpans(text);
+  } else {
+    spans = findCommandSpans(text);
+  }
+  return spans.find(span => offset >= span.offset && offset <= span.offset + span.length);
+}
@@ -0,0 +1,371 @@
+/**
+ * VSCode-independent semantic diff between two versions of a signalset
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import { generateNormalizedCommandId } from './commandSupportUtils';
+import { calculateFormulaRange } from './signalFormula';
+
+/**
+ * A property of a command or signal whose value changed
+ */
+export interface PropertyChange {
+  property: 'fmt' | 'unit' | 'path' | 'filter' | 'dbgfilter';
+  /** The old value, or undefined when the property was added */
+  before: any;
+  /** The new value, or undefined when the property was removed */
+  after: any;
+  /** For fmt changes, the values the old and new formula can decode to */
+  rangeBefore?: { min: number, max: number };
+  rangeAfter?: { min: number, max: number };
+}
+
+/**
+ * How a signal differs between the two signalsets
+ */
+export interface SignalDiff {
+  kind: 'added' | 'removed' | 'renamed' | 'changed';
+  signalId: string;
+  /** The old ID of a renamed signal */
+  previousId?: string;
+  changes: PropertyChange[];
+}
+
+/**
+ * How a command differs between the two signalsets
+ */
+export interface CommandDiff {
+  kind: 'added' | 'removed' | 'changed';
+  commandId: string;
+  /** Changes to the command's own filter and dbgfilter */
+  changes: PropertyChange[];
+  signals: SignalDiff[];
+}
+
+/**
+ * Counts of a signalset diff
+ */
+export interface SignalsetDiffSummary {
+  commandsAdded: number;
+  commandsRemoved: number;
+  commandsChanged: number;
+  signalsAdded: number;
+  signalsRemoved: number;
+  signalsRenamed: number;
+  signalsChanged: number;
+}
+
+/**
+ * The semantic differences between two signalsets, by command ID and signal ID
+ */
+export interface SignalsetDiff {
+  summary: SignalsetDiffSummary;
+  /** Commands that differ: those of the new signalset in its order, then the removed ones */
+  commands: CommandDiff[];
+}
+
+const COMMAND_SUMMARY_KEYS: Record<CommandDiff['kind'], keyof SignalsetDiffSummary> = {
+  added: 'commandsAdded',
+  removed: 'commandsRemoved',
+  changed: 'commandsChanged'
+};
+
+const SIGNAL_SUMMARY_KEYS: Record<SignalDiff['kind'], keyof SignalsetDiffSummary> = {
+  added: 'signalsAdded',
+  removed: 'signalsRemoved',
+  renamed: 'signalsRenamed',
+  changed: 'signalsChanged'
+};
+
+/**
+ * Serializes a value with sorted object keys, so that equal values compare equal regardless of key order
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Gets a signal's formula: its fmt without the unit, which is compared on its own
+ */
+function formulaOf(signal: any): any {
+  if (!signal?.fmt || typeof signal.fmt !== 'object') {
+    return undefined;
+  }
+  const { unit, ...formula } = signal.fmt;
+  return formula;
+}
+
+/**
+ * Indexes a list by key, keeping the first entry of each key in list order
+ */
+function indexBy<T>(items: T[], keyOf: (item: T) => string | undefined): Map<string, T> {
+  const index = new Map<string, T>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (key !== undefined && !index.has(key)) {
+      index.set(key, item);
+    }
+  }
+  return index;
+}
+
+/**
+ * Compares a property of two versions of an object
+ */
+function compareProperty(
+  property: PropertyChange['property'],
+  before: any,
+  after: any,
+  changes: PropertyChange[]
+): void {
+  if (stableStringify(before) !== stableStringify(after)) {
+    changes.push({ property, before, after });
+  }
+}
+
+/**
+ * Compares the formula, unit, path and filter of two versions of a signal
+ */
+function compareSignals(before: any, after: any): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  const formulaBefore = formulaOf(before);
+  const formulaAfter = formulaOf(after);
+  if (stableStringify(formulaBefore) !== stableStringify(formulaAfter)) {
+    changes.push({
+      property: 'fmt',
+      before: formulaBefore,
+      after: formulaAfter,
+      rangeBefore: calculateFormulaRange(before),
+      rangeAfter: calculateFormulaRange(after)
+    });
+  }
+  compareProperty('unit', before?.fmt?.unit, after?.fmt?.unit, changes);
+  compareProperty('path', before?.path, after?.path, changes);
+  compareProperty('filter', before?.filter, after?.filter, changes);
+  return changes;
+}
+
+/**
+ * Compares the signals of two versions of a command. A removed signal and an added signal with
+ * the same fmt are reported as a rename.
+ */
+function diffCommandSignals(before: any[], after: any[]): SignalDiff[] {
+  const signalId = (signal: any) => typeof signal?.id === 'string' ? signal.id : undefined;
+  const oldSignals = indexBy(before, signalId);
+  const newSignals = indexBy(after, signalId);
+
+  const removed = [...oldSignals.keys()].filter(id => !newSignals.has(id));
+  const added = [...newSignals.keys()].filter(id => !oldSignals.has(id));
+  const renames = new Map<string, string>();
+  for (const oldId of removed) {
+    const fmt = stableStringify(oldSignals.get(oldId)?.fmt);
+    const newId = added.find(id => ![...renames.values()].includes(id) && stableStringify(newSignals.get(id)?.fmt) === fmt);
+    if (newId !== undefined) {
+      renames.set(oldId, newId);
+    }
+  }
+  const renamedTo = new Map([...renames].map(([oldId, newId]) => [newId, oldId]));
+
+  const signals: SignalDiff[] = [];
+  for (const [id, signal] of newSignals) {
+    const previousId = renamedTo.get(id);
+    if (previousId !== undefined) {
+      signals.push({ kind: 'renamed', signalId: id, previousId, changes: compareSignals(oldSignals.get(previousId), signal) });
+    } else if (!oldSignals.has(id)) {
+      signals.push({ kind: 'added', signalId: id, changes: [] });
+    } else {
+      const changes = compareSignals(oldSignals.get(id), signal);
+      if (changes.length > 0) {
+        signals.push({ kind: 'changed', signalId: id, changes });
+      }
+    }
+  }
+  for (const id of removed.filter(oldId => !renames.has(oldId))) {
+    signals.push({ kind: 'removed', signalId: id, changes: [] });
+  }
+  return signals;
+}
+
+/**
+ * Compares two signalsets by command ID and signal ID
+ * @param before The old signalset, as parsed
+ * @param after The new signalset, as parsed
+ * @returns The commands that differ and the totals
+ */
+export function diffSignalsets(before: any, after: any): SignalsetDiff {
+  const commandsOf = (signalset: any): any[] => Array.isArray(signalset?.commands)
+    ? signalset.commands.filter((command: any) => command?.hdr && command?.cmd)
+    : [];
+  const signalsOf = (command: any): any[] => Array.isArray(command?.signals) ? command.signals : [];
+  const oldCommands = indexBy(commandsOf(before), generateNormalizedCommandId);
+  const newCommands = indexBy(commandsOf(after), generateNormalizedCommandId);
+
+  const commands: CommandDiff[] = [];
+  for (const [commandId, command] of newCommands) {
+    const previous = oldCommands.get(commandId);
+    if (!previous) {
+      commands.push({ kind: 'added', commandId, changes: [], signals: diffCommandSignals([], signalsOf(command)) });
+      continue;
+    }
+
+    const changes: PropertyChange[] = [];
+    compareProperty('filter', previous.filter, command.filter, changes);
+    compareProperty('dbgfilter', previous.dbgfilter, command.dbgfilter, changes);
+    const signals = diffCommandSignals(signalsOf(previous), signalsOf(command));
+    if (changes.length > 0 || signals.length > 0) {
+      commands.push({ kind: 'changed', commandId, changes, signals });
+    }
+  }
+  for (const [commandId, command] of oldCommands) {
+    if (!newCommands.has(commandId)) {
+      commands.push({ kind: 'removed', commandId, changes: [], signals: diffCommandSignals(signalsOf(command), []) });
+    }
+  }
+
+  const summary: SignalsetDiffSummary = {
+    commandsAdded: 0, commandsRemoved: 0, commandsChanged: 0,
+    signalsAdded: 0, signalsRemoved: 0, signalsRenamed: 0, signalsChanged: 0
+  };
+  for (const command of commands) {
+    summary[COMMAND_SUMMARY_KEYS[command.kind]]++;
+    for (const signal of command.signals) {
+      summary[SIGNAL_SUMMARY_KEYS[signal.kind]]++;
+    }
+  }
+
+  return { summary, commands };
+}
+
+/**
+ * Describes the totals of a diff, e.g. "1 command added, 2 changed; 3 signals added, 1 renamed"
+ */
+export function describeDiffSummary(summary: SignalsetDiffSummary): string {
+  const describe = (noun: string, counts: [number, string][]) => counts
+    .filter(([count]) => count > 0)
+    .map(([count, verb], index) => index === 0 ? `${count} ${noun}${count === 1 ? '' : 's'} ${verb}` : `${count} ${verb}`)
+    .join(', ');
+
+  const text = [
+    describe('command', [[summary.commandsAdded, 'added'], [summary.commandsRemoved, 'removed'], [summary.commandsChanged, 'changed']]),
+    describe('signal', [[summary.signalsAdded, 'added'], [summary.signalsRemoved, 'removed'], [summary.signalsRenamed, 'renamed'], [summary.signalsChanged, 'changed']])
+  ].filter(part => part).join('; ');
+  return text || 'No semantic changes';
+}
+
+/**
+ * Formats a property value for a report
+ */
+function formatValue(value: any): string {
+  if (value === undefined) {
+    return 'none';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Describes a property change, using `code` to quote values
+ */
+function describeChange(change: PropertyChange, code: (text: string) => string): string {
+  const text = `${change.property} ${code(formatValue(change.before))} → ${code(formatValue(change.after))}`;
+  if (change.property !== 'fmt' || (!change.rangeBefore && !change.rangeAfter)) {
+    return text;
+  }
+  const range = (value?: { min: number, max: number }) => value ? `${value.min}..${value.max}` : 'unknown';
+  return `${text} (decodes ${range(change.rangeBefore)} → ${range(change.rangeAfter)})`;
+}
+
+/**
+ * Formats a diff as plain text for the terminal
+ * @param diff The diff
+ * @returns The report, one line per command, signal and change
+ */
+export function formatDiffText(diff: SignalsetDiff): string {
+  const lines: string[] = [];
+  const plain = (text: string) => text;
+
+  for (const command of diff.commands) {
+    if (command.kind !== 'changed') {
+      const signalCount = command.signals.length;
+      lines.push(`${command.kind === 'added' ? '+' : '-'} ${command.commandId} (${signalCount} signal${signalCount === 1 ? '' : 's'})`);
+      continue;
+    }
+
+    lines.push(`~ ${command.commandId}`);
+    for (const change of command.changes) {
+      lines.push(`    ${describeChange(change, plain)}`);
+    }
+    for (const signal of command.signals) {
+      switch (signal.kind) {
+        case 'added':
+          lines.push(`    + ${signal.signalId}`);
+          break;
+        case 'removed':
+          lines.push(`    - ${signal.signalId}`);
+          break;
+        case 'renamed':
+          lines.push(`    > ${signal.previousId} → ${signal.signalId}`);
+          break;
+      }
+      for (const change of signal.changes) {
+        lines.push(`    ~ ${signal.signalId} ${describeChange(change, plain)}`);
+      }
+    }
+  }
+
+  lines.push('', describeDiffSummary(diff.summary));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats a diff as Markdown, e.g. for a pull request comment
+ * @param diff The diff
+ * @param title The heading of the report
+ */
+export function formatDiffMarkdown(diff: SignalsetDiff, title: string = 'Signalset changes'): string {
+  const code = (text: string) => `\`${text.replace(/`/g, '\'')}\``;
+  const lines: string[] = [`### ${title}`, '', describeDiffSummary(diff.summary)];
+
+  for (const command of diff.commands) {
+    lines.push('', `#### ${code(command.commandId)} (${command.kind})`, '');
+    if (command.kind !== 'changed') {
+      const ids = command.signals.map(signal => code(signal.signalId)).join(', ');
+      lines.push(ids ? `Signals: ${ids}` : 'No signals');
+      continue;
+    }
+
+    for (const change of command.changes) {
+      lines.push(`- Command ${describeChange(change, code)}`);
+    }
+    for (const signal of command.signals) {
+      switch (signal.kind) {
+        case 'added':
+          lines.push(`- Added ${code(signal.signalId)}`);
+          break;
+        case 'removed':
+          lines.push(`- Removed ${code(signal.signalId)}`);
+          break;
+        case 'renamed':
+          lines.push(`- Renamed ${code(signal.previousId!)} to ${code(signal.signalId)}`);
+          break;
+      }
+      for (const change of signal.changes) {
+        lines.push(`- ${code(signal.signalId)}: ${describeChange(change, code)}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats a diff as JSON
+ */
+export function formatDiffJson(diff: SignalsetDiff): string {
+  return JSON.stringify(diff, null, 2) + '\n';
+}
@@ -0,0 +1,273 @@
+/**
+ * VSCode-independent canonical layout for OBDb signalsets
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as jsonc from 'jsonc-parser';
+
+/**
+ * Options for formatting a signalset
+ */
+export interface SignalsetFormatOptions {
+  /** Sort commands by header, then command bytes, then receive address */
+  sortCommands?: boolean;
+}
+
+const ROOT_KEY_ORDER = ['commands', 'signalGroups'];
+const COMMAND_KEY_ORDER = ['hdr', 'rax', 'eax', 'tst', 'cmd', 'fcm1', 'proto', 'tmo', 'pri', 'freq', 'dbg', 'filter', 'dbgfilter', 'signals'];
+const SIGNAL_KEY_ORDER = ['id', 'path', 'fmt', 'name', 'description', 'suggestedMetric'];
+const SIGNAL_GROUP_KEY_ORDER = ['id', 'path', 'matchingRegex', 'name', 'description', 'suggestedMetricGroup'];
+const FMT_KEY_ORDER = ['bix', 'len', 'sign', 'mul', 'div', 'add', 'min', 'max', 'nullmin', 'nullmax', 'unit', 'map'];
+const FILTER_KEY_ORDER = ['to', 'years', 'from'];
+
+/** Key order of objects nested inside a command, signal or signal group, by the property that holds them */
+const NESTED_KEY_ORDERS: { [key: string]: string[] } = {
+  fmt: FMT_KEY_ORDER,
+  filter: FILTER_KEY_ORDER,
+  dbgfilter: FILTER_KEY_ORDER
+};
+
+/** Key order of the items of each top-level array */
+const ITEM_KEY_ORDERS: { [key: string]: string[] } = {
+  commands: COMMAND_KEY_ORDER,
+  signalGroups: SIGNAL_GROUP_KEY_ORDER
+};
+
+/**
+ * An array item laid out on one or more lines, with the comments that precede it
+ */
+interface FormattedItem {
+  leading: string[];
+  lines: string[];
+  /** The item's node, for sorting */
+  node: jsonc.Node;
+}
+
+/**
+ * Hands out a document's comments in order, so each is written exactly once
+ */
+class CommentQueue {
+  private index = 0;
+
+  constructor(private readonly comments: string[], private readonly offsets: number[]) {}
+
+  /**
+   * Takes every remaining comment that starts before an offset
+   */
+  takeBefore(offset: number): string[] {
+    const taken: string[] = [];
+    while (this.index < this.comments.length && this.offsets[this.index] < offset) {
+      taken.push(this.comments[this.index++]);
+    }
+    return taken;
+  }
+}
+
+/**
+ * Gets an object's properties, known keys first in the given order and the rest alphabetically
+ * @param keyOrder The known keys; without one, properties keep their document order
+ */
+function orderProperties(node: jsonc.Node, keyOrder?: string[]): jsonc.Node[] {
+  const properties = (node.children || []).filter(property => property.children?.length === 2);
+  if (!keyOrder) {
+    return properties;
+  }
+
+  const rank = (property: jsonc.Node) => {
+    const index = keyOrder.indexOf(property.children![0].value);
+    return index === -1 ? keyOrder.length : index;
+  };
+  return [...properties].sort((a, b) => rank(a) - rank(b) ||
+    (rank(a) === keyOrder.length ? String(a.children![0].value).localeCompare(String(b.children![0].value)) : 0));
+}
+
+/**
+ * Formats a value on one line with a space after each colon and comma, keeping numbers and strings exactly as written
+ */
+function formatInline(text: string, node: jsonc.Node, keyOrder?: string[]): string {
+  if (node.type === 'object') {
+    const properties = orderProperties(node, keyOrder).map(property => formatProperty(text, property));
+    return `{${properties.join(', ')}}`;
+  }
+  if (node.type === 'array') {
+    return `[${(node.children || []).map(child => formatInline(text, child)).join(', ')}]`;
+  }
+  return text.substr(node.offset, node.length);
+}
+
+/**
+ * Formats a property on one line
+ */
+function formatProperty(text: string, property: jsonc.Node): string {
+  const [keyNode, valueNode] = property.children!;
+  return `${text.substr(keyNode.offset, keyNode.length)}: ${formatInline(text, valueNode, NESTED_KEY_ORDERS[keyNode.value])}`;
+}
+
+/**
+ * Writes array items one per group of lines, separated by commas, followed by the array's trailing comments
+ */
+function joinItems(items: FormattedItem[], trailing: string[], indent: string): string[] {
+  const lines: string[] = [];
+  items.forEach((item, index) => {
+    lines.push(...item.leading.map(comment => `${indent}${comment}`));
+    const itemLines = [...item.lines];
+    if (index < items.length - 1) {
+      itemLines[itemLines.length - 1] += ',';
+    }
+    lines.push(...itemLines);
+  });
+  lines.push(...trailing.map(comment => `${indent}${comment}`));
+  return lines;
+}
+
+/**
+ * Lays out a command: its header fields on one line, then one signal per line
+ */
+function formatCommand(text: string, node: jsonc.Node, comments: CommentQueue): FormattedItem {
+  const end = node.offset + node.length;
+  if (node.type !== 'object') {
+    return { leading: comments.takeBefore(end), lines: [`    ${formatInline(text, node)}`], node };
+  }
+
+  const properties = orderProperties(node, COMMAND_KEY_ORDER);
+  const signalsProperty = properties.find(property =>
+    property.children![0].value === 'signals' && property.children![1].type === 'array' && property.children![1].children!.length > 0);
+  if (!signalsProperty) {
+    return { leading: comments.takeBefore(end), lines: [`    ${formatInline(text, node, COMMAND_KEY_ORDER)}`], node };
+  }
+
+  const leading = comments.takeBefore(signalsProperty.offset);
+  const signals = signalsProperty.children![1].children!.map(signal => ({
+    leading: comments.takeBefore(signal.offset + signal.length),
+    lines: [`        ${formatInline(text, signal, SIGNAL_KEY_ORDER)}`],
+    node: signal
+  }));
+  const trailing = comments.takeBefore(end);
+
+  const header = properties
+    .filter(property => property !== signalsProperty)
+    .map(property => `${formatProperty(text, property)}, `)
+    .join('');
+
+  return {
+    leading,
+    lines: [
+      `    {${header.trimEnd()}`,
+      '      "signals": [',
+      ...joinItems(signals, trailing, '        '),
+      '      ]}'
+    ],
+    node
+  };
+}
+
+/**
+ * Compares commands by header, then command bytes, then receive address
+ */
+function compareCommands(a: jsonc.Node, b: jsonc.Node): number {
+  const key = (node: jsonc.Node) => {
+    const command = jsonc.getNodeValue(node) || {};
+    const cmd = command.cmd && typeof command.cmd === 'object'
+      ? Object.entries(command.cmd).map(([service, parameter]) => `${service}${parameter}`).join('')
+      : String(command.cmd ?? '');
+    return { hdr: String(command.hdr ?? ''), cmd: cmd.toUpperCase(), rax: String(command.rax ?? '') };
+  };
+  const keyA = key(a);
+  const keyB = key(b);
+
+  // Compare headers as numbers so that 29-bit headers sort after 11-bit ones
+  const hdrA = parseInt(keyA.hdr, 16);
+  const hdrB = parseInt(keyB.hdr, 16);
+  const byHeader = !isNaN(hdrA) && !isNaN(hdrB) ? hdrA - hdrB : keyA.hdr.localeCompare(keyB.hdr);
+
+  return byHeader || keyA.cmd.localeCompare(keyB.cmd) || keyA.rax.localeCompare(keyB.rax);
+}
+
+/**
+ * Rewrites a signalset in the canonical layout: one line of header fields per command, one line
+ * per signal and signal group, compact fmt objects, and a stable key order. Comments are kept
+ * with the command or signal they precede.
+ * @param text The signalset text
+ * @param options Formatting options
+ * @returns The formatted text, or undefined if the text is not a valid signalset
+ */
+export function formatSignalset(text: string, options: SignalsetFormatOptions = {}): string | undefined {
+  const errors: jsonc.ParseError[] = [];
+  const root = jsonc.parseTree(text, errors, { allowTrailingComma: true });
+  if (!root || root.type !== 'object' || errors.length > 0) {
+    return undefined;
+  }
+
+  const commentTexts: string[] = [];
+  const commentOffsets: number[] = [];
+  jsonc.visit(text, {
+    onComment: (offset, length) => {
+      commentTexts.push(text.substr(offset, length));
+      commentOffsets.push(offset);
+    }
+  });
+  const comments = new CommentQueue(commentTexts, commentOffsets);
+
+  const leading = comments.takeBefore(root.offset + 1);
+  const blocks: FormattedItem[] = orderProperties(root, ROOT_KEY_ORDER).map(property => {
+    const [keyNode, valueNode] = property.children!;
+    const key = text.substr(keyNode.offset, keyNode.length);
+    const propertyLeading = comments.takeBefore(valueNode.offset);
+
+    if (valueNode.type !== 'array' || !valueNode.children?.length) {
+      return { leading: [...propertyLeading, ...comments.takeBefore(property.offset + property.length)], lines: [formatProperty(text, property)], node: property };
+    }
+
+    let items: FormattedItem[] = valueNode.children.map(item => keyNode.value === 'commands'
+      ? formatCommand(text, item, comments)
+      : { leading: comments.takeBefore(item.offset + item.length), lines: [`    ${formatInline(text, item, ITEM_KEY_ORDERS[keyNode.value])}`], node: item });
+    if (keyNode.value === 'commands' && options.sortCommands) {
+      items = [...items].sort((a, b) => compareCommands(a.node, b.node));
+    }
+    const trailing = comments.takeBefore(property.offset + property.length);
+
+    return { leading: propertyLeading, lines: [`${key}: [`, ...joinItems(items, trailing, '    '), '  ]'], node: property };
+  });
+
+  const lines = [...leading];
+  blocks.forEach((block, index) => {
+    const blockLines = [...block.lines];
+    if (index === 0) {
+      // The first property shares the line of the opening brace
+      lines.push(...block.leading);
+      lines.push(`{ ${blockLines.shift()}`);
+    } else {
+      lines[lines.length - 1] += ',';
+      lines.push(...block.leading.map(comment => `  ${comment}`));
+      lines.push(`  ${blockLines.shift()}`);
+    }
+    lines.push(...blockLines);
+  });
+  lines.push(blocks.length > 0 ? '}' : '{}');
+  lines.push(...comments.takeBefore(Infinity));
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * A change to one value of a signalset; an undefined value removes the property or array item
+ */
+export interface SignalsetEdit {
+  path: jsonc.JSONPath;
+  value: any;
+}
+
+/**
+ * Applies edits to a signalset and lays out the result in the canonical layout, so tools that
+ * change a signalset leave it exactly as `obdb format` would
+ * @param text The signalset text
+ * @param edits The edits, applied in order; paths refer to the document after the previous edits
+ * @returns The edited and formatted text
+ */
+export function editSignalset(text: string, edits: SignalsetEdit[]): string {
+  let result = text;
+  for (const edit of edits) {
+    result = jsonc.applyEdits(result, jsonc.modify(result, edit.path, edit.value, {}));
+  }
+  return formatSignalset(result) ?? result;
+}
@@ -0,0 +1,255 @@
+/**
+ * VSCode-independent runner for the YAML test cases under tests/test_cases
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { decodeCommandResponse, DecodedValue } from './signalDecoder';
+import { generateNormalizedCommandId, normalizeCommandId, stripReceiveFilter } from './commandSupportUtils';
+import { resolveEffectiveSignalset } from './effectiveSignalset';
+
+/**
+ * A signal whose decoded value does not match its expected value
+ */
+export interface SignalMismatch {
+  signalId: string;
+  expected: any;
+  actual: DecodedValue | undefined;
+  message: string;
+  /** Zero-based line of the signal's key in expected_values */
+  line: number;
+  /** Zero-based column of the signal's key in expected_values */
+  column: number;
+}
+
+/**
+ * Result of running a single test_cases[] entry
+ */
+export interface TestCaseResult {
+  index: number;
+  /** Zero-based line where the test case starts */
+  line: number;
+  passed: boolean;
+  mismatches: SignalMismatch[];
+  /** Failures that are not tied to a single signal, e.g. an unparseable response */
+  errors: string[];
+  durationMs: number;
+}
+
+/**
+ * Result of running every test case in a commands/*.yaml file
+ */
+export interface TestFileResult {
+  filePath: string;
+  modelYear: string;
+  commandId: string;
+  cases: TestCaseResult[];
+  /** Set when the file itself could not be run */
+  error?: string;
+}
+
+/**
+ * Loads the commands that apply to a model year: default.json merged with the
+ * year-range signalsets (e.g. 2015-2018.json) covering the year, leaving out
+ * commands and signals whose filter excludes the year
+ * @param workspacePath The workspace folder path
+ * @param modelYear The model year, or undefined to only load default.json
+ * @returns The applicable commands
+ */
+export function loadSignalsetCommands(workspacePath: string, modelYear?: number): any[] {
+  return resolveEffectiveSignalset(workspacePath, modelYear).commands.map(({ command }) => command);
+}
+
+/**
+ * Finds the signalset command a test file's command_id refers to
+ * @param commands The candidate commands
+ * @param commandId The command ID from the test file (e.g. '7E0.221100' or '7E0.7E8.221100')
+ * @returns The matching command, or undefined if none matches
+ */
+export function findCommandForTest(commands: any[], commandId: string): any | undefined {
+  const normalizedId = normalizeCommandId(commandId);
+  const exactMatch = commands.find(command => generateNormalizedCommandId(command) === normalizedId);
+  if (exactMatch) {
+    return exactMatch;
+  }
+
+  // Test files frequently omit the receive address
+  const strippedId = stripReceiveFilter(normalizedId);
+  return commands.find(command => stripReceiveFilter(generateNormalizedCommandId(command)) === strippedId);
+}
+
+/**
+ * Compares an expected value from a test case with a decoded value
+ * @param expected The value from expected_values
+ * @param actual The decoded value
+ * @returns True if the values are considered equal
+ */
+export function valuesMatch(expected: any, actual: DecodedValue | undefined): boolean {
+  if (actual === undefined) {
+    return false;
+  }
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return Math.abs(expected - actual) <= 1e-6 * Math.max(1, Math.abs(expected));
+  }
+  if (typeof expected === 'boolean' && typeof actual === 'number') {
+    return (expected ? 1 : 0) === actual;
+  }
+  return expected === actual;
+}
+
+/**
+ * Gets the model year a test file belongs to from its path
+ * @param filePath Path like tests/test_cases/{model_year}/commands/{command}.yaml
+ * @returns The model year, or undefined if the path does not contain one
+ */
+export function getModelYearFromTestPath(filePath: string): string | undefined {
+  const match = filePath.replace(/\\/g, '/').match(/test_cases\/(\d{4})\/commands\/[^\/]+\.ya?ml$/i);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Runs the test cases of a commands/*.yaml file against a set of commands
+ * @param filePath Path of the test file, used for reporting
+ * @param content The YAML content of the test file
+ * @param commands The signalset commands that apply to the file's model year
+ * @returns The result for every test case in the file
+ */
+export function runTestFileContent(filePath: string, content: string, commands: any[]): TestFileResult {
+  const lineCounter = new YAML.LineCounter();
+  const yamlDoc = YAML.parseDocument(content, { lineCounter });
+  const yamlContent = yamlDoc.toJSON();
+  const modelYear = getModelYearFromTestPath(filePath) || 'unknown';
+  const commandId = yamlContent?.command_id || path.basename(filePath, path.extname(filePath));
+
+  const result: TestFileResult = { filePath, modelYear, commandId, cases: [] };
+
+  if (yamlDoc.errors.length > 0) {
+    result.error = `Invalid YAML: ${yamlDoc.errors[0].message}`;
+    return result;
+  }
+  if (!yamlContent || !Array.isArray(yamlContent.test_cases)) {
+    result.error = 'File does not contain a test_cases list';
+    return result;
+  }
+
+  const command = findCommandForTest(commands, commandId);
+  const testCaseNodes = yamlDoc.get('test_cases') as YAML.YAMLSeq;
+
+  // Converts a node's start offset to a zero-based line/column
+  const positionOf = (node: any): { line: number; column: number } => {
+    const offset = node?.range ? node.range[0] : 0;
+    const pos = lineCounter.linePos(offset);
+    return { line: pos.line - 1, column: pos.col - 1 };
+  };
+
+  yamlContent.test_cases.forEach((testCase: any, index: number) => {
+    const startTime = Date.now();
+    const caseNode = testCaseNodes.items[index] as YAML.YAMLMap;
+    const caseResult: TestCaseResult = {
+      index,
+      line: positionOf(caseNode).line,
+      passed: false,
+      mismatches: [],
+      errors: [],
+      durationMs: 0
+    };
+
+    // Unquoted responses such as 7E8056211005078 parse as numbers, so fall back to the source text
+    const responseNode = caseNode?.get('response', true) as YAML.Scalar | undefined;
+    let response = testCase?.response;
+    if (responseNode?.range && typeof response !== 'string') {
+      response = content.slice(responseNode.range[0], responseNode.range[1]);
+    }
+
+    if (!command) {
+      caseResult.errors.push(`Command ${commandId} is not defined in the signalset${modelYear !== 'unknown' ? ` for ${modelYear}` : ''}`);
+    } else if (typeof response !== 'string' || response.trim() === '') {
+      caseResult.errors.push('Test case has no response');
+    } else {
+      // A test case may override the file's CAN ID format and addressing
+      const decoded = decodeCommandResponse(command, response, {
+        canIdFormat: testCase.can_id_format ?? yamlContent.can_id_format,
+        extendedAddressing: (testCase.extended_addressing_enabled ?? yamlContent.extended_addressing_enabled) === true
+      });
+
+      const expectedValues = testCase.expected_values || {};
+      const expectedNode = caseNode?.get('expected_values') as YAML.YAMLMap | undefined;
+
+      if (Object.keys(decoded.values).length === 0 && decoded.errors.length > 0) {
+        caseResult.errors.push(...decoded.errors);
+      } else {
+        for (const [signalId, expected] of Object.entries(expectedValues)) {
+          const actual = decoded.values[signalId];
+          if (valuesMatch(expected, actual)) {
+            continue;
+          }
+
+          const pair = expectedNode?.items.find(item => YAML.isScalar(item.key) && item.key.value === signalId);
+          const position = positionOf(pair?.key);
+          const message = actual === undefined
+            ? `Signal ${signalId} is not defined by command ${commandId}`
+            : `Signal ${signalId}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`;
+
+          caseResult.mismatches.push({ signalId, expected, actual, message, ...position });
+        }
+      }
+    }
+
+    caseResult.passed = caseResult.errors.length === 0 && caseResult.mismatches.length === 0;
+    caseResult.durationMs = Date.now() - startTime;
+    result.cases.push(caseResult);
+  });
+
+  return result;
+}
+
+/**
+ * Runs the test cases of a commands/*.yaml file
+ * @param filePath Path of the test file
+ * @param workspacePath The workspace folder path
+ * @returns The result for every test case in the file
+ */
+export function runTestFile(filePath: string, workspacePath: string): TestFileResult {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    const modelYear = getModelYearFromTestPath(filePath) || 'unknown';
+    const commandId = path.basename(filePath, path.extname(filePath));
+    return { filePath, modelYear, commandId, cases: [], error: `Could not read file: ${error}` };
+  }
+
+  const modelYear = getModelYearFromTestPath(filePath);
+  const commands = loadSignalsetCommands(workspacePath, modelYear ? parseInt(modelYear, 10) : undefined);
+  return runTestFileContent(filePath, content, commands);
+}
+
+/**
+ * Finds every command test file in a workspace
+ * @param workspacePath The workspace folder path
+ * @returns Paths of tests/test_cases/{model_year}/commands/*.yaml files, sorted
+ */
+export function findTestFiles(workspacePath: string): string[] {
+  const testCasesPath = path.join(workspacePath, 'tests', 'test_cases');
+  const files: string[] = [];
+
+  if (!fs.existsSync(testCasesPath)) {
+    return files;
+  }
+
+  for (const year of fs.readdirSync(testCasesPath).sort()) {
+    const commandsDir = path.join(testCasesPath, year, 'commands');
+    if (!/^\d{4}$/.test(year) || !fs.existsSync(commandsDir)) {
+      continue;
+    }
+    for (const file of fs.readdirSync(commandsDir).sort()) {
+      if (/\.ya?ml$/i.test(file)) {
+        files.push(path.join(commandsDir, file));
+      }
+    }
+  }
+
+  return files;
+}
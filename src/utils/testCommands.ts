@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as YAML from 'yaml';
 import * as fs from 'fs';
 import * as cp from 'child_process';
+import { getWorkspaceRoot } from './workspaceFolders';
 
 /**
  * Test case data interface
@@ -189,13 +190,13 @@ async function findPythonExecutable(): Promise<string> {
  * @returns Promise that resolves to an object with success status and error details
  */
 async function runPythonTests(uri: vscode.Uri, debug: boolean = false): Promise<{success: boolean, errorMessage?: string, errorLocation?: { file: string; line: number }}> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-        throw new Error("No workspace folders found");
+    // Run the test with the schemas of the vehicle repository the file belongs to
+    const workspacePath = getWorkspaceRoot(uri);
+    if (!workspacePath) {
+        throw new Error("Test file is not part of a workspace folder");
     }
 
     const testFilePath = uri.fsPath;
-    const workspacePath = workspaceFolders[0].uri.fsPath;
 
     // Find the path to the schemas/python directory
     // This should be in tests/schemas/python in the actual repo (not example)
@@ -303,13 +304,13 @@ async function runPythonTests(uri: vscode.Uri, debug: boolean = false): Promise<
  * @returns Promise that resolves to an object with success status and error details
  */
 async function debugPythonTests(uri: vscode.Uri): Promise<{success: boolean, errorMessage?: string}> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-        throw new Error("No workspace folders found");
+    // Run the test with the schemas of the vehicle repository the file belongs to
+    const workspacePath = getWorkspaceRoot(uri);
+    if (!workspacePath) {
+        throw new Error("Test file is not part of a workspace folder");
     }
 
     const testFilePath = uri.fsPath;
-    const workspacePath = workspaceFolders[0].uri.fsPath;
 
     // Find the path to the schemas/python directory
     const schemaPythonPath = await findSchemaPythonPath(workspacePath);
@@ -0,0 +1,150 @@
+/**
+ * VSCode-independent reporters for test case runs
+ * Can be used by both the VSCode extension and CLI tools
+ */
+
+import { TestCaseResult, TestFileResult } from './testCaseRunner';
+
+/**
+ * Totals across a set of test file results
+ */
+export interface TestRunSummary {
+  files: number;
+  tests: number;
+  passed: number;
+  failed: number;
+  /** Files that could not be run at all */
+  errors: number;
+  durationMs: number;
+}
+
+/**
+ * Summarizes a set of test file results
+ * @param results The test file results
+ * @returns The totals
+ */
+export function summarizeTestResults(results: TestFileResult[]): TestRunSummary {
+  const summary: TestRunSummary = { files: results.length, tests: 0, passed: 0, failed: 0, errors: 0, durationMs: 0 };
+
+  for (const result of results) {
+    if (result.error) {
+      summary.errors++;
+    }
+    for (const testCase of result.cases) {
+      summary.tests++;
+      summary.durationMs += testCase.durationMs;
+      if (testCase.passed) {
+        summary.passed++;
+      } else {
+        summary.failed++;
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Escapes text for use in XML attributes and content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Describes every failure of a test case, one per line
+ */
+function describeFailures(testCase: TestCaseResult, filePath: string): string[] {
+  return [
+    ...testCase.errors.map(error => `${filePath}:${testCase.line + 1}: ${error}`),
+    ...testCase.mismatches.map(mismatch => `${filePath}:${mismatch.line + 1}: ${mismatch.message}`)
+  ];
+}
+
+/**
+ * Formats test results as a JUnit XML report, with one test suite per test file
+ * @param results The test file results
+ * @returns The XML report
+ */
+export function formatJUnitReport(results: TestFileResult[]): string {
+  const summary = summarizeTestResults(results);
+  const lines: string[] = [];
+
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<testsuites name="obdb" tests="${summary.tests + summary.errors}" failures="${summary.failed}" errors="${summary.errors}" time="${(summary.durationMs / 1000).toFixed(3)}">`);
+
+  for (const result of results) {
+    const suiteName = `${result.modelYear}/${result.commandId}`;
+    const className = `${result.modelYear}.${result.commandId}`;
+    const failures = result.cases.filter(testCase => !testCase.passed).length;
+    const time = result.cases.reduce((total, testCase) => total + testCase.durationMs, 0) / 1000;
+
+    if (result.error) {
+      lines.push(`  <testsuite name="${escapeXml(suiteName)}" tests="1" failures="0" errors="1" time="0.000" file="${escapeXml(result.filePath)}">`);
+      lines.push(`    <testcase name="load" classname="${escapeXml(className)}" time="0.000">`);
+      lines.push(`      <error message="${escapeXml(result.error)}"/>`);
+      lines.push('    </testcase>');
+      lines.push('  </testsuite>');
+      continue;
+    }
+
+    lines.push(`  <testsuite name="${escapeXml(suiteName)}" tests="${result.cases.length}" failures="${failures}" errors="0" time="${time.toFixed(3)}" file="${escapeXml(result.filePath)}">`);
+    for (const testCase of result.cases) {
+      const caseName = `test case ${testCase.index + 1}`;
+      const caseTime = (testCase.durationMs / 1000).toFixed(3);
+
+      if (testCase.passed) {
+        lines.push(`    <testcase name="${caseName}" classname="${escapeXml(className)}" time="${caseTime}"/>`);
+        continue;
+      }
+
+      const details = describeFailures(testCase, result.filePath);
+      const message = details.length === 1 ? details[0] : `${details.length} failures`;
+      lines.push(`    <testcase name="${caseName}" classname="${escapeXml(className)}" time="${caseTime}">`);
+      lines.push(`      <failure message="${escapeXml(message)}">${escapeXml(details.join('\n'))}</failure>`);
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats test results as a JSON report
+ * @param results The test file results
+ * @returns The JSON report
+ */
+export function formatJsonReport(results: TestFileResult[]): string {
+  const report = {
+    summary: summarizeTestResults(results),
+    files: results.map(result => ({
+      file: result.filePath,
+      modelYear: result.modelYear,
+      commandId: result.commandId,
+      error: result.error,
+      testCases: result.cases.map(testCase => ({
+        index: testCase.index,
+        line: testCase.line + 1,
+        passed: testCase.passed,
+        durationMs: testCase.durationMs,
+        errors: testCase.errors,
+        mismatches: testCase.mismatches.map(mismatch => ({
+          signalId: mismatch.signalId,
+          expected: mismatch.expected,
+          actual: mismatch.actual === undefined ? null : mismatch.actual,
+          line: mismatch.line + 1,
+          message: mismatch.message
+        }))
+      }))
+    }))
+  };
+
+  return JSON.stringify(report, null, 2) + '\n';
+}
@@ -10,6 +10,16 @@ export enum VehicleType {
   UNKNOWN = 'UNKNOWN'
 }
 
+/**
+ * Receives the reasoning behind a vehicle type decision
+ */
+export type VehicleTypeLogger = (message: string) => void;
+
+/**
+ * Logs to stdout, as `obdb fix` reports its decisions there
+ */
+const logToConsole: VehicleTypeLogger = message => console.log(message);
+
 /**
  * EV command patterns for detection
  */
@@ -58,15 +68,16 @@ const ICE_PATTERNS = [
  *
  * @param modelName The vehicle model name (e.g., "Ford-F-150-Lightning")
  * @param commands Array of commands from signalset
+ * @param log Receives the reasoning behind the decision
  * @returns Detected vehicle type
  */
-export function detectVehicleType(modelName: string, commands: Command[]): VehicleType {
+export function detectVehicleType(modelName: string, commands: Command[], log: VehicleTypeLogger = logToConsole): VehicleType {
   const modelNameLower = modelName.toLowerCase();
 
   // Check model name for clear EV indicators
   for (const indicator of EV_MODEL_INDICATORS) {
     if (modelNameLower.includes(indicator)) {
-      console.log(`Vehicle type detected as EV based on model name indicator: '${indicator}'`);
+      log(`Vehicle type detected as EV based on model name indicator: '${indicator}'`);
       return VehicleType.EV;
     }
   }
@@ -74,7 +85,7 @@ export function detectVehicleType(modelName: string, commands: Command[]): Vehic
   // Check model name for clear ICE indicators
   for (const indicator of ICE_MODEL_INDICATORS) {
     if (modelNameLower.includes(indicator)) {
-      console.log(`Vehicle type detected as ICE based on model name indicator: '${indicator}'`);
+      log(`Vehicle type detected as ICE based on model name indicator: '${indicator}'`);
       return VehicleType.ICE;
     }
   }
@@ -132,22 +143,22 @@ export function detectVehicleType(modelName: string, commands: Command[]): Vehic
   const evRatio = evCommandCount / totalCommands;
   const iceRatio = iceCommandCount / totalCommands;
 
-  console.log(`Command analysis: ${evCommandCount} EV commands, ${iceCommandCount} ICE commands out of ${totalCommands} total`);
+  log(`Command analysis: ${evCommandCount} EV commands, ${iceCommandCount} ICE commands out of ${totalCommands} total`);
 
   // If significant EV commands present, classify as EV or HYBRID
   if (evRatio > 0.1) { // More than 10% EV commands
     if (iceRatio > 0.1) { // Also has ICE commands
-      console.log(`Vehicle type detected as HYBRID (EV ratio: ${evRatio.toFixed(2)}, ICE ratio: ${iceRatio.toFixed(2)})`);
+      log(`Vehicle type detected as HYBRID (EV ratio: ${evRatio.toFixed(2)}, ICE ratio: ${iceRatio.toFixed(2)})`);
       return VehicleType.HYBRID;
     } else {
-      console.log(`Vehicle type detected as EV (EV ratio: ${evRatio.toFixed(2)})`);
+      log(`Vehicle type detected as EV (EV ratio: ${evRatio.toFixed(2)})`);
       return VehicleType.EV;
     }
   } else if (iceRatio > 0.05) { // More than 5% ICE commands and no significant EV
-    console.log(`Vehicle type detected as ICE (ICE ratio: ${iceRatio.toFixed(2)})`);
+    log(`Vehicle type detected as ICE (ICE ratio: ${iceRatio.toFixed(2)})`);
     return VehicleType.ICE;
   } else {
-    console.log('Vehicle type could not be determined from command patterns. Defaulting to UNKNOWN.');
+    log('Vehicle type could not be determined from command patterns. Defaulting to UNKNOWN.');
     return VehicleType.UNKNOWN;
   }
 }
@@ -157,9 +168,10 @@ export function detectVehicleType(modelName: string, commands: Command[]): Vehic
  *
  * @param command The command to check
  * @param vehicleType Detected vehicle type
+ * @param log Receives the pattern that matched when the command is filtered
  * @returns True if command should be filtered out, False otherwise
  */
-export function shouldFilterEvCommand(command: Command, vehicleType: VehicleType): boolean {
+export function shouldFilterEvCommand(command: Command, vehicleType: VehicleType, log: VehicleTypeLogger = logToConsole): boolean {
   if (vehicleType === VehicleType.EV || vehicleType === VehicleType.HYBRID || vehicleType === VehicleType.UNKNOWN) {
     return false; // Don't filter for EV/Hybrid vehicles or when uncertain
   }
@@ -171,7 +183,7 @@ export function shouldFilterEvCommand(command: Command, vehicleType: VehicleType
   // Check command patterns
   for (const pattern of EV_COMMAND_PATTERNS) {
     if (commandText.includes(pattern.toUpperCase()) || signalText.toUpperCase().includes(pattern.toUpperCase())) {
-      console.log(`Filtering EV command for ICE vehicle: ${commandText} (pattern: ${pattern})`);
+      log(`Filtering EV command for ICE vehicle: ${commandText} (pattern: ${pattern})`);
       return true;
     }
   }
@@ -180,7 +192,7 @@ export function shouldFilterEvCommand(command: Command, vehicleType: VehicleType
   const signalTextLower = signalText.toLowerCase();
   for (const pattern of EV_SIGNAL_PATTERNS) {
     if (signalTextLower.includes(pattern.toLowerCase())) {
-      console.log(`Filtering EV signal for ICE vehicle: ${signalText} (pattern: ${pattern})`);
+      log(`Filtering EV signal for ICE vehicle: ${signalText} (pattern: ${pattern})`);
       return true;
     }
   }
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+
+/**
+ * Gets the root of the vehicle repository a file belongs to
+ * @param uri The file's URI
+ * @returns The path of the workspace folder containing the file, or undefined when no folder does
+ */
+export function getWorkspaceRoot(uri: vscode.Uri): string | undefined {
+  return vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+}
+
+/**
+ * Gets the vehicle repository of the active editor, falling back to the first workspace folder
+ * when no editor is open or its file is outside every folder
+ * @returns The repository's path, or undefined when no folder is open
+ */
+export function getActiveWorkspaceRoot(): string | undefined {
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  return (activeUri && getWorkspaceRoot(activeUri)) ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+}
+
+/**
+ * Picks the vehicle repository a command acts on: the active editor's, the only workspace folder,
+ * or the one the user chooses
+ * @returns The repository's path, or undefined when no folder is open or the user cancels
+ */
+export async function pickWorkspaceRoot(): Promise<string | undefined> {
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const activeRoot = activeUri && getWorkspaceRoot(activeUri);
+  if (activeRoot) {
+    return activeRoot;
+  }
+
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length <= 1) {
+    return folders[0]?.uri.fsPath;
+  }
+  const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select a vehicle repository' });
+  return folder?.uri.fsPath;
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { findExpectedValueSpans, findSignalIdSpans } from './signalReferences';
+
+/**
+ * A signalset or test case file along with its current text
+ */
+export interface WorkspaceTextFile {
+  uri: vscode.Uri;
+  text: string;
+}
+
+/**
+ * Where a signal ID is used in the workspace
+ */
+export interface WorkspaceSignalReference {
+  uri: vscode.Uri;
+  range: vscode.Range;
+  /** Whether this is the signal's definition in a signalset rather than an expected value in a test case */
+  isDefinition: boolean;
+}
+
+/**
+ * Reads files matching a glob, preferring the text of open documents so unsaved edits are seen
+ * @param include Glob of the files to read
+ * @param token Cancellation token
+ * @param filter Only read the files this accepts
+ * @param folder Only read files of this workspace folder, rather than of every vehicle repository in the workspace
+ */
+export async function readWorkspaceFiles(
+  include: string,
+  token?: vscode.CancellationToken,
+  filter?: (uri: vscode.Uri) => boolean,
+  folder?: vscode.WorkspaceFolder
+): Promise<WorkspaceTextFile[]> {
+  const openDocuments = new Map(vscode.workspace.textDocuments.map(document => [document.uri.toString(), document]));
+  const pattern = folder ? new vscode.RelativePattern(folder, include) : include;
+  const uris = await vscode.workspace.findFiles(pattern, '**/node_modules/**', undefined, token);
+  const files: WorkspaceTextFile[] = [];
+
+  for (const uri of uris.filter(uri => !filter || filter(uri))) {
+    if (token?.isCancellationRequested) {
+      break;
+    }
+    const openDocument = openDocuments.get(uri.toString());
+    if (openDocument) {
+      files.push({ uri, text: openDocument.getText() });
+      continue;
+    }
+    try {
+      files.push({ uri, text: Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8') });
+    } catch (error) {
+      console.error(`Error reading ${uri.fsPath}:`, error);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Reads every signalset in the workspace, or in one of its folders
+ */
+export function readWorkspaceSignalsets(token?: vscode.CancellationToken, folder?: vscode.WorkspaceFolder): Promise<WorkspaceTextFile[]> {
+  return readWorkspaceFiles('**/signalsets/v3/*.json', token, undefined, folder);
+}
+
+/**
+ * Reads every test case file in the workspace, or in one of its folders
+ */
+export function readWorkspaceTestCases(
+  token?: vscode.CancellationToken,
+  filter?: (uri: vscode.Uri) => boolean,
+  folder?: vscode.WorkspaceFolder
+): Promise<WorkspaceTextFile[]> {
+  return readWorkspaceFiles('**/tests/test_cases/*/commands/*.yaml', token, filter, folder);
+}
+
+/**
+ * Reads every command_support.yaml file in the workspace, or in one of its folders
+ */
+export function readWorkspaceCommandSupport(token?: vscode.CancellationToken, folder?: vscode.WorkspaceFolder): Promise<WorkspaceTextFile[]> {
+  return readWorkspaceFiles('**/tests/test_cases/*/command_support.yaml', token, undefined, folder);
+}
+
+/**
+ * Creates a function that converts spans within a file's text to ranges, indexing the text's lines once
+ */
+export function createRangeMapper(text: string): (span: { offset: number, length: number }) => vscode.Range {
+  const lineStarts = [0];
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+
+  const positionAt = (offset: number): vscode.Position => {
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return new vscode.Position(low, offset - lineStarts[low]);
+  };
+
+  return span => new vscode.Range(positionAt(span.offset), positionAt(span.offset + span.length));
+}
+
+/**
+ * Converts a span within a file's text to a range
+ */
+export function spanToRange(text: string, span: { offset: number, length: number }): vscode.Range {
+  return createRangeMapper(text)(span);
+}
+
+/**
+ * Finds every definition of a signal ID in the workspace's signalsets and every use in its test cases
+ * @param signalId The signal ID
+ * @param signalsets The workspace's signalsets
+ * @param testCases The workspace's test case files
+ */
+export function findWorkspaceSignalReferences(
+  signalId: string,
+  signalsets: WorkspaceTextFile[],
+  testCases: WorkspaceTextFile[]
+): WorkspaceSignalReference[] {
+  const references: WorkspaceSignalReference[] = [];
+
+  for (const file of signalsets) {
+    const toRange = createRangeMapper(file.text);
+    for (const span of findSignalIdSpans(file.text, signalId)) {
+      references.push({ uri: file.uri, range: toRange(span), isDefinition: true });
+    }
+  }
+
+  for (const file of testCases) {
+    const spans = findExpectedValueSpans(file.text, signalId);
+    if (spans.length === 0) {
+      continue;
+    }
+    const toRange = createRangeMapper(file.text);
+    for (const span of spans) {
+      references.push({ uri: file.uri, range: toRange(span), isDefinition: false });
+    }
+  }
+
+  return references;
+}